@@ -0,0 +1,360 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { UnicodePropertyPicker } from "@/components/unicode-property-picker";
+import { X, Plus, ChevronDown, ChevronRight } from "lucide-react";
+import type { CaptureGroupInfo, LintDiagnostic, RegexCriterion } from "@/types/regex";
+import { hasChildren } from "@/lib/regex-utils";
+import {
+  ANCHOR_TYPES,
+  CRITERION_HINTS,
+  CRITERION_TYPES,
+  CONTAINER_TYPES,
+  COUNTED_QUANTIFIERS,
+  QUANTIFIERS,
+  RANGE_QUANTIFIERS,
+  UNQUANTIFIED_TYPES,
+} from "@/lib/constants";
+
+interface CriterionRowProps {
+  criterion: RegexCriterion;
+  /** Position among siblings (0-based) */
+  index: number;
+  /** Type of the parent container, if any (used to label "or" branches) */
+  parentType?: string;
+  /** Linter errors and warnings keyed by criterion id */
+  diagnostics: Record<string, LintDiagnostic[]>;
+  /** Groups each backreference criterion can refer to, keyed by criterion id */
+  backreferenceOptions: Record<string, CaptureGroupInfo[]>;
+  /** Criterion to highlight, e.g. while its diagram node is hovered */
+  highlightedId?: string | null;
+  /** Called with this criterion's id while its row is hovered or focused, and null after */
+  onHighlight: (id: string | null) => void;
+  onUpdate: (id: string, patch: Partial<RegexCriterion>) => void;
+  onRemove: (id: string) => void;
+  onAddChild: (parentId: string) => void;
+}
+
+/**
+ * Checks if a criterion type takes a text value
+ * Containers with children build their pattern from the children instead
+ */
+function needsValue(c: RegexCriterion): boolean {
+  // A named group's value is its name, which it needs whether or not it has children
+  if (c.type === "named_group") return true;
+  if (hasChildren(c) || ANCHOR_TYPES.includes(c.type)) return false;
+  return ![
+    "digit",
+    "word_char",
+    "whitespace",
+    "any_char",
+    "letter_upper",
+    "letter_lower",
+    "sequence",
+  ].includes(c.type);
+}
+
+/**
+ * Parses a count input, keeping an empty field as undefined so validation can flag it
+ */
+function parseCount(raw: string): number | undefined {
+  return raw === "" ? undefined : Number(raw);
+}
+
+/**
+ * Summarises a container's children for the value column, e.g. "2 branches"
+ */
+function describeChildren(type: string, count: number): string {
+  const noun = type === "or" ? "branch" : "rule";
+  const plural = type === "or" ? "es" : "s";
+  return `${count} ${noun}${count === 1 ? "" : plural}`;
+}
+
+/**
+ * CriterionRow component - Editor for a single criterion and, for containers, its children
+ * Renders child criteria as an indented, collapsible sub-list
+ */
+export function CriterionRow({
+  criterion: c,
+  index,
+  parentType,
+  diagnostics,
+  backreferenceOptions,
+  highlightedId,
+  onHighlight,
+  onUpdate,
+  onRemove,
+  onAddChild,
+}: CriterionRowProps) {
+  const [expanded, setExpanded] = useState(true);
+  const isContainer = CONTAINER_TYPES.includes(c.type);
+  const children = c.children ?? [];
+  const isUnquantified = UNQUANTIFIED_TYPES.includes(c.type);
+  const isCounted = !isUnquantified && COUNTED_QUANTIFIERS.includes(c.quantifier);
+  const hint = CRITERION_HINTS[c.type];
+  const rowDiagnostics = diagnostics[c.id] ?? [];
+  const quantifierError = rowDiagnostics.find((d) => d.rule === "quantifier")?.message;
+  // Quantifier errors are shown beside the counts they concern; the rest go under the row
+  const messages = rowDiagnostics.filter((d) => d.rule !== "quantifier");
+  const valueError = messages.some((d) => d.severity === "error");
+  const groupOptions = backreferenceOptions[c.id] ?? [];
+
+  return (
+    <Collapsible open={expanded} onOpenChange={setExpanded} className="space-y-2">
+      <div
+        className={`group flex items-start gap-2 rounded-lg border p-3 transition-colors hover:border-accent/20 hover:bg-secondary/50 ${
+          c.id === highlightedId
+            ? "border-accent/60 bg-accent/10"
+            : c.type === "raw"
+              ? "border-dashed border-yellow-500/40 bg-yellow-500/5"
+              : "border-border/50 bg-secondary/30"
+        }`}
+        title={c.type === "raw" ? "Raw fragment: inserted into the pattern as-is" : undefined}
+        // Nested rows sit outside this box, so entering a child row leaves its parent's
+        onMouseEnter={() => onHighlight(c.id)}
+        onMouseLeave={() => onHighlight(null)}
+        onFocus={() => onHighlight(c.id)}
+        onBlur={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget)) onHighlight(null);
+        }}
+      >
+        <span className="flex items-center justify-center w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono shrink-0 mt-1">
+          {parentType === "or" ? String.fromCharCode(97 + index) : index + 1}
+        </span>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
+          {/* Type */}
+          <Select
+            value={c.type}
+            onValueChange={(val) =>
+              // Children only make sense for containers; drop them when switching away
+              onUpdate(c.id, {
+                type: val,
+                children: CONTAINER_TYPES.includes(val) ? c.children : undefined,
+              })
+            }
+          >
+            <SelectTrigger
+              className="bg-card border-border text-foreground"
+              aria-label="Criterion type"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {CRITERION_TYPES.map((ct) => (
+                <SelectItem key={ct.value} value={ct.value}>
+                  {ct.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Value */}
+          {c.type === "backreference" ? (
+            <Select value={c.value} onValueChange={(val) => onUpdate(c.id, { value: val })}>
+              <SelectTrigger
+                className="bg-card border-border text-foreground"
+                aria-label="Group to match again"
+                aria-invalid={valueError}
+                disabled={groupOptions.length === 0}
+              >
+                <SelectValue
+                  placeholder={groupOptions.length > 0 ? "Choose a group..." : "No earlier groups"}
+                />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {groupOptions.map((g) => (
+                  <SelectItem key={g.number} value={g.name ?? String(g.number)}>
+                    {g.name ? `#${g.number} ${g.name}` : `Group #${g.number}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : c.type === "unicode_property" || c.type === "not_unicode_property" ? (
+            <UnicodePropertyPicker
+              value={c.value}
+              negated={c.type === "not_unicode_property"}
+              onChange={(val) => onUpdate(c.id, { value: val })}
+            />
+          ) : needsValue(c) ? (
+            <Input
+              value={c.value}
+              onChange={(e) => onUpdate(c.id, { value: e.target.value })}
+              placeholder={
+                c.type === "or"
+                  ? "word1, word2, ..."
+                  : c.type === "custom_class"
+                    ? "a-z0-9"
+                    : c.type === "raw"
+                      ? "raw regex, e.g. \\b"
+                      : c.type === "named_group"
+                        ? "group name, e.g. year"
+                        : "value..."
+              }
+              className={`bg-card border-border text-foreground placeholder:text-muted-foreground/40 ${
+                c.type === "raw" ? "font-mono" : ""
+              }`}
+              aria-label="Criterion value"
+              aria-required
+              aria-invalid={valueError}
+            />
+          ) : (
+            <div className="flex items-center px-3 rounded-md bg-card border border-border text-muted-foreground text-sm">
+              {isContainer
+                ? describeChildren(c.type, children.length)
+                : ANCHOR_TYPES.includes(c.type)
+                  ? "Matches a position"
+                  : "Auto-detected"}
+            </div>
+          )}
+
+          {/* Quantifier */}
+          {!isUnquantified && (
+            <Select
+              value={c.quantifier}
+              onValueChange={(val) =>
+                // Seed counts so a freshly chosen counted quantifier is immediately valid
+                onUpdate(c.id, {
+                  quantifier: val,
+                  min: COUNTED_QUANTIFIERS.includes(val) ? (c.min ?? 1) : c.min,
+                  max: RANGE_QUANTIFIERS.includes(val) ? (c.max ?? (c.min ?? 1) + 1) : c.max,
+                })
+              }
+            >
+              <SelectTrigger
+                className="bg-card border-border text-foreground"
+                aria-label="Quantifier"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {QUANTIFIERS.map((q) => (
+                  <SelectItem key={q.value} value={q.value}>
+                    {q.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {hint && <p className="md:col-span-3 text-xs text-muted-foreground">{hint}</p>}
+
+          {messages.map((d) =>
+            d.severity === "error" ? (
+              <p key={d.message} className="md:col-span-3 text-xs text-destructive" role="alert">
+                {d.message}
+              </p>
+            ) : (
+              <p key={d.message} className="md:col-span-3 text-xs text-yellow-400">
+                {d.message}
+              </p>
+            )
+          )}
+
+          {/* Counts for {n}, {n,} and {n,m} */}
+          {isCounted && (
+            <div className="md:col-span-3 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span>{c.quantifier.startsWith("exactly") ? "Exactly" : "At least"}</span>
+              <Input
+                type="number"
+                min={0}
+                value={c.min ?? ""}
+                onChange={(e) => onUpdate(c.id, { min: parseCount(e.target.value) })}
+                className="w-20 bg-card border-border text-foreground"
+                aria-label="Minimum repetitions"
+                aria-invalid={!!quantifierError}
+              />
+              {RANGE_QUANTIFIERS.includes(c.quantifier) && (
+                <>
+                  <span>and at most</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={c.max ?? ""}
+                    onChange={(e) => onUpdate(c.id, { max: parseCount(e.target.value) })}
+                    className="w-20 bg-card border-border text-foreground"
+                    aria-label="Maximum repetitions"
+                    aria-invalid={!!quantifierError}
+                  />
+                </>
+              )}
+              <span>times</span>
+              {quantifierError && (
+                <span className="w-full text-xs text-destructive" role="alert">
+                  {quantifierError}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col shrink-0">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onRemove(c.id)}
+            className="text-muted-foreground hover:text-destructive h-8 w-8 mt-0.5"
+          >
+            <X className="w-4 h-4" />
+            <span className="sr-only">Remove criterion</span>
+          </Button>
+          {isContainer && children.length > 0 && (
+            <CollapsibleTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:text-accent h-8 w-8"
+                aria-label={expanded ? "Collapse nested criteria" : "Expand nested criteria"}
+              >
+                {expanded ? (
+                  <ChevronDown className="w-4 h-4" />
+                ) : (
+                  <ChevronRight className="w-4 h-4" />
+                )}
+              </Button>
+            </CollapsibleTrigger>
+          )}
+        </div>
+      </div>
+
+      {isContainer && (
+        <CollapsibleContent className="ml-4 md:ml-8 space-y-2 border-l border-accent/20 pl-3">
+          {children.map((child, i) => (
+            <CriterionRow
+              key={child.id}
+              criterion={child}
+              index={i}
+              parentType={c.type}
+              diagnostics={diagnostics}
+              backreferenceOptions={backreferenceOptions}
+              highlightedId={highlightedId}
+              onHighlight={onHighlight}
+              onUpdate={onUpdate}
+              onRemove={onRemove}
+              onAddChild={onAddChild}
+            />
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onAddChild(c.id)}
+            className="text-muted-foreground hover:text-accent"
+          >
+            <Plus className="w-3.5 h-3.5 mr-1" />
+            {c.type === "or" ? "Add branch" : "Add nested rule"}
+          </Button>
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
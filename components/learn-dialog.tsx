@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { GraduationCap } from "lucide-react";
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+import { learnCriteria } from "@/lib/regex-learn";
+
+interface LearnDialogProps {
+  flags: RegexFlags;
+  /** Called with the learned criteria and the examples they were learned from */
+  onLearn: (criteria: RegexCriterion[], positives: string[], negatives: string[]) => void;
+}
+
+/**
+ * Splits textarea input into one example per non-empty line
+ */
+function lines(text: string): string[] {
+  return text.split("\n").filter((line) => line !== "");
+}
+
+/**
+ * LearnDialog component - Builds criteria from strings that should and shouldn't match
+ * Learning runs in the browser; when no pattern fits, the dialog stays open with the reason
+ */
+export function LearnDialog({ flags, onLearn }: LearnDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [positiveText, setPositiveText] = useState("");
+  const [negativeText, setNegativeText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLearn = () => {
+    const positives = lines(positiveText);
+    const negatives = lines(negativeText);
+    const learned = learnCriteria(positives, negatives, flags);
+    if (learned.error) {
+      setError(learned.error);
+      return;
+    }
+    onLearn(learned.criteria, positives, negatives);
+    setOpen(false);
+    setPositiveText("");
+    setNegativeText("");
+  };
+
+  return (
+    <AlertDialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setError(null);
+      }}
+    >
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-accent">
+          <GraduationCap className="w-4 h-4" />
+          <span className="sr-only">Learn from examples</span>
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-serif">Learn a spell from examples</AlertDialogTitle>
+          <AlertDialogDescription>
+            List one string per line. The simplest pattern that matches every string on the left in
+            full and none on the right becomes a new spell, with the examples as its tests.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="space-y-1.5 text-xs text-green-400">
+            <span>Should match</span>
+            <Textarea
+              value={positiveText}
+              onChange={(e) => {
+                setPositiveText(e.target.value);
+                setError(null);
+              }}
+              placeholder={"INV-001\nINV-042"}
+              rows={6}
+              spellCheck={false}
+              className="bg-secondary/50 border-border font-mono text-foreground placeholder:text-muted-foreground/40"
+            />
+          </label>
+          <label className="space-y-1.5 text-xs text-destructive">
+            <span>Shouldn&apos;t match</span>
+            <Textarea
+              value={negativeText}
+              onChange={(e) => {
+                setNegativeText(e.target.value);
+                setError(null);
+              }}
+              placeholder={"INV-1\nABC-001"}
+              rows={6}
+              spellCheck={false}
+              className="bg-secondary/50 border-border font-mono text-foreground placeholder:text-muted-foreground/40"
+            />
+          </label>
+        </div>
+        {error && (
+          <p className="text-xs text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="accent" onClick={handleLearn} disabled={!positiveText.trim()}>
+            Learn
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
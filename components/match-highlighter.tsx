@@ -0,0 +1,71 @@
+"use client";
+
+import { useMemo } from "react";
+import type { MatchSpan } from "@/lib/regex-utils";
+import { highlightMatches, visualizeWhitespace } from "@/lib/match-highlight";
+
+interface MatchHighlighterProps {
+  text: string;
+  spans: MatchSpan[];
+  /** Show spaces, tabs and line breaks as visible symbols */
+  showWhitespace: boolean;
+}
+
+/**
+ * Colours for capture groups, reused in order when a pattern has more groups
+ */
+const GROUP_COLORS = [
+  "bg-sky-500/35 text-sky-100",
+  "bg-fuchsia-500/35 text-fuchsia-100",
+  "bg-emerald-500/35 text-emerald-100",
+  "bg-orange-500/35 text-orange-100",
+  "bg-violet-500/35 text-violet-100",
+  "bg-rose-500/35 text-rose-100",
+];
+
+/**
+ * Colour class for a capture group number, shared with the match table
+ */
+export function groupColor(number: number): string {
+  return GROUP_COLORS[(number - 1) % GROUP_COLORS.length];
+}
+
+/**
+ * MatchHighlighter component - Test text with every match and capture group marked in place
+ */
+export function MatchHighlighter({ text, spans, showWhitespace }: MatchHighlighterProps) {
+  const segments = useMemo(() => highlightMatches(text, spans), [text, spans]);
+  const show = (value: string) => (showWhitespace ? visualizeWhitespace(value) : value);
+
+  return (
+    <pre
+      className="max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-md border border-border bg-background/60 p-3 font-mono text-sm text-muted-foreground"
+      aria-label="Test text with matches highlighted"
+    >
+      {segments.map((s, i) => {
+        if (s.match === undefined) return <span key={i}>{show(s.text)}</span>;
+        const span = spans[s.match];
+        if (s.text === "") {
+          return (
+            <span
+              key={i}
+              className="inline-block h-4 -mb-0.5 border-l-2 border-accent"
+              title={`Empty match ${s.match + 1} at ${span.start}`}
+            />
+          );
+        }
+        return (
+          <mark
+            key={i}
+            className={`rounded-sm border-b-2 ${s.match % 2 ? "border-accent/60" : "border-accent"} ${
+              s.group ? groupColor(s.group) : "bg-accent/20 text-accent"
+            }`}
+            title={`Match ${s.match + 1} (${span.start}-${span.end})${s.group ? `, group ${s.group}` : ""}`}
+          >
+            {show(s.text)}
+          </mark>
+        );
+      })}
+    </pre>
+  );
+}
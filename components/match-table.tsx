@@ -0,0 +1,89 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { groupColor } from "@/components/match-highlighter";
+import type { MatchSpan } from "@/lib/regex-utils";
+import { visualizeWhitespace } from "@/lib/match-highlight";
+
+interface MatchTableProps {
+  spans: MatchSpan[];
+  /** Show whitespace as visible symbols rather than escapes such as \n */
+  showWhitespace: boolean;
+}
+
+/**
+ * Most matches listed; the highlighted text still shows every match
+ */
+const MAX_TABLE_MATCHES = 100;
+
+/**
+ * MatchTable component - Every match and capture group with its text and offsets
+ * Each match gets a row for the whole match followed by one row per group, numbered and named
+ */
+export function MatchTable({ spans, showWhitespace }: MatchTableProps) {
+  const shown = spans.slice(0, MAX_TABLE_MATCHES);
+  const quote = (text: string) =>
+    showWhitespace ? `"${visualizeWhitespace(text)}"` : JSON.stringify(text);
+
+  return (
+    <div className="space-y-1">
+      <div className="max-h-72 overflow-auto rounded-md border border-border">
+        <Table className="font-mono text-xs" aria-label="Matches and capture groups">
+          <TableHeader>
+            <TableRow className="border-border hover:bg-transparent">
+              <TableHead className="h-8">Match</TableHead>
+              <TableHead className="h-8">Group</TableHead>
+              <TableHead className="h-8">Text</TableHead>
+              <TableHead className="h-8 text-right">Start</TableHead>
+              <TableHead className="h-8 text-right">End</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map((m, i) => [
+              <TableRow key={`${i}-0`} className="border-border bg-accent/5">
+                <TableCell className="py-1.5 text-accent">#{i + 1}</TableCell>
+                <TableCell className="py-1.5 text-muted-foreground">0 (match)</TableCell>
+                <TableCell className="py-1.5 text-foreground whitespace-pre-wrap break-all">
+                  {quote(m.text)}
+                </TableCell>
+                <TableCell className="py-1.5 text-right">{m.start}</TableCell>
+                <TableCell className="py-1.5 text-right">{m.end}</TableCell>
+              </TableRow>,
+              ...m.groups.map((g) => (
+                <TableRow key={`${i}-${g.number}`} className="border-border">
+                  <TableCell className="py-1.5" />
+                  <TableCell className="py-1.5">
+                    <span className={`rounded px-1.5 py-0.5 ${groupColor(g.number)}`}>
+                      {g.name ? `${g.number} ${g.name}` : g.number}
+                    </span>
+                  </TableCell>
+                  <TableCell className="py-1.5 whitespace-pre-wrap break-all">
+                    {g.text === undefined ? (
+                      <span className="text-muted-foreground/60">(not captured)</span>
+                    ) : (
+                      quote(g.text)
+                    )}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-right">{g.start ?? "-"}</TableCell>
+                  <TableCell className="py-1.5 text-right">{g.end ?? "-"}</TableCell>
+                </TableRow>
+              )),
+            ])}
+          </TableBody>
+        </Table>
+      </div>
+      {spans.length > shown.length && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {shown.length} of {spans.length} matches.
+        </p>
+      )}
+    </div>
+  );
+}
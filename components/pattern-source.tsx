@@ -0,0 +1,65 @@
+"use client";
+
+import type { SourceSpan } from "@/lib/regex-utils";
+import type { PatternSegment, PatternTokenKind } from "@/lib/pattern-highlight";
+
+interface PatternSourceProps {
+  /** Segments of the pattern source from highlightPattern() */
+  segments: PatternSegment[];
+  /** Flag string shown after the closing slash */
+  flags: string;
+  /** Source of the criterion to highlight, e.g. while its row is hovered */
+  highlightedSpan?: SourceSpan;
+  /** Called with the id of the criterion under the pointer, or null when it leaves the pattern */
+  onHoverCriterion: (id: string | null) => void;
+}
+
+/**
+ * Colour of each kind of pattern syntax
+ */
+const TOKEN_COLORS: Record<PatternTokenKind, string> = {
+  literal: "text-foreground",
+  escape: "text-sky-400",
+  class: "text-emerald-400",
+  any: "text-sky-400",
+  anchor: "text-rose-400",
+  group: "text-accent",
+  quantifier: "text-yellow-400",
+  alternation: "text-rose-400",
+  backreference: "text-orange-400",
+};
+
+/**
+ * PatternSource component - The built pattern as /source/flags with syntax colouring
+ * Each segment knows the criterion that emitted it, so hovering one highlights its row and
+ * hovering a row highlights every segment it emitted, grouping parentheses included
+ */
+export function PatternSource({
+  segments,
+  flags,
+  highlightedSpan,
+  onHoverCriterion,
+}: PatternSourceProps) {
+  const isHighlighted = (s: PatternSegment) =>
+    !!highlightedSpan &&
+    highlightedSpan.start <= s.start &&
+    s.start + s.text.length <= highlightedSpan.end;
+
+  return (
+    <span onMouseLeave={() => onHoverCriterion(null)}>
+      <span className="text-muted-foreground">/</span>
+      {segments.map((s) => (
+        <span
+          key={s.start}
+          className={`${s.kind ? TOKEN_COLORS[s.kind] : "text-accent"} ${
+            isHighlighted(s) ? "rounded-sm bg-accent/25" : ""
+          }`}
+          onMouseEnter={() => onHoverCriterion(s.criterionId ?? null)}
+        >
+          {s.text}
+        </span>
+      ))}
+      <span className="text-muted-foreground">/{flags}</span>
+    </span>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { BookOpen, Check } from "lucide-react";
+import type { RegexPreset } from "@/types/regex";
+import { REGEX_PRESETS, presetCriteria } from "@/lib/presets";
+import { buildRegex } from "@/lib/regex-utils";
+
+interface PresetPickerProps {
+  /** Called with the chosen preset; whole is true to start a new spell from it, false to append */
+  onInsert: (preset: RegexPreset, whole: boolean) => void;
+}
+
+/**
+ * PresetPicker component - Searchable library of ready-made spells
+ * Filters by name, keywords and description; the chosen preset's limitations are shown
+ * before it is inserted so its trade-offs are known up front
+ */
+export function PresetPicker({ onInsert }: PresetPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = REGEX_PRESETS.find((p) => p.id === selectedId);
+
+  const insert = (whole: boolean) => {
+    if (!selected) return;
+    onInsert(selected, whole);
+    setOpen(false);
+  };
+
+  return (
+    <AlertDialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setSelectedId(null);
+      }}
+    >
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-accent">
+          <BookOpen className="w-4 h-4" />
+          <span className="sr-only">Preset library</span>
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-serif">Preset library</AlertDialogTitle>
+          <AlertDialogDescription>
+            Start from a well-known spell. Presets insert as ordinary criteria, so they stay
+            editable; a whole preset also brings its tests.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Command className="h-auto border border-border">
+          <CommandInput placeholder="Search email, date, version..." autoFocus />
+          <CommandList className="max-h-48">
+            <CommandEmpty>No matching preset.</CommandEmpty>
+            {REGEX_PRESETS.map((p) => (
+              <CommandItem
+                key={p.id}
+                value={`${p.name} ${p.keywords.join(" ")} ${p.description}`}
+                onSelect={() => setSelectedId(p.id)}
+              >
+                <Check
+                  className={`mr-2 h-4 w-4 ${p.id === selectedId ? "opacity-100" : "opacity-0"}`}
+                />
+                {p.name}
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+        {selected && (
+          <div className="space-y-2 text-xs">
+            <p className="text-foreground">{selected.description}</p>
+            <code className="block break-all rounded bg-secondary/50 px-2 py-1.5 font-mono text-accent">
+              {buildRegex(presetCriteria(selected, true), selected.flags)}
+            </code>
+            <ul className="list-disc space-y-0.5 pl-4 text-muted-foreground">
+              {selected.limitations.map((limitation) => (
+                <li key={limitation}>{limitation}</li>
+              ))}
+            </ul>
+            <p className="text-muted-foreground">
+              {selected.tests.length} bundled {selected.tests.length === 1 ? "test" : "tests"}
+            </p>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={() => insert(false)} disabled={!selected}>
+            Append
+          </Button>
+          <Button variant="accent" onClick={() => insert(true)} disabled={!selected}>
+            Use as new spell
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+import { buildRailroad, renderRailroadSvg } from "@/lib/railroad";
+
+interface RailroadDiagramProps {
+  criteria: RegexCriterion[];
+  flags: RegexFlags;
+  /** Called with the id of the criterion under the pointer, or null when it leaves the diagram */
+  onHoverCriterion: (id: string | null) => void;
+}
+
+/**
+ * Saves a blob through a temporary download link
+ */
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so keep the URL alive until then
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * RailroadDiagram component - Collapsible syntax diagram of the pattern
+ * Rendered entirely in the browser; hovering a box reports the criterion it came from
+ */
+export function RailroadDiagram({ criteria, flags, onHoverCriterion }: RailroadDiagramProps) {
+  const [open, setOpen] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const svg = useMemo(() => renderRailroadSvg(buildRailroad(criteria, flags)), [criteria, flags]);
+
+  const exportSvg = () => {
+    download(new Blob([svg.markup], { type: "image/svg+xml" }), "spell-diagram.svg");
+  };
+
+  const exportPng = () => {
+    const url = URL.createObjectURL(new Blob([svg.markup], { type: "image/svg+xml" }));
+    const failed = "The diagram couldn't be converted to PNG; try the SVG export instead";
+    const image = new Image();
+    setExportError(null);
+    image.onload = () => {
+      // Draw at twice the size so the image stays sharp on high-density screens
+      const canvas = document.createElement("canvas");
+      canvas.width = svg.width * 2;
+      canvas.height = svg.height * 2;
+      const context = canvas.getContext("2d");
+      URL.revokeObjectURL(url);
+      if (!context) {
+        setExportError(failed);
+        return;
+      }
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob(
+        (blob) => (blob ? download(blob, "spell-diagram.png") : setExportError(failed)),
+        "image/png"
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      setExportError(failed);
+    };
+    image.src = url;
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-accent">
+            {open ? (
+              <ChevronDown className="w-4 h-4 mr-1" />
+            ) : (
+              <ChevronRight className="w-4 h-4 mr-1" />
+            )}
+            Diagram
+          </Button>
+        </CollapsibleTrigger>
+        {open && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={exportSvg}
+              className="ml-auto text-muted-foreground hover:text-accent"
+            >
+              <Download className="w-3.5 h-3.5 mr-1" />
+              SVG
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={exportPng}
+              className="text-muted-foreground hover:text-accent"
+            >
+              <Download className="w-3.5 h-3.5 mr-1" />
+              PNG
+            </Button>
+          </>
+        )}
+      </div>
+      {open && exportError && (
+        <p className="text-xs text-destructive" role="alert">
+          {exportError}
+        </p>
+      )}
+      <CollapsibleContent>
+        <div
+          className="overflow-x-auto rounded-xl border border-border"
+          role="img"
+          aria-label="Railroad diagram of the pattern"
+          onMouseOver={(e) => {
+            const node = (e.target as Element).closest("[data-criterion-id]");
+            onHoverCriterion(node?.getAttribute("data-criterion-id") ?? null);
+          }}
+          onMouseLeave={() => onHoverCriterion(null)}
+          // The markup is generated by renderRailroadSvg(), which escapes all criterion text
+          dangerouslySetInnerHTML={{ __html: svg.markup }}
+        />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,9 +1,8 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,12 +16,78 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { SelectTrigger, Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { WandIcon, SparklesIcon, HandIcon } from "@/components/icons";
-import { X, Plus, Copy, Check, Trash2 } from "lucide-react";
-import type { RegexCriterion, RegexFlags, SavedRegex } from "@/types/regex";
-import { buildRegex, testRegexSafe, generateId } from "@/lib/regex-utils";
-import { CRITERION_TYPES, QUANTIFIERS } from "@/lib/constants";
+import { Plus, Copy, Check, Trash2, FileInput } from "lucide-react";
+import type {
+  RegexCriterion,
+  RegexFlags,
+  RegexFlavor,
+  RegexPreset,
+  RegexTestCase,
+  SavedRegex,
+  SnippetLanguage,
+} from "@/types/regex";
+import {
+  compileCriteria,
+  generateId,
+  getBackreferenceOptions,
+  listCaptureGroups,
+  requiresUnicode,
+  setFlag,
+  type RegexTestResult,
+} from "@/lib/regex-utils";
+import { parseEditedRegex, parseRegex } from "@/lib/regex-parser";
+import { exportRegex } from "@/lib/regex-flavors";
+import { generateSnippet } from "@/lib/code-snippets";
+import { explainRegex, formatExplanation } from "@/lib/regex-explainer";
+import { analyzeRedos, type RedosRisk } from "@/lib/regex-redos";
+import { previewReplacement, validateReplacement } from "@/lib/regex-replace";
+import { presetCriteria, presetTests } from "@/lib/presets";
+import { groupDiagnostics, lintCriteria } from "@/lib/regex-lint";
+import { highlightPattern } from "@/lib/pattern-highlight";
+import {
+  addChildCriterion as addChildToTree,
+  removeCriterionFromTree,
+  updateCriterionInTree,
+} from "@/lib/criteria-tree";
+import {
+  DEFAULT_FLAGS,
+  REGEX_FLAVORS,
+  REGEX_TIMEOUT_MS,
+  SNIPPET_LANGUAGES,
+  UNICODE_SAMPLE_STRINGS,
+} from "@/lib/constants";
+import { CriterionRow } from "@/components/criterion-row";
+import { RailroadDiagram } from "@/components/railroad-diagram";
+import { MatchHighlighter } from "@/components/match-highlighter";
+import { MatchTable } from "@/components/match-table";
+import { ReplacePreview } from "@/components/replace-preview";
+import { TestSuitePanel } from "@/components/test-suite-panel";
+import { SampleGenerator } from "@/components/sample-generator";
+import { LearnDialog } from "@/components/learn-dialog";
+import { PresetPicker } from "@/components/preset-picker";
+import { PatternSource } from "@/components/pattern-source";
+import { useRegexRunner } from "@/hooks/use-regex-runner";
+
+/**
+ * Badge text and colours for each backtracking risk level
+ */
+const REDOS_BADGES: Record<RedosRisk, { label: string; className: string }> = {
+  safe: { label: "Safe", className: "text-green-400 border-green-500/30" },
+  polynomial: { label: "Slow", className: "text-yellow-400 border-yellow-500/40" },
+  exponential: {
+    label: "ReDoS risk",
+    className: "text-destructive-foreground bg-destructive border-destructive",
+  },
+};
 
 interface RegexBuilderProps {
   onSave: (saved: SavedRegex) => void;
@@ -37,29 +102,86 @@ interface RegexBuilderProps {
  */
 export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: RegexBuilderProps) {
   const [criteria, setCriteria] = useState<RegexCriterion[]>([]);
-  const [flags, setFlags] = useState<RegexFlags>({
-    global: false,
-    caseInsensitive: false,
-    multiline: false,
-    dotAll: false,
-  });
+  const [flags, setFlags] = useState<RegexFlags>(DEFAULT_FLAGS);
   const [copied, setCopied] = useState(false);
+  const [flavor, setFlavor] = useState<RegexFlavor>("javascript");
+  const [snippetLanguage, setSnippetLanguage] = useState<SnippetLanguage>("javascript");
+  const [snippetCopied, setSnippetCopied] = useState(false);
   const [testString, setTestString] = useState("");
-  const [testResult, setTestResult] = useState<null | { matches: boolean; matchedParts: string[] }>(
-    null
-  );
+  const [testResult, setTestResult] = useState<RegexTestResult | null>(null);
+  const [showWhitespace, setShowWhitespace] = useState(false);
+  const [replaceMode, setReplaceMode] = useState(false);
+  const [replacement, setReplacement] = useState("");
+  const [tests, setTests] = useState<RegexTestCase[]>([]);
   const [testError, setTestError] = useState<string | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Text typed into the pattern output while it is being edited; null shows the built pattern
+  const [patternDraft, setPatternDraft] = useState<string | null>(null);
+  // Draft text the criteria were last parsed from, so unchanged text isn't parsed again
+  const appliedDraftRef = useRef<string | null>(null);
+  // What the spell looked like when editing the pattern started, restored if the edit is cancelled
+  const beforeEditRef = useRef<{
+    criteria: RegexCriterion[];
+    flags: RegexFlags;
+    importWarnings: string[];
+  } | null>(null);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const currentIdRef = useRef<string>(editingRegex?.id || generateId());
+  // Identifies the latest test so results that arrive after an edit are ignored
+  const testRunRef = useRef(0);
+  const regexRunner = useRegexRunner();
 
-  const regex = buildRegex(criteria, flags);
+  // Analyses depend only on the criteria and settings, not on the test text or hover state,
+  // so they are memoized to keep typing in the test text responsive
+  const built = useMemo(() => compileCriteria(criteria, flags), [criteria, flags]);
+  const regex = built.regex;
+  const compileError = built.error;
+  // Compile errors pinned on a criterion show on its row; only the rest are shown on their own
+  const unattributedCompileError = built.errors.length > 0 ? null : built.error;
+  const patternSegments = useMemo(() => highlightPattern(built, criteria), [built, criteria]);
+  // The spellbook always stores JavaScript; other flavors only change what is shown and copied
+  const exported = useMemo(() => exportRegex(criteria, flags, flavor), [criteria, flags, flavor]);
+  const snippet = useMemo(
+    () => generateSnippet(criteria, flags, snippetLanguage),
+    [criteria, flags, snippetLanguage]
+  );
+  const explanation = useMemo(() => explainRegex(criteria, flags), [criteria, flags]);
+  const explanationText = useMemo(() => formatExplanation(explanation), [explanation]);
+  const redos = useMemo(() => analyzeRedos(criteria, flags), [criteria, flags]);
+  const snippetFlavor = SNIPPET_LANGUAGES.find((l) => l.value === snippetLanguage)?.flavor;
+  // Lint errors mean the pattern doesn't do what the criteria say, so don't save until fixed
+  const diagnostics = useMemo(
+    () => [
+      ...lintCriteria(criteria, flags),
+      ...built.errors.map((e) => ({ ...e, rule: "syntax" as const, severity: "error" as const })),
+    ],
+    [criteria, flags, built]
+  );
+  const criterionErrorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const hasCriterionErrors = criterionErrorCount > 0;
+  const diagnosticsById = useMemo(() => groupDiagnostics(diagnostics), [diagnostics]);
+  const patternEditable = flavor === "javascript";
+  const backreferenceOptions = useMemo(() => getBackreferenceOptions(criteria), [criteria]);
+  const unicodeRequired = useMemo(
+    () => requiresUnicode(criteria) && !flags.unicodeSets,
+    [criteria, flags]
+  );
+  const captureGroups = useMemo(() => listCaptureGroups(criteria), [criteria]);
+  const replacementWarnings = replaceMode ? validateReplacement(replacement, captureGroups) : [];
 
   // Load editing regex when provided
   useEffect(() => {
     if (editingRegex) {
       setCriteria(editingRegex.criteria);
       setFlags(editingRegex.flags);
+      setReplacement(editingRegex.replacement ?? "");
+      setReplaceMode(!!editingRegex.replacement);
+      setTests(editingRegex.tests ?? []);
       currentIdRef.current = editingRegex.id;
     }
   }, [editingRegex]);
@@ -81,8 +203,18 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
       return;
     }
 
+    // Lint errors are marked on their rows; refuse to save and say why
+    if (criterionErrorCount > 0) {
+      setSaveError(
+        criterionErrorCount === 1
+          ? "Fix the error marked on the criteria above; the spell isn't saved until then"
+          : `Fix the ${criterionErrorCount} errors marked on the criteria above; the spell isn't saved until then`
+      );
+      return;
+    }
+
     // Check if regex is valid for saving
-    const isValidRegex = regex !== "//" && !testError;
+    const isValidRegex = regex !== "//" && !compileError && !testError;
 
     if (!isValidRegex) {
       setSaveError(null);
@@ -97,6 +229,8 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
         flags,
         regex,
         createdAt: editingRegex?.createdAt || Date.now(),
+        replacement: replacement || undefined,
+        tests: tests.length > 0 ? tests : undefined,
       };
       onSave(saved);
       setSaveError(null);
@@ -107,13 +241,20 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [criteria, flags, regex, testError, onSave, onDelete, editingRegex, onCancelEdit]);
-
-  // Clear test results when criteria or flags change
-  useEffect(() => {
-    setTestResult(null);
-    setTestError(null);
-  }, [criteria, flags]);
+  }, [
+    criteria,
+    flags,
+    regex,
+    replacement,
+    tests,
+    compileError,
+    testError,
+    criterionErrorCount,
+    onSave,
+    onDelete,
+    editingRegex,
+    onCancelEdit,
+  ]);
 
   const addCriterion = useCallback(() => {
     setCriteria((prev) => [
@@ -122,19 +263,38 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
     ]);
   }, []);
 
+  const addChildCriterion = useCallback((parentId: string) => {
+    setCriteria((prev) =>
+      addChildToTree(prev, parentId, {
+        id: generateId(),
+        type: "literal",
+        value: "",
+        quantifier: "one",
+      })
+    );
+  }, []);
+
   const removeCriterion = useCallback((id: string) => {
-    setCriteria((prev) => prev.filter((c) => c.id !== id));
+    setCriteria((prev) => removeCriterionFromTree(prev, id));
   }, []);
 
-  const updateCriterion = useCallback((id: string, field: keyof RegexCriterion, value: string) => {
-    setCriteria((prev) => prev.map((c) => (c.id === id ? { ...c, [field]: value } : c)));
+  const updateCriterion = useCallback((id: string, patch: Partial<RegexCriterion>) => {
+    setCriteria((prev) => updateCriterionInTree(prev, id, patch));
   }, []);
 
   const handleCopy = useCallback(() => {
-    navigator.clipboard.writeText(regex);
+    // Keep the explanation with the pattern so it can be pasted as a comment or into a review
+    const text = [exported.pattern, explanationText].filter(Boolean).join("\n\n");
+    navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
-  }, [regex]);
+  }, [exported.pattern, explanationText]);
+
+  const handleCopySnippet = useCallback(() => {
+    navigator.clipboard.writeText(snippet.code);
+    setSnippetCopied(true);
+    setTimeout(() => setSnippetCopied(false), 2000);
+  }, [snippet.code]);
 
   const handleReset = useCallback(() => {
     // If editing, delete the regex from storage
@@ -142,34 +302,163 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
       onDelete(editingRegex.id);
     }
     setCriteria([]);
-    setFlags({ global: false, caseInsensitive: false, multiline: false, dotAll: false });
+    setFlags(DEFAULT_FLAGS);
     setTestString("");
     setTestResult(null);
+    setReplaceMode(false);
+    setReplacement("");
+    setTests([]);
     setTestError(null);
     setSaveError(null);
+    setImportWarnings([]);
     currentIdRef.current = generateId();
     if (editingRegex) onCancelEdit();
   }, [editingRegex, onCancelEdit, onDelete]);
 
-  const handleTest = useCallback(() => {
-    setTestError(null);
-    if (!regex || regex === "//") {
-      setTestResult(null);
+  const handleImport = useCallback(() => {
+    const parsed = parseRegex(importText);
+    if (parsed.error) {
+      setImportError(parsed.error);
       return;
     }
-    const result = testRegexSafe(regex, testString);
-    if (result.error) {
-      setTestError(result.error);
+    // Imported patterns start a new spell rather than overwriting the one being edited
+    setCriteria(parsed.criteria);
+    setFlags(parsed.flags);
+    setTests([]);
+    setTestResult(null);
+    setTestError(null);
+    setImportWarnings(parsed.warnings);
+    setReplaceMode(false);
+    setReplacement("");
+    currentIdRef.current = generateId();
+    if (editingRegex) onCancelEdit();
+    setImportOpen(false);
+    setImportText("");
+    setImportError(null);
+  }, [importText, editingRegex, onCancelEdit]);
+
+  const handleLearn = useCallback(
+    (learned: RegexCriterion[], positives: string[], negatives: string[]) => {
+      // Like an import, a learned pattern starts a new spell; the examples become its tests
+      setCriteria(learned);
+      setTests([
+        ...positives.map((input) => ({ id: generateId(), input, shouldMatch: true })),
+        ...negatives.map((input) => ({ id: generateId(), input, shouldMatch: false })),
+      ]);
       setTestResult(null);
-    } else {
-      setTestResult({ matches: result.matches, matchedParts: result.matchedParts });
-    }
-  }, [regex, testString]);
+      setTestError(null);
+      setImportWarnings([]);
+      setReplaceMode(false);
+      setReplacement("");
+      currentIdRef.current = generateId();
+      if (editingRegex) onCancelEdit();
+    },
+    [editingRegex, onCancelEdit]
+  );
 
-  const needsValue = (type: string) =>
-    !["digit", "word_char", "whitespace", "any_char", "letter_upper", "letter_lower"].includes(
-      type
-    );
+  const handlePreset = useCallback(
+    (preset: RegexPreset, whole: boolean) => {
+      if (!whole) {
+        // Appended presets are unanchored, so their tests would not hold; only criteria are added
+        setCriteria((prev) => [...prev, ...presetCriteria(preset, false)]);
+        return;
+      }
+      // A whole preset starts a new spell, like an import, and brings its tests along
+      setCriteria(presetCriteria(preset, true));
+      setFlags(preset.flags);
+      setTests(presetTests(preset));
+      setTestResult(null);
+      setTestError(null);
+      setImportWarnings([]);
+      setReplaceMode(false);
+      setReplacement("");
+      currentIdRef.current = generateId();
+      if (editingRegex) onCancelEdit();
+    },
+    [editingRegex, onCancelEdit]
+  );
+
+  const applyPatternDraft = useCallback((text: string) => {
+    if (text === appliedDraftRef.current) return;
+    const parsed = parseEditedRegex(text);
+    // An empty pattern is a draft being retyped; emptying the criteria would delete the spell
+    if (parsed.criteria.length === 0) return;
+    appliedDraftRef.current = text;
+    // Edits change the current spell in place; text that doesn't parse is kept as a raw fragment
+    setCriteria(parsed.criteria);
+    setFlags(parsed.flags);
+    setImportWarnings(parsed.warnings);
+  }, []);
+
+  const startPatternEdit = useCallback(() => {
+    const text = regex === "//" ? "" : regex;
+    appliedDraftRef.current = text;
+    beforeEditRef.current = { criteria, flags, importWarnings };
+    setPatternDraft(text);
+  }, [regex, criteria, flags, importWarnings]);
+
+  const finishPatternEdit = useCallback(() => {
+    // Removing the input after Enter or Escape can fire blur too; only the first handler counts
+    if (!beforeEditRef.current) return;
+    beforeEditRef.current = null;
+    if (patternDraft !== null) applyPatternDraft(patternDraft);
+    setPatternDraft(null);
+  }, [patternDraft, applyPatternDraft]);
+
+  const cancelPatternEdit = useCallback(() => {
+    const before = beforeEditRef.current;
+    if (!before) return;
+    beforeEditRef.current = null;
+    setCriteria(before.criteria);
+    setFlags(before.flags);
+    setImportWarnings(before.importWarnings);
+    setPatternDraft(null);
+  }, []);
+
+  // Parse the draft once typing pauses rather than on every keystroke
+  useEffect(() => {
+    if (patternDraft === null) return;
+    const timeout = setTimeout(() => applyPatternDraft(patternDraft), 150);
+    return () => clearTimeout(timeout);
+  }, [patternDraft, applyPatternDraft]);
+
+  const insertTestLines = useCallback((lines: string[]) => {
+    setTestString((prev) => [prev, ...lines].filter(Boolean).join("\n"));
+  }, []);
+
+  const runTest = useCallback(
+    async (input: string) => {
+      const run = ++testRunRef.current;
+      if (!regex || regex === "//") {
+        setTestError(null);
+        setTestResult(null);
+        return;
+      }
+      // A pattern that doesn't compile is reported without running it
+      if (compileError) {
+        setTestError(unattributedCompileError);
+        setTestResult(null);
+        return;
+      }
+      if (!input) {
+        setTestError(null);
+        setTestResult(null);
+        return;
+      }
+      const result = await regexRunner.run(regex, input);
+      if (run !== testRunRef.current) return;
+      // A timeout is a result of its own, not an error in the pattern
+      setTestError(result.error && !result.timedOut ? result.error : null);
+      setTestResult(result.error && !result.timedOut ? null : result);
+    },
+    [regex, compileError, unattributedCompileError, regexRunner]
+  );
+
+  // Re-run the test live as the text, criteria or flags change
+  useEffect(() => {
+    const timeout = setTimeout(() => runTest(testString), 150);
+    return () => clearTimeout(timeout);
+  }, [runTest, testString]);
 
   return (
     <div className="space-y-6">
@@ -184,6 +473,63 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
           </h2>
         </div>
         <div className="flex items-center gap-2">
+          <PresetPicker onInsert={handlePreset} />
+          <LearnDialog flags={flags} onLearn={handleLearn} />
+          <AlertDialog
+            open={importOpen}
+            onOpenChange={(open) => {
+              setImportOpen(open);
+              if (!open) setImportError(null);
+            }}
+          >
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:text-accent"
+              >
+                <FileInput className="w-4 h-4" />
+                <span className="sr-only">Import regex</span>
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle className="font-serif">Summon an existing spell</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Paste a regex literal like /^\d+$/gi. Anything the builder cannot express is kept
+                  as a raw fragment.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Input
+                value={importText}
+                onChange={(e) => {
+                  setImportText(e.target.value);
+                  setImportError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleImport();
+                  }
+                }}
+                placeholder="/pattern/flags"
+                className="bg-secondary/50 border-border font-mono text-foreground placeholder:text-muted-foreground/40"
+                aria-label="Regex to import"
+                aria-invalid={!!importError}
+              />
+              {importError && (
+                <p className="text-xs text-destructive" role="alert">
+                  {importError}
+                </p>
+              )}
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <Button variant="accent" onClick={handleImport} disabled={!importText.trim()}>
+                  Import
+                </Button>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button
@@ -230,6 +576,17 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
           </Badge>
         </div>
 
+        {importWarnings.length > 0 && (
+          <div
+            className="rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-3 text-xs text-yellow-400"
+            role="status"
+          >
+            {importWarnings.map((w) => (
+              <p key={w}>{w}</p>
+            ))}
+          </div>
+        )}
+
         {criteria.length === 0 && (
           <div className="rounded-xl border border-dashed border-border/50 p-8 text-center">
             <HandIcon className="w-8 h-8 text-muted-foreground mx-auto mb-3" />
@@ -241,88 +598,18 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
 
         <div className="space-y-2">
           {criteria.map((c, index) => (
-            <div
+            <CriterionRow
               key={c.id}
-              className="group flex items-start gap-2 rounded-lg border border-border/50 bg-secondary/30 p-3 transition-colors hover:border-accent/20 hover:bg-secondary/50"
-            >
-              <span className="flex items-center justify-center w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono shrink-0 mt-1">
-                {index + 1}
-              </span>
-
-              <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
-                {/* Type */}
-                <Select value={c.type} onValueChange={(val) => updateCriterion(c.id, "type", val)}>
-                  <SelectTrigger
-                    className="bg-card border-border text-foreground"
-                    aria-label="Criterion type"
-                  >
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="bg-card border-border">
-                    {CRITERION_TYPES.map((ct) => (
-                      <SelectItem key={ct.value} value={ct.value}>
-                        {ct.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                {/* Value */}
-                {needsValue(c.type) ? (
-                  <Input
-                    value={c.value}
-                    onChange={(e) => updateCriterion(c.id, "value", e.target.value)}
-                    placeholder={
-                      c.type === "or"
-                        ? "word1, word2, ..."
-                        : c.type === "custom_class"
-                          ? "a-z0-9"
-                          : "value..."
-                    }
-                    className="bg-card border-border text-foreground placeholder:text-muted-foreground/40"
-                    aria-label="Criterion value"
-                    aria-required={needsValue(c.type)}
-                    aria-invalid={needsValue(c.type) && !c.value}
-                  />
-                ) : (
-                  <div className="flex items-center px-3 rounded-md bg-card border border-border text-muted-foreground text-sm">
-                    Auto-detected
-                  </div>
-                )}
-
-                {/* Quantifier */}
-                {!["starts_with", "ends_with", "exact"].includes(c.type) && (
-                  <Select
-                    value={c.quantifier}
-                    onValueChange={(val) => updateCriterion(c.id, "quantifier", val)}
-                  >
-                    <SelectTrigger
-                      className="bg-card border-border text-foreground"
-                      aria-label="Quantifier"
-                    >
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border-border">
-                      {QUANTIFIERS.map((q) => (
-                        <SelectItem key={q.value} value={q.value}>
-                          {q.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                )}
-              </div>
-
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => removeCriterion(c.id)}
-                className="shrink-0 text-muted-foreground hover:text-destructive h-8 w-8 mt-0.5"
-              >
-                <X className="w-4 h-4" />
-                <span className="sr-only">Remove criterion</span>
-              </Button>
-            </div>
+              criterion={c}
+              index={index}
+              diagnostics={diagnosticsById}
+              backreferenceOptions={backreferenceOptions}
+              highlightedId={highlightedId}
+              onHighlight={setHighlightedId}
+              onUpdate={updateCriterion}
+              onRemove={removeCriterion}
+              onAddChild={addChildCriterion}
+            />
           ))}
         </div>
 
@@ -352,23 +639,34 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
             { key: "caseInsensitive" as const, label: "Case Insensitive", desc: "Ignore case" },
             { key: "multiline" as const, label: "Multiline", desc: "^ $ per line" },
             { key: "dotAll" as const, label: "Dot All", desc: ". matches \\n" },
-          ].map((flag) => (
-            <label
-              key={flag.key}
-              className="flex items-center justify-between rounded-lg border border-border/50 bg-secondary/30 px-3 py-2 cursor-pointer"
-            >
-              <div>
-                <p className="text-sm font-medium text-foreground">{flag.label}</p>
-                <p className="text-xs text-muted-foreground">{flag.desc}</p>
-              </div>
-              <Switch
-                checked={flags[flag.key]}
-                onCheckedChange={(checked) =>
-                  setFlags((prev) => ({ ...prev, [flag.key]: checked }))
-                }
-              />
-            </label>
-          ))}
+            { key: "unicode" as const, label: "Unicode", desc: "Code points, \\p{...}" },
+            { key: "unicodeSets" as const, label: "Unicode Sets", desc: "v: set ops in [...]" },
+            { key: "sticky" as const, label: "Sticky", desc: "Match at lastIndex only" },
+            { key: "hasIndices" as const, label: "Indices", desc: "Capture positions (d)" },
+          ].map((flag) => {
+            // \p{...} criteria switch u on in buildRegex() unless v is already on
+            const forced = flag.key === "unicode" && unicodeRequired;
+            return (
+              <label
+                key={flag.key}
+                className="flex items-center justify-between rounded-lg border border-border/50 bg-secondary/30 px-3 py-2 cursor-pointer"
+              >
+                <div>
+                  <p className="text-sm font-medium text-foreground">{flag.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {forced ? "Required by \\p{...}" : flag.desc}
+                  </p>
+                </div>
+                <Switch
+                  checked={flags[flag.key] || forced}
+                  disabled={forced}
+                  onCheckedChange={(checked) =>
+                    setFlags((prev) => setFlag(prev, flag.key, checked))
+                  }
+                />
+              </label>
+            );
+          })}
         </div>
       </div>
 
@@ -381,14 +679,79 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
         <div className="relative group">
           <div className="absolute -inset-[1px] rounded-xl bg-gradient-to-r from-accent/20 via-foreground/10 to-accent/20 opacity-0 group-hover:opacity-100 transition-opacity" />
           <div className="relative flex items-center gap-2 rounded-xl border border-accent/20 bg-card p-4">
-            <code className="flex-1 text-lg font-mono text-accent break-all min-h-[1.75rem]">
-              {regex || (
-                <span className="text-muted-foreground/40 text-sm">
-                  Your regex will appear here...
-                </span>
-              )}
-            </code>
-            {regex && (
+            {patternDraft !== null && patternEditable ? (
+              <Input
+                autoFocus
+                value={patternDraft}
+                onChange={(e) => setPatternDraft(e.target.value)}
+                onBlur={finishPatternEdit}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishPatternEdit();
+                  if (e.key === "Escape") cancelPatternEdit();
+                }}
+                placeholder="/pattern/flags"
+                className="flex-1 h-auto py-0 text-lg font-mono text-accent bg-transparent border-none shadow-none focus-visible:ring-0"
+                aria-label="Edit pattern"
+                spellCheck={false}
+              />
+            ) : (
+              // Only the JavaScript pattern can be parsed back into criteria, so only it is editable
+              <code
+                className={`flex-1 text-lg font-mono text-accent break-all min-h-[1.75rem] ${
+                  patternEditable ? "cursor-text" : ""
+                }`}
+                role={patternEditable ? "button" : undefined}
+                tabIndex={patternEditable ? 0 : undefined}
+                title={patternEditable ? "Click to edit the pattern" : undefined}
+                onClick={patternEditable ? startPatternEdit : undefined}
+                onKeyDown={(e) => {
+                  if (patternEditable && e.key === "Enter") startPatternEdit();
+                }}
+              >
+                {!exported.pattern ? (
+                  <span className="text-muted-foreground/40 text-sm">
+                    {patternEditable
+                      ? "Your regex will appear here... or click to type one"
+                      : "Your regex will appear here..."}
+                  </span>
+                ) : flavor === "javascript" ? (
+                  // Spans index the JavaScript source, so only it can be mapped back to rows
+                  <PatternSource
+                    segments={patternSegments}
+                    flags={built.flags}
+                    highlightedSpan={highlightedId ? built.spans[highlightedId] : undefined}
+                    onHoverCriterion={setHighlightedId}
+                  />
+                ) : (
+                  exported.pattern
+                )}
+              </code>
+            )}
+            {exported.pattern && (
+              <Badge
+                variant="outline"
+                className={`shrink-0 ${REDOS_BADGES[redos.risk].className}`}
+                title="Static check for catastrophic backtracking (ReDoS)"
+              >
+                {REDOS_BADGES[redos.risk].label}
+              </Badge>
+            )}
+            <Select value={flavor} onValueChange={(val) => setFlavor(val as RegexFlavor)}>
+              <SelectTrigger
+                className="w-32 shrink-0 bg-card border-border text-foreground"
+                aria-label="Regex flavor"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {REGEX_FLAVORS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {exported.pattern && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -405,6 +768,113 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
             )}
           </div>
         </div>
+        {exported.diagnostics.length > 0 && (
+          <ul className="space-y-1 text-xs" aria-label="Flavor compatibility">
+            {exported.diagnostics.map((d) => (
+              <li
+                key={d.message}
+                className={d.severity === "error" ? "text-destructive" : "text-yellow-400"}
+              >
+                {d.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {redos.findings.length > 0 && (
+          <div
+            className={`space-y-2 rounded-lg border p-3 text-sm ${
+              redos.risk === "exponential"
+                ? "border-destructive/40 bg-destructive/10 text-destructive"
+                : "border-yellow-500/30 bg-yellow-500/5 text-yellow-400"
+            }`}
+            role="alert"
+          >
+            <p className="font-medium">
+              {redos.risk === "exponential"
+                ? "This spell can backtrack catastrophically: a short input can freeze whatever runs it."
+                : "This spell slows down sharply on long inputs."}
+            </p>
+            <ul className="space-y-2 text-xs" aria-label="Backtracking risks">
+              {redos.findings.map((f) => (
+                <li key={`${f.fragment}-${f.message}`} className="space-y-0.5">
+                  <p>{f.message}.</p>
+                  <p className="text-muted-foreground">{f.suggestion}</p>
+                  {f.rewrite && (
+                    <p className="text-muted-foreground">
+                      Try: <code className="font-mono text-accent break-all">{f.rewrite}</code>
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {explanation.length > 0 && (
+          <ol className="space-y-1 text-sm text-muted-foreground" aria-label="Pattern explanation">
+            {explanation.map((step, i) => (
+              <li
+                key={`${step.criterionId ?? "flag"}-${i}`}
+                style={{ paddingLeft: `${step.depth * 1.25}rem` }}
+              >
+                {step.text}
+              </li>
+            ))}
+          </ol>
+        )}
+        {criteria.length > 0 && (
+          <RailroadDiagram criteria={criteria} flags={flags} onHoverCriterion={setHighlightedId} />
+        )}
+        {snippet.code && (
+          <div className="space-y-2 rounded-xl border border-border bg-card p-4">
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-xs font-medium text-muted-foreground">Code</span>
+              <Select
+                value={snippetLanguage}
+                onValueChange={(val) => setSnippetLanguage(val as SnippetLanguage)}
+              >
+                <SelectTrigger
+                  className="w-32 h-8 bg-card border-border text-foreground"
+                  aria-label="Snippet language"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {SNIPPET_LANGUAGES.map((l) => (
+                    <SelectItem key={l.value} value={l.value}>
+                      {l.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleCopySnippet}
+                className="shrink-0 text-muted-foreground hover:text-accent"
+              >
+                {snippetCopied ? (
+                  <Check className="w-4 h-4 text-green-400" />
+                ) : (
+                  <Copy className="w-4 h-4" />
+                )}
+                <span className="sr-only">Copy code</span>
+              </Button>
+            </div>
+            <pre className="max-h-64 overflow-auto text-xs font-mono text-foreground/90">
+              {snippet.code}
+            </pre>
+            {/* The output panel already lists these when it shows the same flavor */}
+            {snippetFlavor !== flavor &&
+              snippet.diagnostics.map((d) => (
+                <p
+                  key={d.message}
+                  className={`text-xs ${d.severity === "error" ? "text-destructive" : "text-yellow-400"}`}
+                >
+                  {d.message}
+                </p>
+              ))}
+          </div>
+        )}
         {saveError && (
           <div
             className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive"
@@ -419,28 +889,65 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
 
       {/* Test Area */}
       <div className="space-y-3">
-        <span className="text-sm font-medium text-muted-foreground">Test Your Spell</span>
-        <div className="flex gap-2">
-          <Input
-            value={testString}
-            onChange={(e) => {
-              setTestString(e.target.value);
-              setTestResult(null);
-              setTestError(null);
-            }}
-            placeholder="Enter test string..."
-            className="bg-secondary/50 border-border text-foreground placeholder:text-muted-foreground/40"
-            aria-label="Test string input"
-          />
-          <Button
-            onClick={handleTest}
-            disabled={!regex || regex === "//"}
-            className="bg-yellow-400 text-black hover:bg-white disabled:bg-slate-300 disabled:text-slate-800 disabled:cursor-not-allowed shrink-0"
-          >
-            <WandIcon className="w-4 h-4 mr-1" />
-            Test Pattern
-          </Button>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-muted-foreground">Test Your Spell</span>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              Replace
+              <Switch checked={replaceMode} onCheckedChange={setReplaceMode} />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              Show whitespace
+              <Switch checked={showWhitespace} onCheckedChange={setShowWhitespace} />
+            </label>
+          </div>
         </div>
+        <Textarea
+          value={testString}
+          onChange={(e) => setTestString(e.target.value)}
+          placeholder="Enter test text... Matches update as you type."
+          rows={4}
+          spellCheck={false}
+          className="bg-secondary/50 border-border font-mono text-foreground placeholder:text-muted-foreground/40"
+          aria-label="Test string input"
+        />
+        {replaceMode && (
+          <div className="space-y-1">
+            <Input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder="Replace with... e.g. $1, $<name>, $&, $` or $'"
+              spellCheck={false}
+              className="bg-secondary/50 border-border font-mono text-foreground placeholder:text-muted-foreground/40"
+              aria-label="Replacement template"
+            />
+            {replacementWarnings.map((w) => (
+              <p key={w} className="text-xs text-yellow-400">
+                {w}
+              </p>
+            ))}
+          </div>
+        )}
+        {requiresUnicode(criteria) && (
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+            <span>Try a sample:</span>
+            {UNICODE_SAMPLE_STRINGS.map((sample) => (
+              <Button
+                key={sample}
+                variant="outline"
+                size="sm"
+                onClick={() => setTestString(sample)}
+                disabled={!regex || regex === "//"}
+                className="h-7 px-2 bg-secondary/50 border-border text-foreground"
+              >
+                {sample}
+              </Button>
+            ))}
+          </div>
+        )}
+        {criteria.length > 0 && (
+          <SampleGenerator criteria={criteria} flags={flags} onInsert={insertTestLines} />
+        )}
         {testError && (
           <div
             className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive"
@@ -451,7 +958,20 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
             <p className="text-xs mt-1">{testError}</p>
           </div>
         )}
-        {testResult && !testError && (
+        {testResult?.timedOut && (
+          <div
+            className="rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm text-yellow-400"
+            role="alert"
+            aria-live="polite"
+          >
+            <p className="font-medium">The spell ran too long and was stopped.</p>
+            <p className="text-xs mt-1">
+              Matching took longer than {REGEX_TIMEOUT_MS}ms, which usually means catastrophic
+              backtracking. Try making nested quantifiers or overlapping alternatives more specific.
+            </p>
+          </div>
+        )}
+        {testResult && !testResult.timedOut && !testError && (
           <div
             className={`rounded-lg border p-3 text-sm ${
               testResult.matches
@@ -465,24 +985,55 @@ export function RegexBuilder({ onSave, onDelete, editingRegex, onCancelEdit }: R
               <div>
                 <p className="font-medium flex items-center gap-2">
                   <SparklesIcon className="w-4 h-4" />
-                  Bravo, match found!
+                  Bravo, {testResult.spans.length}{" "}
+                  {testResult.spans.length === 1 ? "match" : "matches"} found!
                 </p>
-                {testResult.matchedParts.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mt-2">
-                    {testResult.matchedParts.map((m, i) => (
-                      <Badge key={i} className="bg-green-500/20 text-green-300 border-green-500/30">
-                        {`"${m}"`}
-                      </Badge>
-                    ))}
-                  </div>
-                )}
+                <div className="mt-2">
+                  {replaceMode ? (
+                    <div className="space-y-2">
+                      <p className="text-xs">
+                        {testResult.spans.length}{" "}
+                        {testResult.spans.length === 1 ? "replacement" : "replacements"}
+                        {!flags.global &&
+                          testResult.spans.length === 1 &&
+                          " (turn on g to replace all)"}
+                      </p>
+                      <ReplacePreview
+                        text={testString}
+                        preview={previewReplacement(testString, testResult.spans, replacement)}
+                        showWhitespace={showWhitespace}
+                      />
+                    </div>
+                  ) : (
+                    <MatchHighlighter
+                      text={testString}
+                      spans={testResult.spans}
+                      showWhitespace={showWhitespace}
+                    />
+                  )}
+                </div>
+                <div className="mt-3">
+                  <MatchTable spans={testResult.spans} showWhitespace={showWhitespace} />
+                </div>
               </div>
             ) : (
-              <p className="font-medium">No match. Adjust criteria.</p>
+              <div className="space-y-2">
+                <p className="font-medium">No match. Adjust criteria.</p>
+                {showWhitespace && <MatchHighlighter text={testString} spans={[]} showWhitespace />}
+              </div>
             )}
           </div>
         )}
       </div>
+
+      {/* Test Suite */}
+      <TestSuitePanel
+        pattern={regex !== "//" && !hasCriterionErrors && !compileError ? regex : null}
+        tests={tests}
+        onChange={setTests}
+        captureGroups={captureGroups}
+        testString={testString}
+      />
     </div>
   );
 }
@@ -0,0 +1,85 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { ReplacementPreview } from "@/lib/regex-replace";
+import { visualizeWhitespace } from "@/lib/match-highlight";
+
+interface ReplacePreviewProps {
+  text: string;
+  preview: ReplacementPreview;
+  /** Show spaces, tabs and line breaks as visible symbols */
+  showWhitespace: boolean;
+}
+
+/**
+ * Splits text into plain runs and marked runs, one marked run per replacement
+ *
+ * @param source - Text to split
+ * @param ranges - [start, end) of each marked run, in order
+ * @param show - Formats plain text
+ * @param mark - Renders a marked run
+ */
+function markRanges(
+  source: string,
+  ranges: [number, number][],
+  show: (text: string) => string,
+  mark: (text: string, index: number) => ReactNode
+): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > last) nodes.push(<span key={`t${i}`}>{show(source.slice(last, start))}</span>);
+    nodes.push(mark(source.slice(start, end), i));
+    last = end;
+  });
+  if (last < source.length) nodes.push(<span key="rest">{show(source.slice(last))}</span>);
+  return nodes;
+}
+
+/**
+ * ReplacePreview component - The test text before and after replacing, with each change marked
+ * Removed text is struck through on the left and inserted text is highlighted on the right
+ */
+export function ReplacePreview({ text, preview, showWhitespace }: ReplacePreviewProps) {
+  const show = (value: string) => (showWhitespace ? visualizeWhitespace(value) : value);
+  const paneClass =
+    "max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-md border border-border bg-background/60 p-3 font-mono text-sm text-muted-foreground";
+
+  const before = markRanges(
+    text,
+    preview.parts.map((p) => [p.start, p.end]),
+    show,
+    (value, i) => (
+      <del key={i} className="rounded-sm bg-destructive/20 text-destructive">
+        {show(value)}
+      </del>
+    )
+  );
+  const after = markRanges(
+    preview.output,
+    preview.parts.map((p) => [p.outputStart, p.outputStart + p.replacement.length]),
+    show,
+    (value, i) => (
+      <ins key={i} className="rounded-sm bg-green-500/20 text-green-300 no-underline">
+        {show(value)}
+      </ins>
+    )
+  );
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">Before</span>
+        <pre className={paneClass} aria-label="Test text with replaced matches struck through">
+          {before}
+        </pre>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">After</span>
+        <pre className={paneClass} aria-label="Test text after replacing">
+          {after}
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, Dices } from "lucide-react";
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+import { buildRegex } from "@/lib/regex-utils";
+import { generateSamples, type GeneratedSamples } from "@/lib/regex-samples";
+
+interface SampleGeneratorProps {
+  criteria: RegexCriterion[];
+  flags: RegexFlags;
+  /** Adds lines of text to the test area */
+  onInsert: (lines: string[]) => void;
+}
+
+/**
+ * Samples of each kind generated per click
+ */
+const SAMPLE_COUNT = 5;
+
+/**
+ * SampleGenerator component - Example strings that match the pattern and ones that nearly do
+ * Samples are generated on request for the current pattern and cleared when it changes
+ */
+export function SampleGenerator({ criteria, flags, onInsert }: SampleGeneratorProps) {
+  const [open, setOpen] = useState(false);
+  const [seed, setSeed] = useState(1);
+  const [generated, setGenerated] = useState<{ regex: string; samples: GeneratedSamples } | null>(
+    null
+  );
+
+  const regex = buildRegex(criteria, flags);
+  const samples = generated?.regex === regex ? generated.samples : null;
+
+  const generate = (nextSeed: number) => {
+    setSeed(nextSeed);
+    setGenerated({
+      regex,
+      samples: generateSamples(criteria, flags, { count: SAMPLE_COUNT, seed: nextSeed }),
+    });
+  };
+
+  const sampleButton = (text: string, title?: string) => (
+    <Button
+      key={text}
+      variant="outline"
+      size="sm"
+      onClick={() => onInsert([text])}
+      title={title ?? "Add to the test text"}
+      className="h-7 max-w-full px-2 bg-secondary/50 border-border font-mono text-foreground whitespace-pre overflow-hidden text-ellipsis"
+    >
+      {JSON.stringify(text).slice(1, -1)}
+    </Button>
+  );
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-accent">
+            {open ? (
+              <ChevronDown className="w-4 h-4 mr-1" />
+            ) : (
+              <ChevronRight className="w-4 h-4 mr-1" />
+            )}
+            Generate samples
+          </Button>
+        </CollapsibleTrigger>
+        {open && (
+          <div className="ml-auto flex items-center gap-2">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Seed
+              <Input
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(Math.trunc(Number(e.target.value)) || 0)}
+                className="h-8 w-24 bg-secondary/50 border-border font-mono text-foreground"
+                aria-label="Random seed"
+              />
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => generate(seed)}
+              className="h-8 bg-secondary/50 border-border text-foreground"
+            >
+              Generate
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => generate(Math.floor(Math.random() * 1_000_000))}
+              className="h-8 w-8 text-muted-foreground hover:text-accent"
+            >
+              <Dices className="w-4 h-4" />
+              <span className="sr-only">Generate with a new seed</span>
+            </Button>
+          </div>
+        )}
+      </div>
+      <CollapsibleContent className="space-y-3">
+        {!samples ? (
+          <p className="text-xs text-muted-foreground/60">
+            Generate strings the spell matches, and near misses that break one criterion, to add to
+            the test text. The same seed always gives the same samples.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-green-400">Matches</span>
+                {samples.matches.length > 0 && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    onClick={() => onInsert(samples.matches)}
+                    className="h-auto p-0 text-xs"
+                  >
+                    Insert all
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {samples.matches.length > 0 ? (
+                  samples.matches.map((text) => sampleButton(text))
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No matching strings found. The criteria may contradict each other.
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-destructive">Near misses</span>
+                {samples.nearMisses.length > 0 && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    onClick={() => onInsert(samples.nearMisses.map((m) => m.text))}
+                    className="h-auto p-0 text-xs"
+                  >
+                    Insert all
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {samples.nearMisses.length > 0 ? (
+                  samples.nearMisses.map((m) => sampleButton(m.text, m.change))
+                ) : (
+                  <p className="text-xs text-muted-foreground">No near misses found.</p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
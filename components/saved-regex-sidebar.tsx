@@ -17,6 +17,8 @@ import {
 import { SparklesIcon, TopHatIcon } from "@/components/icons";
 import { Pencil, Trash2 } from "lucide-react";
 import type { SavedRegex } from "@/types/regex";
+import type { TestSuiteSummary } from "@/lib/regex-test-suite";
+import { useTestSuiteSummaries } from "@/hooks/use-test-suite-summaries";
 
 interface SavedRegexSidebarProps {
   savedRegexes: SavedRegex[];
@@ -27,6 +29,27 @@ interface SavedRegexSidebarProps {
   onOpenChange: (open: boolean) => void;
 }
 
+/**
+ * Pass/fail badge for a pattern's test suite
+ */
+function SuiteBadge({ summary }: { summary?: TestSuiteSummary }) {
+  if (!summary) return null;
+  const total = summary.passed + summary.failed;
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${
+        summary.failed > 0
+          ? "border-destructive/40 text-destructive"
+          : "border-green-500/40 text-green-400"
+      }`}
+      aria-label={`${summary.passed} of ${total} tests passing`}
+    >
+      {summary.failed > 0 ? `${summary.failed} failing` : `${total} passing`}
+    </Badge>
+  );
+}
+
 export function SavedRegexSidebar({
   savedRegexes,
   onEdit,
@@ -36,6 +59,7 @@ export function SavedRegexSidebar({
   onOpenChange,
 }: SavedRegexSidebarProps) {
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const suiteSummaries = useTestSuiteSummaries(savedRegexes);
 
   const confirmDelete = (id: string) => {
     onDelete(id);
@@ -98,15 +122,18 @@ export function SavedRegexSidebar({
                       >
                         {saved.regex}
                       </code>
-                      <p className="text-xs text-muted-foreground/40 mt-2">
-                        {new Date(saved.createdAt).toLocaleDateString("en-US", {
-                          month: "short",
-                          day: "numeric",
-                          year: "numeric",
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
-                      </p>
+                      <div className="flex items-center justify-between gap-2 mt-2">
+                        <p className="text-xs text-muted-foreground/40">
+                          {new Date(saved.createdAt).toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                            year: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </p>
+                        <SuiteBadge summary={suiteSummaries[saved.id]} />
+                      </div>
                     </div>
 
                     <div className="flex flex-col gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity">
@@ -194,7 +221,8 @@ export function SavedRegexSidebar({
                       >
                         {saved.regex}
                       </code>
-                      <div className="flex gap-2">
+                      <div className="flex items-center gap-2">
+                        <SuiteBadge summary={suiteSummaries[saved.id]} />
                         <Button
                           variant="outline"
                           size="sm"
@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, Play, Plus, Trash2, X } from "lucide-react";
+import type { CaptureGroupInfo, RegexTestCase } from "@/types/regex";
+import { generateId } from "@/lib/regex-utils";
+import { runTestSuite, summarizeTestSuite, type TestCaseResult } from "@/lib/regex-test-suite";
+import { useRegexRunner } from "@/hooks/use-regex-runner";
+
+interface TestSuitePanelProps {
+  /** Pattern in /source/flags form, or null while it can't be built */
+  pattern: string | null;
+  tests: RegexTestCase[];
+  onChange: (tests: RegexTestCase[]) => void;
+  /** Capture groups in the pattern, offered as expected captures */
+  captureGroups: CaptureGroupInfo[];
+  /** Current test text, which "Add current text" turns into a case */
+  testString: string;
+}
+
+/**
+ * TestSuitePanel component - Saved test cases for the pattern with pass/fail per case
+ * The suite re-runs whenever the pattern or the cases change
+ */
+export function TestSuitePanel({
+  pattern,
+  tests,
+  onChange,
+  captureGroups,
+  testString,
+}: TestSuitePanelProps) {
+  const [results, setResults] = useState<TestCaseResult[] | null>(null);
+  // Identifies the latest run so results for an older pattern are ignored
+  const runRef = useRef(0);
+  const regexRunner = useRegexRunner();
+
+  const runAll = useCallback(async () => {
+    const run = ++runRef.current;
+    const next =
+      pattern && tests.length > 0 ? await runTestSuite(regexRunner, pattern, tests) : null;
+    if (run === runRef.current) setResults(next);
+  }, [pattern, tests, regexRunner]);
+
+  useEffect(() => {
+    const timeout = setTimeout(runAll, 150);
+    return () => clearTimeout(timeout);
+  }, [runAll]);
+
+  const addCase = (input: string) =>
+    onChange([...tests, { id: generateId(), input, shouldMatch: true }]);
+  const updateCase = (id: string, patch: Partial<RegexTestCase>) =>
+    onChange(tests.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  const setCapture = (testCase: RegexTestCase, key: string, value: string) => {
+    const captures = Object.fromEntries(
+      Object.entries({ ...testCase.captures, [key]: value }).filter(([, text]) => text)
+    );
+    updateCase(testCase.id, {
+      captures: Object.keys(captures).length > 0 ? captures : undefined,
+    });
+  };
+
+  // Groups in the pattern, plus any a case still expects after the group was removed
+  const groupKeys = captureGroups.map((g) => g.name ?? String(g.number));
+  const captureKeys = (testCase: RegexTestCase) =>
+    Array.from(new Set([...groupKeys, ...Object.keys(testCase.captures ?? {})]));
+
+  const resultFor = (id: string) => results?.find((r) => r.caseId === id);
+  const summary = results && summarizeTestSuite(results);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-muted-foreground">Test Suite</span>
+          {summary && (
+            <Badge
+              variant="outline"
+              className={
+                summary.failed > 0
+                  ? "border-destructive/40 text-destructive"
+                  : "border-green-500/40 text-green-400"
+              }
+            >
+              {summary.passed}/{summary.passed + summary.failed} passing
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addCase(testString)}
+            disabled={!testString}
+            className="h-8 bg-secondary/50 border-border text-foreground"
+          >
+            Add current text
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addCase("")}
+            className="h-8 bg-secondary/50 border-border text-foreground"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add case
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={runAll}
+            disabled={!pattern || tests.length === 0}
+            className="h-8 bg-secondary/50 border-border text-foreground"
+          >
+            <Play className="w-3.5 h-3.5" />
+            Run all
+          </Button>
+        </div>
+      </div>
+
+      {tests.length === 0 ? (
+        <p className="text-xs text-muted-foreground/60">
+          Save inputs the spell should and shouldn&apos;t match, so later changes can&apos;t quietly
+          break it.
+        </p>
+      ) : (
+        <ul className="space-y-2" aria-label="Test cases">
+          {tests.map((t) => {
+            const result = resultFor(t.id);
+            return (
+              <li
+                key={t.id}
+                className={`rounded-lg border p-2 space-y-2 ${
+                  result && !result.passed
+                    ? "border-destructive/40 bg-destructive/5"
+                    : "border-border bg-secondary/20"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="w-4 shrink-0" aria-live="polite">
+                    {result &&
+                      (result.passed ? (
+                        <Check className="w-4 h-4 text-green-400" aria-label="Passed" />
+                      ) : (
+                        <X className="w-4 h-4 text-destructive" aria-label="Failed" />
+                      ))}
+                  </span>
+                  <Input
+                    value={t.input}
+                    onChange={(e) => updateCase(t.id, { input: e.target.value })}
+                    placeholder="Test input..."
+                    spellCheck={false}
+                    className="h-8 flex-1 bg-secondary/50 border-border font-mono text-sm text-foreground placeholder:text-muted-foreground/40"
+                    aria-label="Test case input"
+                  />
+                  <Select
+                    value={t.shouldMatch ? "match" : "no-match"}
+                    onValueChange={(value) => updateCase(t.id, { shouldMatch: value === "match" })}
+                  >
+                    <SelectTrigger
+                      className="h-8 w-36 bg-card border-border text-foreground"
+                      aria-label="Expected result"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border">
+                      <SelectItem value="match">Should match</SelectItem>
+                      <SelectItem value="no-match">Shouldn&apos;t match</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(tests.filter((other) => other.id !== t.id))}
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    <span className="sr-only">Remove test case</span>
+                  </Button>
+                </div>
+                {t.shouldMatch && captureKeys(t).length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 pl-6">
+                    <span className="text-xs text-muted-foreground">Captures:</span>
+                    {captureKeys(t).map((key) => (
+                      <Input
+                        key={key}
+                        value={t.captures?.[key] ?? ""}
+                        onChange={(e) => setCapture(t, key, e.target.value)}
+                        placeholder={`${/^\d+$/.test(key) ? `$${key}` : key} (any)`}
+                        spellCheck={false}
+                        className="h-7 w-28 bg-secondary/50 border-border font-mono text-xs text-foreground placeholder:text-muted-foreground/40"
+                        aria-label={`Expected text of group ${key}`}
+                      />
+                    ))}
+                  </div>
+                )}
+                {result?.message && (
+                  <p className="pl-6 text-xs text-destructive">{result.message}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
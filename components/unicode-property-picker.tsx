@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronDown } from "lucide-react";
+import { UNICODE_PROPERTIES } from "@/lib/constants";
+
+interface UnicodePropertyPickerProps {
+  /** Selected property, e.g. "Letter" or "Script=Greek" */
+  value: string;
+  /** True for \P{...} so the trigger shows the negated syntax */
+  negated?: boolean;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Property groups in the order they are listed
+ */
+const GROUPS = ["General category", "Script", "Binary property"] as const;
+
+/**
+ * UnicodePropertyPicker component - Searchable list of Unicode properties for \p{...} criteria
+ * Filters by label and property name, so "greek" and "Script=Gr" both find Greek
+ */
+export function UnicodePropertyPicker({ value, negated, onChange }: UnicodePropertyPickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = UNICODE_PROPERTIES.find((p) => p.value === value);
+
+  return (
+    <div
+      className="relative"
+      onBlur={(e) => {
+        // Close when focus leaves the picker, but not when moving between its own parts
+        if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setOpen((o) => !o)}
+        className="w-full justify-between bg-card border-border text-foreground font-normal"
+        aria-label="Unicode property"
+        aria-expanded={open}
+        aria-invalid={!value}
+      >
+        {value ? (
+          <span className="truncate">
+            <span className="font-mono text-accent">{`\\${negated ? "P" : "p"}{${value}}`}</span>
+            {selected && <span className="ml-2 text-muted-foreground">{selected.label}</span>}
+          </span>
+        ) : (
+          <span className="text-muted-foreground/60">Choose a property...</span>
+        )}
+        <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+      </Button>
+
+      {open && (
+        <Command
+          className="absolute z-50 mt-1 h-auto w-full min-w-[16rem] border border-border shadow-md"
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setOpen(false);
+          }}
+        >
+          <CommandInput placeholder="Search letters, scripts, emoji..." autoFocus />
+          <CommandList>
+            <CommandEmpty>No matching property.</CommandEmpty>
+            {GROUPS.map((group) => (
+              <CommandGroup key={group} heading={group}>
+                {UNICODE_PROPERTIES.filter((p) => p.group === group).map((p) => (
+                  <CommandItem
+                    key={p.value}
+                    value={`${p.label} ${p.value}`}
+                    onSelect={() => {
+                      onChange(p.value);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check
+                      className={`mr-2 h-4 w-4 ${p.value === value ? "opacity-100" : "opacity-0"}`}
+                    />
+                    <span className="flex-1">{p.label}</span>
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">{p.value}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      )}
+    </div>
+  );
+}
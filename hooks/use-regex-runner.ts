@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useRef } from "react";
+import { createRegexRunner, type RegexRunner } from "@/lib/regex-runner";
+
+/**
+ * Hook to test patterns in a Web Worker with a timeout
+ * The worker starts on the first test and is stopped when the component unmounts
+ *
+ * @returns Memoized runner whose tests never block the main thread
+ */
+export function useRegexRunner(): RegexRunner {
+  const runnerRef = useRef<RegexRunner | null>(null);
+
+  useEffect(
+    () => () => {
+      runnerRef.current?.dispose();
+      runnerRef.current = null;
+    },
+    []
+  );
+
+  return useMemo(() => {
+    const runner = () => (runnerRef.current ??= createRegexRunner());
+    return {
+      run: (pattern, input) => runner().run(pattern, input),
+      runAll: (pattern, inputs) => runner().runAll(pattern, inputs),
+      dispose: () => runnerRef.current?.dispose(),
+    };
+  }, []);
+}
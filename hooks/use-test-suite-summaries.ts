@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import type { SavedRegex } from "@/types/regex";
+import { runTestSuite, summarizeTestSuite, type TestSuiteSummary } from "@/lib/regex-test-suite";
+import { useRegexRunner } from "@/hooks/use-regex-runner";
+
+/**
+ * Hook to run the test suite of every saved pattern
+ * Suites re-run whenever the saved patterns change
+ *
+ * @param savedRegexes - Patterns in the spellbook
+ * @returns Pass/fail counts keyed by pattern id; patterns without tests are left out
+ */
+export function useTestSuiteSummaries(
+  savedRegexes: SavedRegex[]
+): Record<string, TestSuiteSummary> {
+  const [summaries, setSummaries] = useState<Record<string, TestSuiteSummary>>({});
+  const regexRunner = useRegexRunner();
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      savedRegexes
+        .filter((saved) => saved.tests && saved.tests.length > 0)
+        .map(async (saved) => {
+          const results = await runTestSuite(regexRunner, saved.regex, saved.tests ?? []);
+          return [saved.id, summarizeTestSuite(results)] as const;
+        })
+    ).then((entries) => {
+      if (!cancelled) setSummaries(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedRegexes, regexRunner]);
+
+  return summaries;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { generateSnippet, quotePattern } from "../code-snippets";
+import { DEFAULT_FLAGS, SNIPPET_LANGUAGES } from "../constants";
+import type { RegexCriterion } from "@/types/regex";
+
+const raw = (value: string): RegexCriterion[] => [
+  { id: "1", type: "raw", value, quantifier: "one" },
+];
+
+describe("quotePattern", () => {
+  it("should keep JavaScript, TypeScript and Ruby literals as they are", () => {
+    expect(quotePattern(String.raw`/\d+"'/g`, "javascript")).toBe(String.raw`/\d+"'/g`);
+    expect(quotePattern(String.raw`/\d+/`, "typescript")).toBe(String.raw`/\d+/`);
+    expect(quotePattern(String.raw`/\d+"/i`, "ruby")).toBe(String.raw`/\d+"/i`);
+  });
+
+  it("should escape only unescaped quotes in Python raw strings", () => {
+    expect(quotePattern(String.raw`\d+"`, "python")).toBe(String.raw`r"\d+\""`);
+    expect(quotePattern(String.raw`\"`, "python")).toBe(String.raw`r"\""`);
+    expect(quotePattern(String.raw`\\"`, "python")).toBe(String.raw`r"\\\""`);
+    expect(quotePattern(`""`, "python")).toBe(String.raw`r"\"\""`);
+    expect(quotePattern(`'`, "python")).toBe(`r"'"`);
+  });
+
+  it("should use Go raw strings unless the pattern has a backtick", () => {
+    expect(quotePattern(String.raw`\d+"`, "go")).toBe('`\\d+"`');
+    expect(quotePattern('a`\\d"', "go")).toBe(String.raw`"a` + "`" + String.raw`\\d\""`);
+  });
+
+  it("should double backslashes and escape quotes in Java strings", () => {
+    expect(quotePattern(String.raw`\d+"\\`, "java")).toBe(String.raw`"\\d+\"\\\\"`);
+  });
+
+  it("should double quotes in C# verbatim strings", () => {
+    expect(quotePattern(String.raw`\d+"`, "csharp")).toBe(String.raw`@"\d+"""`);
+    expect(quotePattern(`""`, "csharp")).toBe(`@""""""`);
+  });
+
+  it("should escape quotes and escaped backslashes in PHP single-quoted strings", () => {
+    expect(quotePattern(String.raw`/\d+/u`, "php")).toBe(String.raw`'/\d+/u'`);
+    expect(quotePattern(`/it's/`, "php")).toBe(String.raw`'/it\'s/'`);
+    expect(quotePattern(String.raw`/a\\b/`, "php")).toBe(String.raw`'/a\\\\b/'`);
+    expect(quotePattern(String.raw`/\\'/`, "php")).toBe(String.raw`'/\\\\\'/'`);
+    expect(quotePattern(String.raw`/\'/`, "php")).toBe(String.raw`'/\'/'`);
+  });
+
+  it("should add hashes to Rust raw strings as quotes require", () => {
+    expect(quotePattern(String.raw`\d+`, "rust")).toBe(String.raw`r"\d+"`);
+    expect(quotePattern(`"`, "rust")).toBe(`r#"""#`);
+    expect(quotePattern(`"#`, "rust")).toBe(`r##""#"##`);
+  });
+
+  it("should escape control characters for every language", () => {
+    for (const { value } of SNIPPET_LANGUAGES) {
+      const quoted = quotePattern("a\nb\tc\u0001", value);
+      expect(quoted).not.toMatch(/[\n\t]/);
+      expect(quoted).not.toContain("\u0001");
+    }
+    expect(quotePattern("a\nb\u0001", "python")).toBe(String.raw`r"a\nb\x01"`);
+    expect(quotePattern("a\nb", "java")).toBe(String.raw`"a\\nb"`);
+  });
+
+  it("should escape the line and paragraph separators", () => {
+    for (const { value } of SNIPPET_LANGUAGES) {
+      expect(quotePattern("/a\u2028b\u2029/u", value)).not.toMatch(/[\u2028\u2029]/);
+    }
+    expect(quotePattern("/a\u2028/", "javascript")).toBe(String.raw`/a\u2028/`);
+    expect(quotePattern("a\u2029", "python")).toBe(String.raw`r"a\u2029"`);
+    expect(quotePattern("a\u2028", "go")).toBe("`a\\x{2028}`");
+    expect(quotePattern("/a\u2028/u", "php")).toBe(String.raw`'/a\x{2028}/u'`);
+    expect(quotePattern("/a\u2028/", "php")).toBe(String.raw`'/a\xE2\x80\xA8/'`);
+  });
+});
+
+describe("generateSnippet", () => {
+  it("should return no code without criteria", () => {
+    expect(generateSnippet([], DEFAULT_FLAGS, "python").code).toBe("");
+  });
+
+  it("should escape slashes in JavaScript literals", () => {
+    const { code } = generateSnippet(raw("a/b[/]"), DEFAULT_FLAGS, "javascript");
+    expect(code).toContain(String.raw`const regex = /a\/b[\/]/;`);
+  });
+
+  it("should type the TypeScript snippet", () => {
+    const { code } = generateSnippet(raw("\\d+"), DEFAULT_FLAGS, "typescript");
+    expect(code).toContain(String.raw`const regex: RegExp = /\d+/;`);
+    expect(code).toContain("const isMatch: boolean = regex.test(text);");
+  });
+
+  it("should replace once without the g flag and everywhere with it", () => {
+    const once = generateSnippet(raw("a"), DEFAULT_FLAGS, "python").code;
+    const all = generateSnippet(raw("a"), { ...DEFAULT_FLAGS, global: true }, "python").code;
+    expect(once).toContain('result = pattern.sub("replacement", text, count=1)');
+    expect(all).toContain('result = pattern.sub("replacement", text)');
+    expect(all).toContain("matches = pattern.findall(text)");
+  });
+
+  it("should render each language with its flavor's syntax", () => {
+    const criteria = raw("(?<year>\\d{4})");
+    const flags = { ...DEFAULT_FLAGS, caseInsensitive: true };
+    const code = (language: Parameters<typeof generateSnippet>[2]) =>
+      generateSnippet(criteria, flags, language).code;
+
+    expect(code("python")).toContain(String.raw`re.compile(r"(?ai)(?P<year>\d{4})")`);
+    expect(code("go")).toContain("regexp.MustCompile(`(?i)(?P<year>\\d{4})`)");
+    expect(code("java")).toContain(String.raw`Pattern.compile("(?i)(?<year>\\d{4})")`);
+    expect(code("csharp")).toContain(String.raw`new Regex(@"(?i)(?<year>\d{4})")`);
+    expect(code("php")).toContain(String.raw`$pattern = '/(?<year>\d{4})/i';`);
+    expect(code("ruby")).toContain(String.raw`regex = /(?<year>\d{4})/i`);
+    expect(code("rust")).toContain(String.raw`Regex::new(r"(?i)(?P<year>\d{4})")`);
+  });
+
+  it("should pass on the flavor diagnostics", () => {
+    const { diagnostics } = generateSnippet(raw("(a)\\1"), DEFAULT_FLAGS, "rust");
+    expect(diagnostics).toEqual([
+      { severity: "error", message: "Rust does not support backreferences" },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  addChildCriterion,
+  cloneCriteria,
+  removeCriterionFromTree,
+  updateCriterionInTree,
+} from "../criteria-tree";
+import type { RegexCriterion } from "@/types/regex";
+
+const tree: RegexCriterion[] = [
+  { id: "a", type: "literal", value: "x", quantifier: "one" },
+  {
+    id: "g",
+    type: "group",
+    value: "",
+    quantifier: "one",
+    children: [
+      { id: "b", type: "digit", value: "", quantifier: "one" },
+      {
+        id: "s",
+        type: "sequence",
+        value: "",
+        quantifier: "optional",
+        children: [{ id: "c", type: "literal", value: "y", quantifier: "one" }],
+      },
+    ],
+  },
+];
+
+const ids = (criteria: RegexCriterion[]): string[] =>
+  criteria.flatMap((c) => [c.id, ...ids(c.children ?? [])]);
+
+describe("updateCriterionInTree", () => {
+  it("should patch a nested criterion and copy only the path to it", () => {
+    const updated = updateCriterionInTree(tree, "c", { value: "z", quantifier: "one_or_more" });
+    expect(updated[1].children![1].children![0]).toEqual({
+      id: "c",
+      type: "literal",
+      value: "z",
+      quantifier: "one_or_more",
+    });
+    expect(updated[0]).toBe(tree[0]);
+    expect(updated[1]).not.toBe(tree[1]);
+    expect(updated[1].children![0]).toBe(tree[1].children![0]);
+    expect(tree[1].children![1].children![0].value).toBe("y");
+  });
+
+  it("should leave the tree unchanged for an unknown id", () => {
+    expect(updateCriterionInTree(tree, "missing", { value: "z" })).toEqual(tree);
+  });
+});
+
+describe("removeCriterionFromTree", () => {
+  it("should remove a nested criterion", () => {
+    expect(ids(removeCriterionFromTree(tree, "c"))).toEqual(["a", "g", "b", "s"]);
+  });
+
+  it("should remove a container with its children", () => {
+    expect(ids(removeCriterionFromTree(tree, "g"))).toEqual(["a"]);
+    expect(ids(tree)).toEqual(["a", "g", "b", "s", "c"]);
+  });
+});
+
+describe("addChildCriterion", () => {
+  const child: RegexCriterion = { id: "n", type: "any_char", value: "", quantifier: "one" };
+
+  it("should append to a nested container", () => {
+    expect(ids(addChildCriterion(tree, "s", child))).toEqual(["a", "g", "b", "s", "c", "n"]);
+  });
+
+  it("should start the children of a criterion that has none", () => {
+    expect(addChildCriterion(tree, "a", child)[0].children).toEqual([child]);
+  });
+});
+
+describe("cloneCriteria", () => {
+  it("should copy the tree with fresh, unique ids", () => {
+    const copy = cloneCriteria(tree);
+    const copyIds = ids(copy);
+    expect(copyIds).toHaveLength(5);
+    expect(new Set(copyIds).size).toBe(5);
+    copyIds.forEach((id) => expect(ids(tree)).not.toContain(id));
+    const strip = (criteria: RegexCriterion[]): unknown[] =>
+      criteria.map(({ id: _id, children, ...rest }) => ({
+        ...rest,
+        ...(children && { children: strip(children) }),
+      }));
+    expect(strip(copy)).toEqual(strip(tree));
+  });
+});
@@ -0,0 +1,11 @@
+import type { RegexCriterion } from "@/types/regex";
+
+/**
+ * Builds a criterion for tests, matched once unless `extra` says otherwise
+ */
+export const criterion = (
+  id: string,
+  type: string,
+  value = "",
+  extra: Partial<RegexCriterion> = {}
+): RegexCriterion => ({ id, type, value, quantifier: "one", ...extra });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { highlightMatches, visualizeWhitespace } from "../match-highlight";
+
+describe("highlightMatches", () => {
+  it("should leave text without matches as one segment", () => {
+    expect(highlightMatches("abc", [])).toEqual([{ text: "abc", start: 0 }]);
+  });
+
+  it("should mark matches and the innermost group", () => {
+    const spans = [
+      {
+        text: "abcde",
+        start: 2,
+        end: 7,
+        groups: [
+          { number: 1, text: "abcde", start: 2, end: 7 },
+          { number: 2, text: "bc", start: 3, end: 5 },
+          { number: 3 },
+        ],
+      },
+    ];
+    expect(highlightMatches("x=abcde!", spans)).toEqual([
+      { text: "x=", start: 0 },
+      { text: "a", start: 2, match: 0, group: 1 },
+      { text: "bc", start: 3, match: 0, group: 2 },
+      { text: "de", start: 5, match: 0, group: 1 },
+      { text: "!", start: 7 },
+    ]);
+  });
+
+  it("should keep touching matches apart", () => {
+    const spans = [
+      { text: "ab", start: 0, end: 2, groups: [] },
+      { text: "cd", start: 2, end: 4, groups: [] },
+    ];
+    expect(highlightMatches("abcd", spans).map((s) => s.match)).toEqual([0, 1]);
+  });
+
+  it("should add empty segments for empty matches", () => {
+    const spans = [
+      { text: "", start: 0, end: 0, groups: [] },
+      { text: "", start: 1, end: 1, groups: [] },
+    ];
+    expect(highlightMatches("a", spans)).toEqual([
+      { text: "", start: 0, match: 0 },
+      { text: "a", start: 0 },
+      { text: "", start: 1, match: 1 },
+    ]);
+  });
+
+  it("should mark an empty match where the previous match ends", () => {
+    const spans = [
+      { text: "", start: 0, end: 0, groups: [] },
+      { text: "xx", start: 1, end: 3, groups: [] },
+      { text: "", start: 3, end: 3, groups: [] },
+    ];
+    expect(highlightMatches("axxb", spans)).toEqual([
+      { text: "", start: 0, match: 0 },
+      { text: "a", start: 0 },
+      { text: "xx", start: 1, match: 1 },
+      { text: "", start: 3, match: 2 },
+      { text: "b", start: 3 },
+    ]);
+  });
+});
+
+describe("visualizeWhitespace", () => {
+  it("should show whitespace as symbols and keep line breaks", () => {
+    expect(visualizeWhitespace("a b\tc\r\nd\u00a0")).toBe("a·b→c␍↵\nd⍽");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { highlightPattern, tokenizePattern } from "../pattern-highlight";
+import { compileCriteria } from "../regex-utils";
+import { DEFAULT_FLAGS } from "../constants";
+import type { RegexCriterion } from "@/types/regex";
+
+describe("tokenizePattern", () => {
+  const tokens = (source: string, flags?: string) =>
+    tokenizePattern(source, flags).map((t) => [t.kind, source.slice(t.start, t.end)]);
+
+  it("should split groups, alternations and quantifiers into their own tokens", () => {
+    expect(tokens("(?<y>a|\\d)+?")).toEqual([
+      ["group", "(?<y>"],
+      ["literal", "a"],
+      ["alternation", "|"],
+      ["escape", "\\d"],
+      ["group", ")"],
+      ["quantifier", "+?"],
+    ]);
+  });
+
+  it("should colour classes, anchors, wildcards and backreferences", () => {
+    expect(tokens("^[^a-z].\\b(x)\\1$")).toEqual([
+      ["anchor", "^"],
+      ["class", "[^a-z]"],
+      ["any", "."],
+      ["anchor", "\\b"],
+      ["group", "("],
+      ["literal", "x"],
+      ["group", ")"],
+      ["backreference", "\\1"],
+      ["anchor", "$"],
+    ]);
+    expect(tokens("\\p{L}{2}", "u")).toEqual([
+      ["escape", "\\p{L}"],
+      ["quantifier", "{2}"],
+    ]);
+  });
+
+  it("should return no tokens for source that doesn't parse", () => {
+    expect(tokenizePattern("(a")).toEqual([]);
+  });
+});
+
+describe("highlightPattern", () => {
+  const criteria: RegexCriterion[] = [
+    { id: "start", type: "input_start", value: "", quantifier: "one" },
+    {
+      id: "seq",
+      type: "sequence",
+      value: "",
+      quantifier: "one_or_more",
+      children: [
+        { id: "word", type: "literal", value: "ab", quantifier: "one" },
+        { id: "digit", type: "digit", value: "", quantifier: "optional" },
+      ],
+    },
+  ];
+  const segments = highlightPattern(compileCriteria(criteria, DEFAULT_FLAGS), criteria);
+  const owners = segments.map((s) => [s.text, s.kind, s.criterionId]);
+
+  it("should cover the whole source in order", () => {
+    expect(segments.map((s) => s.text).join("")).toBe("^(?:ab\\d?)+");
+    segments.forEach((s, i) => {
+      if (i > 0) expect(s.start).toBe(segments[i - 1].start + segments[i - 1].text.length);
+    });
+  });
+
+  it("should give added grouping to the criterion it was added for", () => {
+    expect(owners).toEqual([
+      ["^", "anchor", "start"],
+      ["(?:", "group", "seq"],
+      ["ab", "literal", "word"],
+      ["\\d", "escape", "digit"],
+      ["?", "quantifier", "digit"],
+      [")", "group", "seq"],
+      ["+", "quantifier", "seq"],
+    ]);
+  });
+
+  it("should still map criteria when the pattern doesn't compile", () => {
+    const broken: RegexCriterion[] = [
+      { id: "a", type: "literal", value: "x", quantifier: "one" },
+      { id: "b", type: "raw", value: "(y", quantifier: "one" },
+    ];
+    expect(highlightPattern(compileCriteria(broken, DEFAULT_FLAGS), broken)).toEqual([
+      { text: "x", start: 0, criterionId: "a" },
+      { text: "(y", start: 1, criterionId: "b" },
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { REGEX_PRESETS, presetCriteria, presetTests } from "../presets";
+import { checkTestCase } from "../regex-test-suite";
+import { buildRegex, testRegexSafe } from "../regex-utils";
+import type { RegexCriterion } from "@/types/regex";
+
+const ids = (criteria: RegexCriterion[]): string[] =>
+  criteria.flatMap((c) => [c.id, ...ids(c.children ?? [])]);
+
+describe("REGEX_PRESETS", () => {
+  it("should have unique ids", () => {
+    const presetIds = REGEX_PRESETS.map((p) => p.id);
+    expect(new Set(presetIds).size).toBe(presetIds.length);
+  });
+
+  it.each(REGEX_PRESETS.map((p) => [p.name, p] as const))(
+    "%s should pass its bundled tests",
+    (_, preset) => {
+      const regex = buildRegex(presetCriteria(preset, true), preset.flags);
+      const failures = preset.tests
+        .map((t) => ({ input: t.input, ...checkTestCase(t, testRegexSafe(regex, t.input)) }))
+        .filter((r) => !r.passed);
+      expect(failures).toEqual([]);
+      expect(preset.tests.some((t) => t.shouldMatch)).toBe(true);
+      expect(preset.tests.some((t) => !t.shouldMatch)).toBe(true);
+    }
+  );
+});
+
+describe("presetCriteria", () => {
+  const [preset] = REGEX_PRESETS;
+
+  it("should anchor a whole pattern and leave an appended one bare", () => {
+    const whole = buildRegex(presetCriteria(preset, true), preset.flags);
+    const body = buildRegex(presetCriteria(preset, false), preset.flags);
+    expect(whole).toBe(`/^${body.slice(1, -1)}$/`);
+  });
+
+  it("should give every insertion fresh ids", () => {
+    const first = ids(presetCriteria(preset, false));
+    const second = ids(presetCriteria(preset, false));
+    expect(first.some((id) => second.includes(id))).toBe(false);
+    expect(presetTests(preset)[0].id).not.toBe(preset.tests[0].id);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { buildRailroad, renderRailroadSvg } from "../railroad";
+import { DEFAULT_FLAGS } from "../constants";
+import { parseRegex } from "../regex-parser";
+import { criterion } from "./helpers";
+
+describe("buildRailroad", () => {
+  it("should draw a single criterion as one box", () => {
+    expect(buildRailroad([criterion("1", "digit")], DEFAULT_FLAGS)).toEqual({
+      kind: "terminal",
+      label: "digit",
+      tone: "class",
+      criterionId: "1",
+    });
+  });
+
+  it("should turn quantifiers into repeats", () => {
+    const diagram = buildRailroad(
+      [criterion("1", "digit", "", { quantifier: "between_lazy", min: 2, max: 4 })],
+      DEFAULT_FLAGS
+    );
+    expect(diagram).toMatchObject({ kind: "repeat", min: 2, max: 4, lazy: true, criterionId: "1" });
+  });
+
+  it("should ignore invalid counts like buildRegex does", () => {
+    const diagram = buildRailroad(
+      [criterion("1", "digit", "", { quantifier: "between", min: 5, max: 2 })],
+      DEFAULT_FLAGS
+    );
+    expect(diagram.kind).toBe("terminal");
+  });
+
+  it("should number groups and draw alternatives as a choice", () => {
+    const criteria = [
+      criterion("g", "named_group", "year", {
+        children: [
+          criterion("o", "or", "", {
+            children: [criterion("a", "literal", "a"), criterion("b", "literal", "b")],
+          }),
+        ],
+      }),
+      criterion("r", "backreference", "year"),
+    ];
+    expect(buildRailroad(criteria, DEFAULT_FLAGS)).toMatchObject({
+      kind: "sequence",
+      items: [
+        {
+          kind: "group",
+          label: "#1 year",
+          criterionId: "g",
+          body: {
+            kind: "choice",
+            criterionId: "o",
+            branches: [
+              { kind: "terminal", label: '"a"', criterionId: "a" },
+              { kind: "terminal", label: '"b"', criterionId: "b" },
+            ],
+          },
+        },
+        { kind: "terminal", label: "same as year", tone: "reference", criterionId: "r" },
+      ],
+    });
+  });
+
+  it("should draw lookarounds as dashed frames", () => {
+    const diagram = buildRailroad([criterion("1", "negative_lookbehind", "$")], DEFAULT_FLAGS);
+    expect(diagram).toMatchObject({ kind: "group", label: "not preceded by", lookaround: true });
+  });
+
+  it("should parse raw fragments and attribute every part to the fragment", () => {
+    const diagram = buildRailroad([criterion("raw", "raw", "ab+(?:c|\\d)")], DEFAULT_FLAGS);
+    expect(diagram).toMatchObject({
+      kind: "sequence",
+      items: [
+        { kind: "terminal", label: '"a"', criterionId: "raw" },
+        { kind: "repeat", min: 1, max: null, body: { label: '"b"' }, criterionId: "raw" },
+        {
+          kind: "choice",
+          branches: [{ label: '"c"' }, { label: "\\d", tone: "class" }],
+          criterionId: "raw",
+        },
+      ],
+    });
+  });
+
+  it("should leave out criteria buildRegex leaves out", () => {
+    const criteria = [criterion("1", "unicode_property"), criterion("2", "backreference", "x")];
+    expect(buildRailroad(criteria, DEFAULT_FLAGS)).toEqual({ kind: "sequence", items: [] });
+  });
+
+  it("should follow the m and s flags in labels", () => {
+    const criteria = [criterion("1", "line_start"), criterion("2", "any_char")];
+    expect(buildRailroad(criteria, DEFAULT_FLAGS)).toMatchObject({
+      items: [{ label: "start of text" }, { label: "any char but newline" }],
+    });
+    expect(
+      buildRailroad(criteria, { ...DEFAULT_FLAGS, multiline: true, dotAll: true })
+    ).toMatchObject({ items: [{ label: "start of line" }, { label: "any char" }] });
+  });
+});
+
+describe("renderRailroadSvg", () => {
+  it("should render a standalone SVG with hover targets", () => {
+    const criteria = [
+      criterion("c1", "contains", "<a&b>", { quantifier: "zero_or_more" }),
+      criterion("c2", "or", "x, y"),
+    ];
+    const { markup, width, height } = renderRailroadSvg(buildRailroad(criteria, DEFAULT_FLAGS));
+    expect(markup.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(markup).toContain(`width="${width}" height="${height}"`);
+    expect(markup).toContain('data-criterion-id="c1"');
+    expect(markup).toContain('data-criterion-id="c2"');
+    expect(markup).toContain("&#34;&#60;a&#38;b&#62;&#34;");
+    expect(markup).not.toContain("<a&b>");
+  });
+
+  it("should grow with the pattern", () => {
+    const small = renderRailroadSvg(buildRailroad([criterion("1", "digit")], DEFAULT_FLAGS));
+    const large = renderRailroadSvg(
+      buildRailroad(
+        [criterion("1", "digit"), criterion("2", "or", "a, b, c", { quantifier: "optional" })],
+        DEFAULT_FLAGS
+      )
+    );
+    expect(large.width).toBeGreaterThan(small.width);
+    expect(large.height).toBeGreaterThan(small.height);
+  });
+
+  it("should caption counted repeats", () => {
+    const diagram = buildRailroad(
+      [criterion("1", "digit", "", { quantifier: "exactly", min: 3 })],
+      DEFAULT_FLAGS
+    );
+    expect(renderRailroadSvg(diagram).markup).toContain(">3 times</text>");
+  });
+
+  it("should write control characters in labels as escapes", () => {
+    const imported = parseRegex("/\\x01a\\u0000/");
+    const { markup } = renderRailroadSvg(
+      buildRailroad([...imported.criteria, criterion("t", "literal", "x\ty\n")], imported.flags)
+    );
+    // Tabs and newlines may separate markup, but no other C0 control character is valid XML
+    const controls = Array.from(markup).filter((ch) => ch < " " && !"\t\n\r".includes(ch));
+    expect(controls).toEqual([]);
+    expect(markup).toContain("\\x01");
+    expect(markup).toContain("\\x00");
+    expect(markup).toContain("x\\ty\\n");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { parsePattern } from "../regex-ast";
+
+describe("parsePattern", () => {
+  it("should parse a sequence of atoms with offsets", () => {
+    const root = parsePattern("a\\d.");
+    expect(root.kind).toBe("sequence");
+    if (root.kind !== "sequence") return;
+    expect(root.items.map((n) => [n.kind, n.start, n.end])).toEqual([
+      ["literal", 0, 1],
+      ["class_escape", 1, 3],
+      ["any", 3, 4],
+    ]);
+  });
+
+  it("should parse top-level alternation into branches", () => {
+    const root = parsePattern("ab|c|");
+    expect(root.kind).toBe("alternation");
+    if (root.kind !== "alternation") return;
+    expect(root.branches.map((b) => b.items.length)).toEqual([2, 1, 0]);
+  });
+
+  it("should parse quantifiers including counted and lazy forms", () => {
+    const root = parsePattern("a*b+?c{2}d{2,}e{2,5}?");
+    if (root.kind !== "sequence") throw new Error("expected sequence");
+    expect(
+      root.items.map((n) => (n.kind === "quantifier" ? [n.min, n.max, n.lazy] : null))
+    ).toEqual([
+      [0, null, false],
+      [1, null, true],
+      [2, 2, false],
+      [2, null, false],
+      [2, 5, true],
+    ]);
+  });
+
+  it("should treat a brace that is not a quantifier as a literal", () => {
+    const root = parsePattern("a{x}");
+    if (root.kind !== "sequence") throw new Error("expected sequence");
+    expect(root.items.every((n) => n.kind === "literal")).toBe(true);
+  });
+
+  it("should parse group kinds and names", () => {
+    const root = parsePattern("(a)(?:b)(?<year>c)(?=d)(?!e)(?<=f)(?<!g)");
+    if (root.kind !== "sequence") throw new Error("expected sequence");
+    expect(root.items.map((n) => (n.kind === "group" ? n.group : n.kind))).toEqual([
+      "capture",
+      "non_capture",
+      "named",
+      "lookahead",
+      "negative_lookahead",
+      "lookbehind",
+      "negative_lookbehind",
+    ]);
+    const named = root.items[2];
+    expect(named.kind === "group" && named.name).toBe("year");
+  });
+
+  it("should parse classes containing escaped brackets", () => {
+    const root = parsePattern("[^\\]a-z]");
+    if (root.kind !== "sequence") throw new Error("expected sequence");
+    expect(root.items[0]).toMatchObject({ kind: "char_class", negated: true, body: "\\]a-z" });
+  });
+
+  it("should parse assertions, backreferences and escapes", () => {
+    const root = parsePattern("^\\b\\1\\k<x>\\.\\n$");
+    if (root.kind !== "sequence") throw new Error("expected sequence");
+    expect(root.items).toMatchObject([
+      { kind: "assertion", assertion: "start" },
+      { kind: "assertion", assertion: "word_boundary" },
+      { kind: "backreference", ref: "1" },
+      { kind: "backreference", ref: "x" },
+      { kind: "literal", char: "." },
+      { kind: "literal", char: "\n" },
+      { kind: "assertion", assertion: "end" },
+    ]);
+  });
+
+  it("should only read property escapes in unicode mode", () => {
+    const withU = parsePattern("\\p{L}", "u");
+    if (withU.kind !== "sequence") throw new Error("expected sequence");
+    expect(withU.items[0]).toMatchObject({ kind: "class_escape", escape: "p{L}" });
+  });
+
+  it("should throw on unbalanced groups", () => {
+    expect(() => parsePattern("(a")).toThrow(SyntaxError);
+    expect(() => parsePattern("a)")).toThrow(SyntaxError);
+    expect(() => parsePattern("*a")).toThrow(SyntaxError);
+  });
+});
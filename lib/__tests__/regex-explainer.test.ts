@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { describeQuantifier, explainRegex, formatExplanation } from "../regex-explainer";
+import { CRITERION_TYPES, DEFAULT_FLAGS, QUANTIFIERS } from "../constants";
+import { criterion } from "./helpers";
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+
+const texts = (criteria: RegexCriterion[], flags: Partial<RegexFlags> = {}) =>
+  explainRegex(criteria, { ...DEFAULT_FLAGS, ...flags }).map((s) => s.text);
+
+describe("describeQuantifier", () => {
+  it("should describe every quantifier", () => {
+    const phrases = Object.fromEntries(
+      QUANTIFIERS.map((q) => [
+        q.value,
+        describeQuantifier(
+          criterion("digit", "digit", "", { quantifier: q.value, min: 2, max: 4 })
+        ),
+      ])
+    );
+    expect(phrases).toEqual({
+      one: "",
+      zero_or_more: ", zero or more times",
+      one_or_more: ", one or more times",
+      optional: ", optionally",
+      exactly: ", exactly 2 times",
+      at_least: ", at least 2 times",
+      between: ", between 2 and 4 times",
+      lazy: ", zero or more times (as few as possible)",
+      one_or_more_lazy: ", one or more times (as few as possible)",
+      optional_lazy: ", optionally (as few as possible)",
+      at_least_lazy: ", at least 2 times (as few as possible)",
+      between_lazy: ", between 2 and 4 times (as few as possible)",
+    });
+  });
+
+  it("should say once for a count of one", () => {
+    expect(
+      describeQuantifier(criterion("digit", "digit", "", { quantifier: "exactly", min: 1 }))
+    ).toBe(", exactly once");
+  });
+
+  it("should describe nothing for invalid counts and anchors", () => {
+    expect(
+      describeQuantifier(criterion("digit", "digit", "", { quantifier: "between", min: 5, max: 2 }))
+    ).toBe("");
+    expect(
+      describeQuantifier(
+        criterion("word_boundary", "word_boundary", "", { quantifier: "one_or_more" })
+      )
+    ).toBe("");
+  });
+});
+
+describe("explainRegex", () => {
+  it("should return no steps without criteria", () => {
+    expect(explainRegex([], { ...DEFAULT_FLAGS, global: true })).toEqual([]);
+  });
+
+  it("should describe every criterion type", () => {
+    const values: Record<string, string> = {
+      unicode_property: "Letter",
+      not_unicode_property: "Letter",
+      backreference: "1",
+    };
+    for (const { value: type } of CRITERION_TYPES) {
+      const criteria = [criterion("g", "group"), criterion(type, type, values[type] ?? "x")];
+      const steps = explainRegex(criteria, DEFAULT_FLAGS);
+      const step = steps.find((s) => s.criterionId === type);
+      expect(step?.text, type).toMatch(/^[A-Z"].*[.:]$/);
+    }
+  });
+
+  it("should explain a date pattern step by step", () => {
+    const criteria: RegexCriterion[] = [
+      criterion("input_start", "input_start"),
+      criterion("year", "named_group", "year", {
+        children: [criterion("digit", "digit", "", { quantifier: "exactly", min: 4 })],
+      }),
+      criterion("literal", "literal", "-"),
+      criterion("month", "group", "", {
+        children: [criterion("d2", "digit", "", { quantifier: "between", min: 1, max: 2 })],
+      }),
+      criterion("input_end", "input_end"),
+    ];
+    expect(formatExplanation(explainRegex(criteria, DEFAULT_FLAGS))).toBe(
+      [
+        "1. The very start of the text.",
+        '2. Capture group #1 named "year" containing:',
+        "   - A digit (0-9), exactly 4 times.",
+        '3. The literal text "-".',
+        "4. Capture group #2 containing:",
+        "   - A digit (0-9), between 1 and 2 times.",
+        "5. The very end of the text.",
+      ].join("\n")
+    );
+  });
+
+  it("should put a container's quantifier before its colon", () => {
+    const criteria = [
+      criterion("or", "or", "", {
+        quantifier: "one_or_more",
+        children: [criterion("a", "literal", "a"), criterion("b", "literal", "b")],
+      }),
+    ];
+    expect(texts(criteria)).toEqual([
+      "One of these alternatives, one or more times:",
+      'The literal text "a".',
+      'The literal text "b".',
+    ]);
+  });
+
+  it("should follow the flags for anchors and the dot", () => {
+    const criteria = [
+      criterion("line_start", "line_start"),
+      criterion("any_char", "any_char"),
+      criterion("ends_with", "ends_with", "!"),
+    ];
+    expect(texts(criteria)).toEqual([
+      "The start of the text.",
+      "Any character except a line break.",
+      '"!" at the end of the text.',
+    ]);
+    expect(texts(criteria, { multiline: true, dotAll: true })).toEqual([
+      "The start of a line.",
+      "Any character.",
+      '"!" at the end of a line.',
+      "^ and $ match at the start and end of every line (m).",
+      "The dot also matches line breaks (s).",
+    ]);
+  });
+
+  it("should describe lookarounds, backreferences and Unicode properties", () => {
+    const criteria = [
+      criterion("q", "named_group", "q", {
+        children: [criterion("custom_class", "custom_class", "'\"")],
+      }),
+      criterion("negative_lookahead", "negative_lookahead", "x"),
+      criterion("backreference", "backreference", "q"),
+      criterion("unicode_property", "unicode_property", "Script=Greek"),
+    ];
+    expect(texts(criteria)).toEqual([
+      'Capture group #1 named "q" containing:',
+      "One character from ['\"].",
+      'A position not followed by "x".',
+      'The same text group "q" captured.',
+      "A character with the Unicode property Greek (\\p{Script=Greek}).",
+      "Treat the text as Unicode code points (u).",
+    ]);
+  });
+
+  it("should leave out criteria buildRegex leaves out", () => {
+    const criteria = [
+      criterion("digit", "digit"),
+      criterion("unicode_property", "unicode_property"),
+      criterion("backreference", "backreference", "missing"),
+    ];
+    const steps = explainRegex(criteria, DEFAULT_FLAGS);
+    expect(steps.map((s) => s.criterionId)).toEqual(["digit", undefined]);
+  });
+
+  it("should describe every flag", () => {
+    const flags: RegexFlags = {
+      global: true,
+      caseInsensitive: true,
+      multiline: true,
+      dotAll: true,
+      unicode: true,
+      sticky: true,
+      unicodeSets: false,
+      hasIndices: true,
+    };
+    expect(texts([criterion("digit", "digit")], flags)).toEqual([
+      "A digit (0-9).",
+      "Find every match, not just the first (g).",
+      "Ignore upper and lower case (i).",
+      "^ and $ match at the start and end of every line (m).",
+      "The dot also matches line breaks (s).",
+      "Treat the text as Unicode code points (u).",
+      "Only match starting exactly at lastIndex (y).",
+      "Record where each group starts and ends (d).",
+    ]);
+    expect(texts([criterion("digit", "digit")], { unicodeSets: true })).toEqual([
+      "A digit (0-9).",
+      "Treat the text as Unicode code points, with class set operations (v).",
+    ]);
+  });
+});
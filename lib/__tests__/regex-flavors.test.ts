@@ -0,0 +1,280 @@
+import { describe, it, expect } from "vitest";
+import { exportRegex } from "../regex-flavors";
+import { DEFAULT_FLAGS } from "../constants";
+import type { RegexCriterion, RegexFlags, RegexFlavor } from "@/types/regex";
+
+const raw = (value: string, id = "1"): RegexCriterion => ({
+  id,
+  type: "raw",
+  value,
+  quantifier: "one",
+});
+
+const render = (value: string, flavor: RegexFlavor, flags: Partial<RegexFlags> = {}) =>
+  exportRegex([raw(value)], { ...DEFAULT_FLAGS, ...flags }, flavor);
+
+const messages = (value: string, flavor: RegexFlavor, flags: Partial<RegexFlags> = {}) =>
+  render(value, flavor, flags).diagnostics.map((d) => d.message);
+
+describe("exportRegex - JavaScript", () => {
+  it("should return the literal unchanged", () => {
+    expect(render("(?<y>\\d+)", "javascript", { global: true })).toEqual({
+      flavor: "javascript",
+      pattern: "/(?<y>\\d+)/g",
+      diagnostics: [],
+    });
+  });
+
+  it("should return an empty pattern for no criteria", () => {
+    expect(exportRegex([], DEFAULT_FLAGS, "python").pattern).toBe("");
+  });
+});
+
+describe("exportRegex - Named Groups and Backreferences", () => {
+  it("should use (?P<name>) and (?P=name) for Python", () => {
+    expect(render("(?<q>['\"])x\\k<q>", "python").pattern).toBe("(?P<q>['\"])x(?P=q)");
+  });
+
+  it("should use (?P<name>) for Go and (?<name>) elsewhere", () => {
+    expect(render("(?<year>x)", "go").pattern).toBe("(?P<year>x)");
+    expect(render("(?<year>x)", "java").pattern).toBe("(?<year>x)");
+    expect(render("(?<year>x)", "dotnet").pattern).toBe("(?<year>x)");
+  });
+
+  it("should keep numeric backreferences", () => {
+    expect(render("(a)\\1", "python").pattern).toBe("(a)\\1");
+    expect(render("(a)\\1", "pcre").pattern).toBe("/(a)\\1/");
+  });
+
+  it("should report backreferences in Go", () => {
+    const result = render("(a)\\1", "go");
+    expect(result.diagnostics).toEqual([
+      { severity: "error", message: "Go (RE2) does not support backreferences" },
+    ]);
+  });
+
+  it("should report group names Java cannot use", () => {
+    expect(messages("(?<first_name>x)", "java")).toEqual([
+      '"first_name" is not a valid group name in Java',
+    ]);
+    expect(messages("(?<first_name>x)", "python")).toEqual([]);
+  });
+
+  it("should warn that .NET numbers named groups after unnamed ones", () => {
+    expect(messages("(?<a>x)(y)", "dotnet")).toEqual([
+      ".NET numbers named groups after all unnamed ones, so \\1, $1 and group numbers may refer to a different group",
+    ]);
+    expect(messages("(?<a>x)(?<b>y)", "dotnet")).toEqual([]);
+  });
+
+  it("should report Ruby's numbering of mixed named and unnamed groups", () => {
+    expect(messages("(?<a>x)(y)\\2", "ruby")).toEqual([
+      "Ruby does not allow numbered backreferences in a pattern with named groups",
+      "Ruby doesn't capture unnamed groups in a pattern with named groups, so $1 and numbered groups shift",
+    ]);
+    expect(messages("(x)(y)\\2", "ruby")).toEqual([]);
+  });
+});
+
+describe("exportRegex - Lookaround", () => {
+  it("should report lookahead and lookbehind in Go", () => {
+    expect(messages("(?=a)(?<!b)c", "go")).toEqual([
+      "Go (RE2) does not support lookahead",
+      "Go (RE2) does not support lookbehind",
+    ]);
+  });
+
+  it("should require fixed-width lookbehind in Python", () => {
+    expect(messages("(?<=ab)c", "python")).toEqual([]);
+    expect(messages("(?<=a+)c", "python")).toEqual([
+      "Python lookbehind must match a fixed number of characters",
+    ]);
+    expect(messages("(?<=a|bc)d", "python")).toHaveLength(1);
+  });
+
+  it("should allow fixed-width alternatives in PCRE lookbehind", () => {
+    expect(messages("(?<=a|bc)d", "pcre")).toEqual([]);
+    expect(messages("(?<=a?b)d", "pcre")).toEqual([
+      "PCRE (PHP) lookbehind alternatives must each match a fixed number of characters",
+    ]);
+  });
+
+  it("should allow bounded lookbehind in Java and any lookbehind in .NET", () => {
+    expect(messages("(?<=a{1,3})d", "java")).toEqual([]);
+    expect(messages("(?<=a*)d", "java")).toEqual([
+      "Java lookbehind must have a bounded maximum length",
+    ]);
+    expect(messages("(?<=a*)d", "dotnet")).toEqual([]);
+  });
+});
+
+describe("exportRegex - Anchors", () => {
+  it("should write $ without m as an absolute end anchor", () => {
+    expect(render("^a$", "python").pattern).toBe("^a\\Z");
+    expect(render("^a$", "java").pattern).toBe("^a\\z");
+    expect(render("^a$", "go").pattern).toBe("^a$");
+  });
+
+  it("should keep $ under m and turn input-anchor lookarounds into \\A and \\z", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "input_start", value: "", quantifier: "one" },
+      { id: "2", type: "line_end", value: "", quantifier: "one" },
+      { id: "3", type: "input_end", value: "", quantifier: "one" },
+    ];
+    const flags = { ...DEFAULT_FLAGS, multiline: true };
+    expect(exportRegex(criteria, flags, "java").pattern).toBe("(?m)\\A$\\z");
+    expect(exportRegex(criteria, flags, "python").pattern).toBe("(?m)\\A$\\Z");
+    expect(exportRegex(criteria, flags, "go").diagnostics).toEqual([]);
+  });
+
+  it("should prefix \\G for sticky matching where supported", () => {
+    expect(render("a|b", "java", { sticky: true }).pattern).toBe("\\G(?:a|b)");
+    expect(render("a", "pcre", { sticky: true }).pattern).toBe("/\\Ga/");
+    expect(messages("a", "go", { sticky: true })).toHaveLength(1);
+  });
+});
+
+describe("exportRegex - Flags", () => {
+  it("should write i, m and s as inline modifiers", () => {
+    const flags = { caseInsensitive: true, multiline: true, dotAll: true };
+    expect(render("a.", "go", flags).pattern).toBe("(?ims)a.");
+    expect(render("a.", "pcre", flags).pattern).toBe("/a./ims");
+  });
+
+  it("should add re.ASCII in Python when shorthand classes are used", () => {
+    expect(render("\\d+\\b", "python").pattern).toBe("(?a)\\d+\\b");
+    expect(render("[\\w-]", "python", { caseInsensitive: true }).pattern).toBe("(?ai)[\\w-]");
+    expect(render("abc", "python").pattern).toBe("abc");
+  });
+
+  it("should add UNICODE_CASE in Java for case-insensitive Unicode patterns", () => {
+    expect(render("é", "java", { caseInsensitive: true, unicode: true }).pattern).toBe("(?iu)é");
+  });
+
+  it("should point the g flag at the find-all API", () => {
+    expect(render("a", "python", { global: true }).diagnostics).toEqual([
+      {
+        severity: "warning",
+        message: "Global (g) is not a pattern flag in Python; use re.findall() or re.finditer()",
+      },
+    ]);
+    expect(messages("a", "dotnet", { global: true })[0]).toContain("Regex.Matches()");
+  });
+
+  it("should warn that .NET shorthand classes are Unicode-aware", () => {
+    expect(messages("\\w+", "dotnet")).toHaveLength(1);
+  });
+});
+
+describe("exportRegex - Escapes", () => {
+  it("should rewrite JavaScript code point escapes per flavor", () => {
+    expect(render("\\u00e9", "go").pattern).toBe("\\x{E9}");
+    expect(render("\\u00e9", "python").pattern).toBe("\\xE9");
+    expect(render("\\u{1F600}", "python", { unicode: true }).pattern).toBe("\\U0001F600");
+    expect(render("\\u{1F600}", "dotnet", { unicode: true }).pattern).toBe("\\uD83D\\uDE00");
+    expect(render("[\\u0041-\\u005A]", "java").pattern).toBe("[\\x{41}-\\x{5A}]");
+  });
+
+  it("should drop JavaScript identity escapes of letters", () => {
+    expect(render("\\a", "python").pattern).toBe("a");
+  });
+
+  it("should escape / for PCRE delimiters and [ inside classes", () => {
+    expect(render("a/b[/[]", "pcre").pattern).toBe("/a\\/b[\\/\\[]/");
+    expect(render("[[]", "java").pattern).toBe("[\\[]");
+  });
+
+  it("should escape & in classes, where && is an intersection elsewhere", () => {
+    expect(render("[a&&b]", "java").pattern).toBe("[a\\&\\&b]");
+    expect(render("[\\w&&\\d]", "ruby").pattern).toBe("/[\\w\\&\\&\\d]/");
+    expect(render("[a&&b]", "pcre").pattern).toBe("/[a\\&\\&b]/");
+    expect(render("[a&&b]", "python").pattern).toBe("[a\\&\\&b]");
+    expect(render("a&&b", "java").pattern).toBe("a&&b");
+  });
+
+  it("should report class set operations", () => {
+    expect(messages("[\\w--\\d]", "java", { unicodeSets: true })).toEqual([
+      "Class set operations (v flag) have no Java equivalent",
+    ]);
+  });
+
+  it("should rewrite [^] and report [], which only JavaScript reads as empty classes", () => {
+    const result = render("[^]a[]", "pcre");
+    expect(result.pattern).toBe("/[\\s\\S]a[]/");
+    expect(result.diagnostics).toEqual([
+      {
+        severity: "warning",
+        message: "[^] is JavaScript-only; it was exported as [\\s\\S] (any character)",
+      },
+      {
+        severity: "error",
+        message: "[] (matches nothing) is JavaScript-only; PCRE (PHP) reads ] as a class member",
+      },
+    ]);
+  });
+
+  it("should report Go repeat counts above 1000", () => {
+    expect(messages("a{2000}", "go")).toEqual([
+      "Go (RE2) allows at most 1000 repetitions in {n,m}",
+    ]);
+  });
+});
+
+describe("exportRegex - Ruby and Rust", () => {
+  it("should write Ruby patterns as literals with absolute anchors", () => {
+    expect(render("^a/b#{x}$", "ruby").pattern).toBe("/\\Aa\\/b\\#{x}\\z/");
+    expect(render("^a.$", "ruby", { multiline: true, dotAll: true }).pattern).toBe("/^a.$/m");
+    expect(render("\\u00e9", "ruby").pattern).toBe("/\\u{E9}/");
+  });
+
+  it("should treat Rust like RE2", () => {
+    expect(render("(?<year>x)^$", "rust").pattern).toBe("(?P<year>x)^$");
+    expect(messages("(a)\\1(?=b)", "rust")).toEqual([
+      "Rust does not support backreferences",
+      "Rust does not support lookahead",
+    ]);
+    expect(messages("\\d", "rust")[0]).toContain("(?-u)");
+  });
+});
+
+describe("exportRegex - Unicode Properties", () => {
+  const property = (value: string, type = "unicode_property"): RegexCriterion[] => [
+    { id: "1", type, value, quantifier: "one" },
+  ];
+  const exportProperty = (value: string, flavor: RegexFlavor, type?: string) =>
+    exportRegex(property(value, type), DEFAULT_FLAGS, flavor);
+
+  it("should shorten general categories", () => {
+    expect(exportProperty("Letter", "go").pattern).toBe("\\p{L}");
+    expect(exportProperty("Uppercase_Letter", "java", "not_unicode_property").pattern).toBe(
+      "\\P{Lu}"
+    );
+    expect(exportProperty("Decimal_Number", "pcre").pattern).toBe("/\\p{Nd}/u");
+  });
+
+  it("should translate scripts", () => {
+    expect(exportProperty("Script=Greek", "go").pattern).toBe("\\p{Greek}");
+    expect(exportProperty("Script=Greek", "java").pattern).toBe("\\p{IsGreek}");
+    const dotnet = exportProperty("Script=Han", "dotnet");
+    expect(dotnet.pattern).toBe("\\p{IsCJKUnifiedIdeographs}");
+    expect(dotnet.diagnostics[0].severity).toBe("warning");
+  });
+
+  it("should report binary properties the flavor lacks", () => {
+    expect(exportProperty("Emoji", "go").diagnostics).toEqual([
+      { severity: "error", message: "Go (RE2) does not support the Emoji property (\\p{Emoji})" },
+    ]);
+    expect(exportProperty("Alphabetic", "java").pattern).toBe("\\p{IsAlphabetic}");
+    expect(exportProperty("Emoji", "pcre").diagnostics[0].severity).toBe("warning");
+  });
+
+  it("should report \\p in Python", () => {
+    const result = exportProperty("Letter", "python");
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].message).toContain("regex module");
+  });
+
+  it("should not repeat the same diagnostic", () => {
+    expect(messages("(a)\\1\\1", "go")).toHaveLength(1);
+  });
+});
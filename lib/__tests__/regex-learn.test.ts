@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { learnCriteria } from "../regex-learn";
+import { buildRegex, testRegexSafe } from "../regex-utils";
+import { CRITERION_TYPES, DEFAULT_FLAGS } from "../constants";
+
+const learn = (positives: string[], negatives: string[]) => {
+  const learned = learnCriteria(positives, negatives, DEFAULT_FLAGS);
+  return { ...learned, regex: buildRegex(learned.criteria, DEFAULT_FLAGS) };
+};
+
+describe("learnCriteria", () => {
+  it.each([
+    [
+      ["INV-001", "INV-042"],
+      ["INV-1", "ABC-001"],
+    ],
+    [
+      ["2024-05-01", "1999-12-31"],
+      ["2024/05/01", "24-05-01"],
+    ],
+    [
+      ["cat", "dog"],
+      ["Cat", "c4t"],
+    ],
+    [
+      ["A1", "B2", "C3"],
+      ["1A", "AA"],
+    ],
+  ])("should fit %j and reject %j", (positives, negatives) => {
+    const { regex, error } = learn(positives, negatives);
+    expect(error).toBeUndefined();
+    positives.forEach((p) => expect(testRegexSafe(regex, p).matches).toBe(true));
+    negatives.forEach((n) => expect(testRegexSafe(regex, n).matches).toBe(false));
+  });
+
+  it("should prefer the simplest pattern", () => {
+    expect(learn(["cat", "dog"], ["Cat"]).regex).toBe("/^[a-z]+$/");
+    expect(learn(["INV-001", "INV-042"], ["INV-1", "ABC-001"]).regex).toBe("/^(?:INV)-\\d{3}$/");
+  });
+
+  it("should anchor the pattern and use only builder criterion types", () => {
+    const { criteria } = learn(["(555) 123-4567"], ["555-123-4567", "(555)123-4567"]);
+    const types = criteria.map((c) => c.type);
+    expect(types[0]).toBe("input_start");
+    expect(types[types.length - 1]).toBe("input_end");
+    types.forEach((t) => expect(CRITERION_TYPES.map((ct) => ct.value)).toContain(t));
+  });
+
+  it("should report when no consistent pattern exists", () => {
+    expect(learn(["12", "ab"], ["1a"]).error).toMatch(/No pattern/);
+    expect(learn(["abc"], ["abc"]).error).toBe('"abc" is listed as both matching and not matching');
+    expect(learn([], ["x"]).error).toBe("Add at least one string that should match");
+    expect(learn(["x"], []).criteria.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { groupDiagnostics, lintCriteria } from "../regex-lint";
+import { REGEX_PRESETS, presetCriteria } from "../presets";
+import { parseRegex } from "../regex-parser";
+import { DEFAULT_FLAGS } from "../constants";
+import { criterion } from "./helpers";
+import type { RegexCriterion } from "@/types/regex";
+
+const rules = (criteria: RegexCriterion[], flags = DEFAULT_FLAGS) =>
+  lintCriteria(criteria, flags).map((d) => [d.criterionId, d.rule, d.severity]);
+
+describe("lintCriteria", () => {
+  it("should flag empty values that add nothing to the pattern", () => {
+    expect(
+      rules([criterion("a", "contains"), criterion("b", "custom_class"), criterion("c", "digit")])
+    ).toEqual([
+      ["a", "empty-value", "error"],
+      ["b", "empty-value", "error"],
+    ]);
+    expect(rules([criterion("a", "sequence", "", { children: [] })])).toEqual([
+      ["a", "empty-value", "error"],
+    ]);
+    expect(
+      rules([criterion("a", "or", "", { children: [criterion("b", "literal", "x")] })])
+    ).toEqual([]);
+  });
+
+  it("should flag empty alternatives in a text or", () => {
+    expect(rules([criterion("a", "or", "cat,,dog")])).toEqual([
+      ["a", "empty-alternative", "error"],
+    ]);
+    expect(lintCriteria([criterion("a", "or", "cat, ")], DEFAULT_FLAGS)[0].message).toMatch(
+      /^Alternative 2 is empty/
+    );
+    expect(rules([criterion("a", "or", "cat, dog")])).toEqual([]);
+  });
+
+  it("should flag Starts with and Ends with away from the ends of the pattern", () => {
+    expect(rules([criterion("a", "contains", "x"), criterion("b", "starts_with", "y")])).toEqual([
+      ["b", "misplaced-anchor", "error"],
+    ]);
+    expect(rules([criterion("a", "ends_with", "x"), criterion("b", "digit")])).toEqual([
+      ["a", "misplaced-anchor", "error"],
+    ]);
+    expect(
+      rules([criterion("a", "contains", "x"), criterion("b", "starts_with", "y")], {
+        ...DEFAULT_FLAGS,
+        multiline: true,
+      })
+    ).toEqual([["b", "misplaced-anchor", "warning"]]);
+    // Zero-width criteria and "or" branches don't count as coming before or after
+    expect(rules([criterion("a", "word_boundary"), criterion("b", "starts_with", "y")])).toEqual(
+      []
+    );
+    expect(
+      rules([
+        criterion("a", "or", "", {
+          children: [criterion("b", "literal", "x"), criterion("c", "starts_with", "y")],
+        }),
+      ])
+    ).toEqual([]);
+  });
+
+  it("should flag Exact match combined with other criteria", () => {
+    expect(rules([criterion("a", "exact", "x"), criterion("b", "digit")])).toEqual([
+      ["a", "exact-with-others", "error"],
+    ]);
+    expect(rules([criterion("a", "exact", "x")])).toEqual([]);
+  });
+
+  it("should include quantifier, group reference and line anchor checks in tree order", () => {
+    const criteria = [
+      criterion("a", "line_start"),
+      criterion("b", "group", "", {
+        children: [criterion("c", "digit", "", { quantifier: "between", min: 3, max: 1 })],
+      }),
+      criterion("d", "backreference", "9"),
+    ];
+    expect(rules(criteria)).toEqual([
+      ["a", "line-anchor", "warning"],
+      ["c", "quantifier", "error"],
+      ["d", "group-reference", "error"],
+    ]);
+  });
+
+  it("should find nothing wrong with presets or imported patterns", () => {
+    REGEX_PRESETS.forEach((p) => expect(rules(presetCriteria(p, true), p.flags)).toEqual([]));
+    const parsed = parseRegex("/^(?<year>\\d{4})-(cat|dog)\\b[^\\s]+$/");
+    expect(rules(parsed.criteria, parsed.flags)).toEqual([]);
+  });
+});
+
+describe("groupDiagnostics", () => {
+  it("should key diagnostics by criterion id", () => {
+    const grouped = groupDiagnostics(
+      lintCriteria([criterion("a", "exact"), criterion("b", "contains", "x")], DEFAULT_FLAGS)
+    );
+    expect(Object.keys(grouped)).toEqual(["a"]);
+    expect(grouped.a.map((d) => d.rule)).toEqual(["empty-value", "exact-with-others"]);
+  });
+});
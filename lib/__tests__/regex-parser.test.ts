@@ -0,0 +1,555 @@
+import { describe, it, expect } from "vitest";
+import { parseEditedRegex, parseRegex } from "../regex-parser";
+import { buildRegex } from "../regex-utils";
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+
+const defaultFlags: RegexFlags = {
+  global: false,
+  caseInsensitive: false,
+  multiline: false,
+  dotAll: false,
+  unicode: false,
+  sticky: false,
+  unicodeSets: false,
+  hasIndices: false,
+};
+
+type CriterionShape = Omit<RegexCriterion, "id" | "children"> & { children?: CriterionShape[] };
+
+/**
+ * Strips generated ids so criteria can be compared structurally
+ */
+function shape(criteria: RegexCriterion[]): CriterionShape[] {
+  return criteria.map(({ id: _id, children, ...rest }) =>
+    children ? { ...rest, children: shape(children) } : rest
+  );
+}
+
+describe("parseRegex - Criteria", () => {
+  it("should import starts_with followed by a grouped literal", () => {
+    const result = parseRegex("/^AAA(?:BBB)/");
+    expect(result.error).toBeUndefined();
+    expect(shape(result.criteria)).toEqual([
+      { type: "starts_with", value: "AAA", quantifier: "one" },
+      { type: "literal", value: "BBB", quantifier: "one" },
+    ]);
+  });
+
+  it("should import exact matches", () => {
+    const result = parseRegex("/^a\\.b$/");
+    expect(shape(result.criteria)).toEqual([{ type: "exact", value: "a.b", quantifier: "one" }]);
+  });
+
+  it("should import ends_with from a trailing literal and anchor", () => {
+    const result = parseRegex("/\\d(?:BBB)$/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "digit", value: "", quantifier: "one" },
+      { type: "ends_with", value: "BBB", quantifier: "one" },
+    ]);
+  });
+
+  it("should import shorthand classes and quantifiers", () => {
+    const result = parseRegex("/\\d+\\w*\\s?.*?/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "digit", value: "", quantifier: "one_or_more" },
+      { type: "word_char", value: "", quantifier: "zero_or_more" },
+      { type: "whitespace", value: "", quantifier: "optional" },
+      { type: "any_char", value: "", quantifier: "lazy" },
+    ]);
+  });
+
+  it("should import character classes", () => {
+    const result = parseRegex("/[A-Z][a-z][0-9_][^xyz]/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "letter_upper", value: "", quantifier: "one" },
+      { type: "letter_lower", value: "", quantifier: "one" },
+      { type: "custom_class", value: "0-9_", quantifier: "one" },
+      { type: "not", value: "xyz", quantifier: "one" },
+    ]);
+  });
+
+  it("should import alternations of literals as or", () => {
+    const result = parseRegex("/(?:cat|dog)+/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "or", value: "cat,dog", quantifier: "one_or_more" },
+    ]);
+  });
+
+  it("should import capturing groups as nested criteria", () => {
+    const result = parseRegex("/(a|\\d+-)?/");
+    expect(shape(result.criteria)).toEqual([
+      {
+        type: "group",
+        value: "",
+        quantifier: "optional",
+        children: [
+          {
+            type: "or",
+            value: "",
+            quantifier: "one",
+            children: [
+              { type: "literal", value: "a", quantifier: "one" },
+              {
+                type: "sequence",
+                value: "",
+                quantifier: "one",
+                children: [
+                  { type: "digit", value: "", quantifier: "one_or_more" },
+                  { type: "literal", value: "-", quantifier: "one" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should import non-capturing groups of non-literals as sequences", () => {
+    const result = parseRegex("/(?:\\d+-)+/");
+    expect(shape(result.criteria)).toEqual([
+      {
+        type: "sequence",
+        value: "",
+        quantifier: "one_or_more",
+        children: [
+          { type: "digit", value: "", quantifier: "one_or_more" },
+          { type: "literal", value: "-", quantifier: "one" },
+        ],
+      },
+    ]);
+  });
+
+  it("should import counted and lazy quantifiers", () => {
+    const result = parseRegex("/\\d{3}[a-z]{2,}?x{1,4}y+?z??/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "digit", value: "", quantifier: "exactly", min: 3 },
+      { type: "letter_lower", value: "", quantifier: "at_least_lazy", min: 2 },
+      { type: "literal", value: "x", quantifier: "between", min: 1, max: 4 },
+      { type: "literal", value: "y", quantifier: "one_or_more_lazy" },
+      { type: "literal", value: "z", quantifier: "optional_lazy" },
+    ]);
+  });
+
+  it("should import lookarounds as text or nested criteria", () => {
+    const result = parseRegex("/(?<=\\$)\\d(?!\\d|x)/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "lookbehind", value: "$", quantifier: "one" },
+      { type: "digit", value: "", quantifier: "one" },
+      {
+        type: "negative_lookahead",
+        value: "",
+        quantifier: "one",
+        children: [
+          {
+            type: "or",
+            value: "",
+            quantifier: "one",
+            children: [
+              { type: "digit", value: "", quantifier: "one" },
+              { type: "literal", value: "x", quantifier: "one" },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should import named groups and backreferences", () => {
+    const result = parseRegex("/(?<q>['\"])\\w+\\k<q>(a)\\2+/");
+    expect(shape(result.criteria)).toEqual([
+      {
+        type: "named_group",
+        value: "q",
+        quantifier: "one",
+        children: [{ type: "custom_class", value: "'\"", quantifier: "one" }],
+      },
+      { type: "word_char", value: "", quantifier: "one_or_more" },
+      { type: "backreference", value: "q", quantifier: "one" },
+      {
+        type: "group",
+        value: "",
+        quantifier: "one",
+        children: [{ type: "literal", value: "a", quantifier: "one" }],
+      },
+      { type: "backreference", value: "2", quantifier: "one_or_more" },
+    ]);
+  });
+
+  it("should import Unicode group names", () => {
+    const result = parseRegex("/(?<año>\\d{4})\\k<año>/");
+    expect(shape(result.criteria).map((c) => [c.type, c.value])).toEqual([
+      ["named_group", "año"],
+      ["backreference", "año"],
+    ]);
+    expect(result.warnings).toEqual([]);
+    expect(buildRegex(result.criteria, result.flags)).toBe("/(?<año>\\d{4})\\k<año>/");
+  });
+
+  it("should keep forward references verbatim and warn about them", () => {
+    const result = parseRegex("/\\k<n>+(?<n>a)\\3(b)(c)/");
+    expect(shape(result.criteria).map((c) => [c.type, c.value])).toEqual([
+      ["raw", "\\k<n>+"],
+      ["named_group", "n"],
+      ["raw", "\\3"],
+      ["group", ""],
+      ["group", ""],
+    ]);
+    expect(result.warnings).toEqual([
+      'No earlier group "n" to refer back to, so "\\k<n>+" was kept as a raw fragment',
+      'No earlier group "3" to refer back to, so "\\3" was kept as a raw fragment',
+    ]);
+    expect(buildRegex(result.criteria, result.flags)).toBe("/\\k<n>+(?<n>a)\\3(b)(c)/");
+  });
+
+  it("should import standalone anchors using the m flag to tell lines from input", () => {
+    expect(shape(parseRegex("/\\b^\\d+$/m").criteria)).toEqual([
+      { type: "word_boundary", value: "", quantifier: "one" },
+      { type: "line_start", value: "", quantifier: "one" },
+      { type: "digit", value: "", quantifier: "one_or_more" },
+      { type: "line_end", value: "", quantifier: "one" },
+    ]);
+    expect(shape(parseRegex("/^\\d+$/").criteria)).toEqual([
+      { type: "input_start", value: "", quantifier: "one" },
+      { type: "digit", value: "", quantifier: "one_or_more" },
+      { type: "input_end", value: "", quantifier: "one" },
+    ]);
+  });
+
+  it("should import Unicode property escapes in Unicode mode", () => {
+    const result = parseRegex("/\\p{Lu}\\P{Script=Greek}+/u");
+    expect(shape(result.criteria)).toEqual([
+      { type: "unicode_property", value: "Lu", quantifier: "one" },
+      { type: "not_unicode_property", value: "Script=Greek", quantifier: "one_or_more" },
+    ]);
+    expect(result.flags.unicode).toBe(true);
+  });
+
+  it("should fall back to raw fragments for unsupported constructs", () => {
+    const result = parseRegex("/\\Bfoo\\D{2}?(?=x)*/");
+    expect(shape(result.criteria)).toEqual([
+      { type: "non_word_boundary", value: "", quantifier: "one" },
+      { type: "literal", value: "foo", quantifier: "one" },
+      { type: "raw", value: "\\D{2}?", quantifier: "one" },
+      { type: "raw", value: "(?=x)*", quantifier: "one" },
+    ]);
+  });
+
+  it("should import a top-level alternation of non-literals as or branches", () => {
+    const result = parseRegex("/\\d+|x/");
+    expect(shape(result.criteria)).toEqual([
+      {
+        type: "or",
+        value: "",
+        quantifier: "one",
+        children: [
+          { type: "digit", value: "", quantifier: "one_or_more" },
+          { type: "literal", value: "x", quantifier: "one" },
+        ],
+      },
+    ]);
+    expect(buildRegex(result.criteria, result.flags)).toBe("/(?:\\d+|x)/");
+  });
+
+  it("should accept a bare pattern without slashes", () => {
+    const result = parseRegex("abc");
+    expect(shape(result.criteria)).toEqual([{ type: "literal", value: "abc", quantifier: "one" }]);
+  });
+});
+
+describe("parseRegex - Flags and Errors", () => {
+  it("should import supported flags", () => {
+    const result = parseRegex("/test/gims");
+    expect(result.flags).toEqual({
+      global: true,
+      caseInsensitive: true,
+      multiline: true,
+      dotAll: true,
+      unicode: false,
+      sticky: false,
+      unicodeSets: false,
+      hasIndices: false,
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should import unicode, sticky and indices flags", () => {
+    const result = parseRegex("/test/dgvy");
+    expect(result.flags).toEqual({
+      ...defaultFlags,
+      global: true,
+      unicodeSets: true,
+      sticky: true,
+      hasIndices: true,
+    });
+    expect(result.warnings).toEqual([]);
+    expect(parseRegex("/\\u{1F600}/u").flags.unicode).toBe(true);
+  });
+
+  it("should report invalid patterns", () => {
+    expect(parseRegex("/(abc/").error).toBeDefined();
+    expect(parseRegex("/abc/q").error).toBe('Invalid flags "q"');
+    expect(parseRegex("//").error).toBe("Pattern is empty");
+    expect(parseRegex("/abc").error).toBe("Missing closing slash in regex literal");
+  });
+});
+
+describe("parseRegex - Round Trip", () => {
+  const cases: Array<[string, RegexCriterion[], RegexFlags]> = [
+    [
+      "starts_with + contains + ends_with",
+      [
+        { id: "1", type: "starts_with", value: "AAA", quantifier: "one" },
+        { id: "2", type: "contains", value: "BBB", quantifier: "one" },
+        { id: "3", type: "ends_with", value: "CCC", quantifier: "one" },
+      ],
+      defaultFlags,
+    ],
+    [
+      "exact",
+      [{ id: "1", type: "exact", value: "a+b", quantifier: "one" }],
+      { ...defaultFlags, caseInsensitive: true },
+    ],
+    [
+      "quantified literals",
+      [
+        { id: "1", type: "contains", value: "abc", quantifier: "one_or_more" },
+        { id: "2", type: "digit", value: "", quantifier: "one" },
+        { id: "3", type: "literal", value: "XX", quantifier: "optional" },
+        { id: "4", type: "contains", value: "YY", quantifier: "lazy" },
+      ],
+      { ...defaultFlags, global: true },
+    ],
+    [
+      "classes and groups",
+      [
+        { id: "1", type: "letter_upper", value: "", quantifier: "one" },
+        { id: "2", type: "letter_lower", value: "", quantifier: "zero_or_more" },
+        { id: "3", type: "custom_class", value: "a-z0-9", quantifier: "one" },
+        { id: "4", type: "not", value: "\\s", quantifier: "one_or_more" },
+        { id: "5", type: "group", value: "x|y", quantifier: "optional" },
+        { id: "6", type: "or", value: "red, green, blue", quantifier: "one" },
+      ],
+      defaultFlags,
+    ],
+    [
+      "single characters and escapes",
+      [
+        { id: "1", type: "starts_with", value: "A", quantifier: "one" },
+        { id: "2", type: "contains", value: "b", quantifier: "one_or_more" },
+        { id: "3", type: "contains", value: "B.C", quantifier: "one" },
+        { id: "4", type: "any_char", value: "", quantifier: "one" },
+        { id: "5", type: "whitespace", value: "", quantifier: "one" },
+        { id: "6", type: "word_char", value: "", quantifier: "one" },
+      ],
+      { ...defaultFlags, multiline: true, dotAll: true },
+    ],
+    [
+      "nested groups",
+      [
+        {
+          id: "1",
+          type: "group",
+          value: "",
+          quantifier: "one_or_more",
+          children: [
+            { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+            { id: "3", type: "literal", value: "-", quantifier: "one" },
+          ],
+        },
+        {
+          id: "4",
+          type: "or",
+          value: "",
+          quantifier: "optional",
+          children: [
+            { id: "5", type: "literal", value: "ab", quantifier: "one" },
+            {
+              id: "6",
+              type: "sequence",
+              value: "",
+              quantifier: "one",
+              children: [
+                { id: "7", type: "letter_upper", value: "", quantifier: "one" },
+                { id: "8", type: "digit", value: "", quantifier: "zero_or_more" },
+              ],
+            },
+          ],
+        },
+      ],
+      defaultFlags,
+    ],
+    [
+      "counted quantifiers",
+      [
+        { id: "1", type: "digit", value: "", quantifier: "exactly", min: 3 },
+        { id: "2", type: "literal", value: "-", quantifier: "optional_lazy" },
+        { id: "3", type: "contains", value: "ab", quantifier: "between_lazy", min: 2, max: 4 },
+        { id: "4", type: "word_char", value: "", quantifier: "at_least", min: 0 },
+      ],
+      defaultFlags,
+    ],
+    [
+      "lookarounds",
+      [
+        { id: "1", type: "negative_lookbehind", value: "-", quantifier: "one" },
+        { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+        {
+          id: "3",
+          type: "lookahead",
+          value: "",
+          quantifier: "one",
+          children: [
+            { id: "4", type: "whitespace", value: "", quantifier: "zero_or_more" },
+            { id: "5", type: "literal", value: "px", quantifier: "one" },
+          ],
+        },
+      ],
+      defaultFlags,
+    ],
+    [
+      "legacy group value",
+      [{ id: "1", type: "group", value: "x|y", quantifier: "one" }],
+      defaultFlags,
+    ],
+    [
+      "named groups and backreferences",
+      [
+        {
+          id: "1",
+          type: "named_group",
+          value: "tag",
+          quantifier: "one",
+          children: [{ id: "2", type: "word_char", value: "", quantifier: "one_or_more" }],
+        },
+        { id: "3", type: "literal", value: "=", quantifier: "one" },
+        { id: "4", type: "backreference", value: "tag", quantifier: "optional" },
+        { id: "5", type: "backreference", value: "1", quantifier: "one" },
+        { id: "6", type: "digit", value: "", quantifier: "one" },
+      ],
+      defaultFlags,
+    ],
+    [
+      "anchors",
+      [
+        { id: "1", type: "input_start", value: "", quantifier: "one" },
+        { id: "2", type: "line_start", value: "", quantifier: "one" },
+        { id: "3", type: "word_boundary", value: "", quantifier: "one" },
+        { id: "4", type: "word_char", value: "", quantifier: "one_or_more" },
+        { id: "5", type: "non_word_boundary", value: "", quantifier: "one" },
+        { id: "6", type: "line_end", value: "", quantifier: "one" },
+        { id: "7", type: "input_end", value: "", quantifier: "one" },
+      ],
+      { ...defaultFlags, multiline: true },
+    ],
+    [
+      "unicode, sticky and indices flags",
+      [{ id: "1", type: "literal", value: "é", quantifier: "one_or_more" }],
+      { ...defaultFlags, unicode: true, sticky: true, hasIndices: true },
+    ],
+    [
+      "unicode properties",
+      [
+        { id: "1", type: "unicode_property", value: "Uppercase_Letter", quantifier: "one" },
+        { id: "2", type: "not_unicode_property", value: "Emoji", quantifier: "zero_or_more" },
+      ],
+      { ...defaultFlags, unicode: true },
+    ],
+    [
+      "raw fragments",
+      [
+        { id: "1", type: "raw", value: "\\b", quantifier: "one" },
+        { id: "2", type: "contains", value: "foo", quantifier: "one" },
+        { id: "3", type: "raw", value: "\\D{3}?", quantifier: "one" },
+      ],
+      defaultFlags,
+    ],
+  ];
+
+  it.each(cases)("should rebuild the same pattern for %s", (_name, criteria, flags) => {
+    const regex = buildRegex(criteria, flags);
+    const parsed = parseRegex(regex);
+    expect(parsed.error).toBeUndefined();
+    expect(parsed.flags).toEqual(flags);
+    expect(buildRegex(parsed.criteria, parsed.flags)).toBe(regex);
+  });
+});
+
+describe("parseEditedRegex", () => {
+  it("should read valid text like parseRegex", () => {
+    const text = "/^(?<year>\\d{4})-(cat|dog)$/gi";
+    const edited = parseEditedRegex(text);
+    expect(shape(edited.criteria)).toEqual(shape(parseRegex(text).criteria));
+    expect(edited.flags).toEqual(parseRegex(text).flags);
+    expect(buildRegex(edited.criteria, edited.flags)).toBe(text);
+  });
+
+  it("should keep the unparseable rest of the pattern as a raw fragment", () => {
+    expect(shape(parseEditedRegex("/ab(c\\d/").criteria)).toEqual([
+      { type: "literal", value: "ab", quantifier: "one" },
+      { type: "raw", value: "(c\\d", quantifier: "one" },
+    ]);
+    expect(shape(parseEditedRegex("a)b").criteria)).toEqual([
+      { type: "literal", value: "a", quantifier: "one" },
+      { type: "raw", value: ")b", quantifier: "one" },
+    ]);
+    // A prefix with a top-level | would regroup the text after it, so "a|b" isn't taken as an or
+    expect(shape(parseEditedRegex("a|b(").criteria)).toEqual([
+      { type: "literal", value: "a", quantifier: "one" },
+      { type: "raw", value: "|b(", quantifier: "one" },
+    ]);
+  });
+
+  it("should cut back to the last term that compiles", () => {
+    expect(shape(parseEditedRegex("/ab[z-a]c/").criteria)).toEqual([
+      { type: "literal", value: "ab", quantifier: "one" },
+      { type: "raw", value: "[z-a]c", quantifier: "one" },
+    ]);
+    expect(shape(parseEditedRegex("/(a(b/").criteria)).toEqual([
+      { type: "raw", value: "(a(b", quantifier: "one" },
+    ]);
+  });
+
+  it("should find the cut without trying every prefix of a long pattern", () => {
+    const text = `/a(${"b".repeat(20000)}/`;
+    const start = Date.now();
+    const edited = parseEditedRegex(text);
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(shape(edited.criteria)).toEqual([
+      { type: "literal", value: "a", quantifier: "one" },
+      { type: "raw", value: `(${"b".repeat(20000)}`, quantifier: "one" },
+    ]);
+  });
+
+  it("should rebuild the typed text when part of it is raw", () => {
+    ["/ab(c/", "/x[z-a]+y/g", "/^a{2}(?<n/"].forEach((text) => {
+      const edited = parseEditedRegex(text);
+      expect(buildRegex(edited.criteria, edited.flags)).toBe(text);
+    });
+  });
+
+  it("should accept text that is still being typed", () => {
+    expect(shape(parseEditedRegex("/abc").criteria)).toEqual([
+      { type: "literal", value: "abc", quantifier: "one" },
+    ]);
+    expect(parseEditedRegex("/").criteria).toEqual([]);
+    expect(parseEditedRegex("").criteria).toEqual([]);
+    expect(parseEditedRegex("/a/").error).toBeUndefined();
+  });
+
+  it("should drop flags the builder can't use instead of failing", () => {
+    const edited = parseEditedRegex("/a/gqgu v");
+    expect(edited.flags).toEqual({ ...defaultFlags, global: true, unicodeSets: true });
+    expect(edited.warnings).toEqual([
+      'Flag "q" is not supported by the builder and was dropped',
+      'Flag " " is not supported by the builder and was dropped',
+      "Flags u and v can't be combined, so u was dropped",
+    ]);
+  });
+
+  it("should ignore whitespace around the text", () => {
+    const edited = parseEditedRegex("  /abc/g ");
+    expect(edited.warnings).toEqual([]);
+    expect(buildRegex(edited.criteria, edited.flags)).toBe("/abc/g");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { analyzePatternRedos, analyzeRedos } from "../regex-redos";
+import { DEFAULT_FLAGS } from "../constants";
+import { criterion } from "./helpers";
+
+describe("analyzePatternRedos", () => {
+  it.each([
+    ["(a+)+$", "nested quantifiers"],
+    ["(a*)*b", "nested stars"],
+    ["^(\\w+\\s?)+$", "words with an optional separator"],
+    ["^(([a-z])+.)+[A-Z]([a-z])+$", "OWASP example"],
+    [
+      "^([a-zA-Z0-9])(([\\-.]|[_]+)?([a-zA-Z0-9]+))*(@){1}[a-z0-9]+[.]{1}(([a-z]{2,3})|([a-z]{2,3}[.]{1}[a-z]{2,3}))$",
+      "OWASP email validation",
+    ],
+    ["^(a|a)+$", "duplicate alternatives"],
+    ["(?:\\d|\\w)+", "overlapping alternatives"],
+    ["((ab)+)+", "nested multi-character repeat"],
+    ["(x+x+)+y", "adjacent repeats inside a repeat"],
+  ])("should flag %s as exponential (%s)", (pattern) => {
+    const report = analyzePatternRedos(pattern);
+    expect(report.risk).toBe("exponential");
+    expect(report.findings[0].suggestion).not.toBe("");
+  });
+
+  it.each([["^\\d+\\d+$"], [".*.*=.*"], ["\\w+\\s*\\w+"], ["(.*a){12}"]])(
+    "should flag %s as polynomial",
+    (pattern) => {
+      expect(analyzePatternRedos(pattern).risk).toBe("polynomial");
+    }
+  );
+
+  it.each([
+    ["^\\d{4}-\\d{2}-\\d{2}$"],
+    ["(ab+)+"],
+    ["(\\d+\\.)+\\d+"],
+    ["[a-z]+@[a-z]+\\.com"],
+    ["^(?:\\w+,)*\\w+$"],
+    ["(a?)+"],
+    ["\\d+[^\\d]+"],
+  ])("should consider %s safe", (pattern) => {
+    expect(analyzePatternRedos(pattern)).toEqual({ risk: "safe", findings: [] });
+  });
+
+  it("should follow the flags that change what characters match", () => {
+    expect(analyzePatternRedos("(?:a|A)+").risk).toBe("safe");
+    expect(analyzePatternRedos("(?:a|A)+", "i").risk).toBe("exponential");
+    expect(analyzePatternRedos("\\p{L}+\\p{Lu}+", "u").risk).toBe("polynomial");
+  });
+
+  it("should suggest rewrites that remove the ambiguity", () => {
+    const rewrites = ["(a+)+$", "^(\\w+\\s?)+$", "(?:\\d|\\w)+"].map(
+      (p) => analyzePatternRedos(p).findings[0].rewrite
+    );
+    expect(rewrites).toEqual(["(a+)$", "^(\\w+(?:\\s\\w+)*\\s?)$", "(?:[\\d\\w])+"]);
+    for (const rewrite of rewrites) {
+      expect(analyzePatternRedos(rewrite!).risk).toBe("safe");
+    }
+  });
+
+  it("should keep rewrites matching the same text", () => {
+    const original = /^(\w+\s?)+$/;
+    const rewrite = new RegExp(analyzePatternRedos(original.source).findings[0].rewrite!);
+    for (const input of ["a", "ab cd", "ab cd ", "ab  cd", " ab", ""]) {
+      expect(rewrite.test(input), input).toBe(original.test(input));
+    }
+  });
+
+  it("should treat invalid patterns as safe", () => {
+    expect(analyzePatternRedos("(a+")).toEqual({ risk: "safe", findings: [] });
+  });
+});
+
+describe("analyzeRedos", () => {
+  it("should analyze the pattern built from criteria", () => {
+    const criteria = [
+      criterion("group", "group", "", {
+        quantifier: "one_or_more",
+        children: [criterion("digit", "digit", "", { quantifier: "one_or_more" })],
+      }),
+    ];
+    expect(analyzeRedos(criteria, DEFAULT_FLAGS)).toMatchObject({
+      risk: "exponential",
+      findings: [{ fragment: "(\\d+)+", rewrite: "(\\d+)" }],
+    });
+  });
+
+  it("should report no risk without criteria", () => {
+    expect(analyzeRedos([], DEFAULT_FLAGS)).toEqual({ risk: "safe", findings: [] });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { previewReplacement, validateReplacement } from "../regex-replace";
+import { testRegexSafe } from "../regex-utils";
+
+/**
+ * Replaces with both the preview and String.prototype.replace so they can be compared
+ */
+function replaceBoth(source: string, flags: string, text: string, template: string) {
+  const { spans } = testRegexSafe(`/${source}/${flags}`, text);
+  return {
+    preview: previewReplacement(text, spans, template).output,
+    native: text.replace(new RegExp(source, flags), template),
+  };
+}
+
+describe("previewReplacement", () => {
+  it.each([
+    ["\\d+", "g", "a1b22c", "<$&>"],
+    ["(\\w+)@(\\w+)", "g", "me@home you@work", "$2 at $1"],
+    ["(?<y>\\d{4})-(?<m>\\d\\d)", "g", "2024-05 and 1999-12", "$<m>/$<y>"],
+    ["b", "", "abc", "[$`|$']"],
+    ["x", "g", "axbx", "$$"],
+    ["(a)", "g", "aa", "$0 $1 $2 $01 $10 $"],
+    ["(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)", "", "abcdefghijk", "$11-$10-$1x-$12"],
+    ["(?<n>a)|(b)", "g", "ab", "[$<n>|$2|$<missing>|$<n]"],
+    ["(a)", "g", "aa", "$<n>"],
+    ["x*", "g", "ab", "-"],
+    ["a", "", "aaa", "b"],
+  ])("should match String.replace for /%s/%s on %j with %j", (source, flags, text, template) => {
+    const { preview, native } = replaceBoth(source, flags, text, template);
+    expect(preview).toBe(native);
+  });
+
+  it("should record where each replacement went", () => {
+    const { spans } = testRegexSafe("/\\d+/g", "a1b22");
+    expect(previewReplacement("a1b22", spans, "#")).toEqual({
+      output: "a#b#",
+      parts: [
+        { start: 1, end: 2, outputStart: 1, original: "1", replacement: "#" },
+        { start: 3, end: 5, outputStart: 3, original: "22", replacement: "#" },
+      ],
+    });
+  });
+});
+
+describe("validateReplacement", () => {
+  const numbered = [{ number: 1, criterionId: "a" }];
+  const named = [
+    { number: 1, name: "year", criterionId: "a" },
+    { number: 2, criterionId: "b" },
+  ];
+
+  it("should accept references to existing groups", () => {
+    expect(validateReplacement("$1 $& $$2 $` $'", numbered)).toEqual([]);
+    expect(validateReplacement("$<year>-$2", named)).toEqual([]);
+  });
+
+  it("should warn about numbered groups that don't exist", () => {
+    expect(validateReplacement("$1 $2", numbered)).toEqual([
+      "$2 is inserted as plain text because the pattern has 1 group",
+    ]);
+    expect(validateReplacement("$1", [])).toHaveLength(1);
+  });
+
+  it("should warn about unknown names", () => {
+    expect(validateReplacement("$<month>", named)).toEqual([
+      'There is no group named "month", so $<month> inserts nothing',
+    ]);
+    expect(validateReplacement("$<year>", numbered)).toEqual([
+      "$<year> is inserted as plain text because the pattern has no named groups",
+    ]);
+  });
+
+  it("should warn once per reference", () => {
+    expect(validateReplacement("$3$3", numbered)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRegexRunner,
+  type RegexWorker,
+  type RegexWorkerRequest,
+  type RegexWorkerResponse,
+} from "../regex-runner";
+import { testRegexSafe } from "../regex-utils";
+
+/** Pattern the fake worker never answers, standing in for catastrophic backtracking */
+const HANGS = "/(a+)+$/";
+
+/**
+ * In-process stand-in for lib/regex-worker.ts
+ */
+class FakeWorker implements RegexWorker {
+  onmessage: ((event: MessageEvent<RegexWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+
+  constructor(loads = true) {
+    if (loads) setTimeout(() => this.reply({ type: "ready" }));
+    else setTimeout(() => this.onerror?.({ preventDefault() {} } as ErrorEvent));
+  }
+
+  postMessage({ id, pattern, input }: RegexWorkerRequest) {
+    if (pattern === HANGS) return;
+    setTimeout(() => this.reply({ type: "result", id, result: testRegexSafe(pattern, input) }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  private reply(message: RegexWorkerResponse) {
+    if (!this.terminated) this.onmessage?.({ data: message } as MessageEvent<RegexWorkerResponse>);
+  }
+}
+
+const fakeWorkers = (loads = true) => {
+  const workers: FakeWorker[] = [];
+  const create = () => {
+    const worker = new FakeWorker(loads);
+    workers.push(worker);
+    return worker;
+  };
+  return { workers, create };
+};
+
+describe("createRegexRunner", () => {
+  it("should return the same result as testRegexSafe", async () => {
+    const runner = createRegexRunner(fakeWorkers().create, 50);
+    expect(await runner.run("/(?<n>\\d+)/g", "a1b22")).toEqual(
+      testRegexSafe("/(?<n>\\d+)/g", "a1b22")
+    );
+  });
+
+  it("should stop a test that runs past the timeout and replace the worker", async () => {
+    const { workers, create } = fakeWorkers();
+    const runner = createRegexRunner(create, 20);
+    const result = await runner.run(HANGS, "aaaa!");
+    expect(result).toMatchObject({ matches: false, timedOut: true });
+    expect(result.error).toContain("20ms");
+    expect(workers[0].terminated).toBe(true);
+    expect(await runner.run("/a/", "a")).toMatchObject({ matches: true });
+    expect(workers).toHaveLength(2);
+  });
+
+  it("should time out each input of a bulk run separately", async () => {
+    const runner = createRegexRunner(fakeWorkers().create, 20);
+    const results = await Promise.all([
+      runner.runAll("/^\\d+$/", ["12", "x"]),
+      runner.run(HANGS, ""),
+      runner.runAll("/b/", ["abc"]),
+    ]);
+    expect(results[0].map((r) => r.matches)).toEqual([true, false]);
+    expect(results[1].timedOut).toBe(true);
+    expect(results[2][0].matches).toBe(true);
+  });
+
+  it("should drop queued single tests that a newer one replaces", async () => {
+    const { workers, create } = fakeWorkers();
+    const runner = createRegexRunner(create, 50);
+    const posted: string[] = [];
+    const results = Promise.all([
+      runner.runAll("/a/", ["a"]),
+      runner.run("/a/", "first"),
+      runner.run("/a/", "second"),
+      runner.run("/a/", "third"),
+    ]);
+    const postMessage = workers[0].postMessage.bind(workers[0]);
+    workers[0].postMessage = (request) => {
+      posted.push(request.input);
+      postMessage(request);
+    };
+    const [bulk, first, second, third] = await results;
+    expect(posted).toEqual(["a", "third"]);
+    expect(bulk[0].matches).toBe(true);
+    expect(first.error).toBe("Replaced by a newer test");
+    expect(second.error).toBe("Replaced by a newer test");
+    expect(third).toMatchObject({ matches: false });
+    expect(third.error).toBeUndefined();
+  });
+
+  it("should report a worker that fails to load instead of hanging", async () => {
+    const runner = createRegexRunner(fakeWorkers(false).create, 20);
+    const result = await runner.run("/a/", "a");
+    expect(result.error).toBeDefined();
+    expect(result.timedOut).toBeUndefined();
+  });
+
+  it("should settle pending tests when disposed", async () => {
+    const runner = createRegexRunner(fakeWorkers().create, 1000);
+    const pending = runner.run(HANGS, "");
+    runner.dispose();
+    expect((await pending).error).toBe("The pattern tester was stopped");
+  });
+});
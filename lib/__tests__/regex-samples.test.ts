@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { createRandom, generateSamples } from "../regex-samples";
+import { buildRegex, testRegexSafe } from "../regex-utils";
+import { DEFAULT_FLAGS } from "../constants";
+import type { RegexCriterion } from "@/types/regex";
+
+const PHONE: RegexCriterion[] = [
+  { id: "a", type: "digit", value: "", quantifier: "exactly", min: 3 },
+  { id: "b", type: "literal", value: "-", quantifier: "one" },
+  { id: "c", type: "digit", value: "", quantifier: "between", min: 2, max: 4 },
+];
+
+const DATE: RegexCriterion[] = [
+  {
+    id: "y",
+    type: "named_group",
+    value: "year",
+    quantifier: "one",
+    children: [{ id: "yd", type: "digit", value: "", quantifier: "exactly", min: 4 }],
+  },
+  { id: "s", type: "or", value: "-, /", quantifier: "one" },
+  { id: "m", type: "raw", value: "(?:0[1-9]|1[0-2])", quantifier: "one" },
+];
+
+const ECHO: RegexCriterion[] = [
+  {
+    id: "g",
+    type: "group",
+    value: "",
+    quantifier: "one",
+    children: [{ id: "w", type: "letter_lower", value: "", quantifier: "one_or_more" }],
+  },
+  { id: "x", type: "literal", value: "=", quantifier: "one" },
+  { id: "r", type: "backreference", value: "1", quantifier: "one" },
+];
+
+describe("createRandom", () => {
+  it("should repeat the same sequence for the same seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(first[0]);
+  });
+});
+
+describe("generateSamples", () => {
+  it.each([
+    ["phone", PHONE],
+    ["date", DATE],
+    ["backreference", ECHO],
+  ])("should generate matches and near misses for the %s pattern", (_, criteria) => {
+    const regex = buildRegex(criteria, DEFAULT_FLAGS);
+    const { matches, nearMisses } = generateSamples(criteria, DEFAULT_FLAGS, {
+      count: 5,
+      seed: 7,
+    });
+    expect(matches.length).toBeGreaterThan(0);
+    expect(nearMisses.length).toBeGreaterThan(0);
+    matches.forEach((text) => expect(testRegexSafe(regex, text).matches).toBe(true));
+    nearMisses.forEach((m) => expect(testRegexSafe(regex, m.text).matches).toBe(false));
+  });
+
+  it("should be reproducible with a seed", () => {
+    const options = { count: 5, seed: 123 };
+    expect(generateSamples(PHONE, DEFAULT_FLAGS, options)).toEqual(
+      generateSamples(PHONE, DEFAULT_FLAGS, options)
+    );
+    expect(generateSamples(PHONE, DEFAULT_FLAGS, options)).not.toEqual(
+      generateSamples(PHONE, DEFAULT_FLAGS, { ...options, seed: 124 })
+    );
+  });
+
+  it("should respect quantifier counts", () => {
+    const { matches } = generateSamples(PHONE, DEFAULT_FLAGS, { count: 10, seed: 1 });
+    matches.forEach((text) => expect(text).toMatch(/^\d{3}-\d{2,4}$/));
+  });
+
+  it("should say which criterion each near miss breaks", () => {
+    const { nearMisses } = generateSamples(PHONE, DEFAULT_FLAGS, { count: 10, seed: 3 });
+    nearMisses.forEach((m) => {
+      expect(["a", "b", "c"]).toContain(m.criterionId);
+      expect(m.change).toBeTruthy();
+    });
+  });
+
+  it("should return nothing for an empty or invalid pattern", () => {
+    const empty = { matches: [], nearMisses: [] };
+    expect(generateSamples([], DEFAULT_FLAGS, { count: 3, seed: 1 })).toEqual(empty);
+    const invalid: RegexCriterion[] = [{ id: "r", type: "raw", value: "(", quantifier: "one" }];
+    expect(generateSamples(invalid, DEFAULT_FLAGS, { count: 3, seed: 1 })).toEqual(empty);
+  });
+
+  it("should not generate matches for a pattern that can't match", () => {
+    const impossible: RegexCriterion[] = [
+      { id: "a", type: "literal", value: "a", quantifier: "one" },
+      { id: "b", type: "line_start", value: "", quantifier: "one" },
+      { id: "c", type: "literal", value: "b", quantifier: "one" },
+    ];
+    expect(generateSamples(impossible, DEFAULT_FLAGS, { count: 3, seed: 1 }).matches).toEqual([]);
+  });
+});
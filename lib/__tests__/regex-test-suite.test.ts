@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { checkTestCase, runTestSuite, summarizeTestSuite } from "../regex-test-suite";
+import { testRegexSafe } from "../regex-utils";
+import type { RegexRunner } from "../regex-runner";
+
+const DATE = "/(?<year>\\d{4})-(\\d\\d)/";
+
+/**
+ * Runner that tests on the main thread, standing in for the worker
+ */
+const syncRunner: RegexRunner = {
+  run: async (pattern, input) => testRegexSafe(pattern, input),
+  runAll: async (pattern, inputs) => inputs.map((input) => testRegexSafe(pattern, input)),
+  dispose: () => {},
+};
+
+describe("checkTestCase", () => {
+  const check = (input: string, shouldMatch: boolean, captures?: Record<string, string>) =>
+    checkTestCase({ id: "t", input, shouldMatch, captures }, testRegexSafe(DATE, input));
+
+  it("should pass when the match result is as expected", () => {
+    expect(check("on 2024-05", true)).toEqual({ caseId: "t", passed: true, message: null });
+    expect(check("no date", false).passed).toBe(true);
+  });
+
+  it("should fail when the match result is not as expected", () => {
+    expect(check("no date", true)).toEqual({ caseId: "t", passed: false, message: "No match" });
+    expect(check("on 2024-05", false).message).toBe('Matched "2024-05"');
+  });
+
+  it("should check captures by number and name", () => {
+    expect(check("2024-05", true, { year: "2024", "2": "05" }).passed).toBe(true);
+    expect(check("2024-05", true, { "2": "06" }).message).toBe(
+      'Group 2 captured "05", expected "06"'
+    );
+    expect(check("2024-05", true, { month: "05" }).message).toBe("There is no group month");
+  });
+
+  it("should fail when the pattern can't be tested", () => {
+    const result = checkTestCase(
+      { id: "t", input: "a", shouldMatch: false },
+      testRegexSafe("/(/", "a")
+    );
+    expect(result.passed).toBe(false);
+    expect(result.message).toBeTruthy();
+  });
+});
+
+describe("runTestSuite", () => {
+  it("should check every case in order", async () => {
+    const results = await runTestSuite(syncRunner, DATE, [
+      { id: "a", input: "2024-05", shouldMatch: true },
+      { id: "b", input: "2024-05", shouldMatch: false },
+      { id: "c", input: "nope", shouldMatch: false },
+    ]);
+    expect(results.map((r) => [r.caseId, r.passed])).toEqual([
+      ["a", true],
+      ["b", false],
+      ["c", true],
+    ]);
+    expect(summarizeTestSuite(results)).toEqual({ passed: 2, failed: 1 });
+  });
+});
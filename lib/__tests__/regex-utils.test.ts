@@ -1,6 +1,20 @@
 import { describe, it, expect } from "vitest";
-import { buildRegex, testRegexSafe, escapeRegex } from "../regex-utils";
+import {
+  buildRegex,
+  compileCriteria,
+  testRegexSafe,
+  escapeRegex,
+  getAnchorWarnings,
+  getQuantifierError,
+  getBackreferenceOptions,
+  listCaptureGroups,
+  requiresUnicode,
+  setFlag,
+  validateGroupReferences,
+  validateQuantifiers,
+} from "../regex-utils";
 import type { RegexCriterion, RegexFlags } from "@/types/regex";
+import { REGEX_PRESETS } from "../presets";
 
 describe("escapeRegex", () => {
   it("should escape special regex characters", () => {
@@ -22,6 +36,10 @@ describe("buildRegex - Single Criterion", () => {
     caseInsensitive: false,
     multiline: false,
     dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
   };
 
   it("should generate pattern for starts_with", () => {
@@ -64,6 +82,10 @@ describe("buildRegex - Multiple Criteria with Grouping", () => {
     caseInsensitive: false,
     multiline: false,
     dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
   };
 
   it("should add grouping for starts_with + contains", () => {
@@ -146,6 +168,10 @@ describe("buildRegex - Quantifiers with Grouping", () => {
     caseInsensitive: false,
     multiline: false,
     dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
   };
 
   it("should group multi-char value with quantifier in single-criterion pattern", () => {
@@ -251,6 +277,307 @@ describe("buildRegex - Quantifiers with Grouping", () => {
   });
 });
 
+describe("buildRegex - Counted and Lazy Quantifiers", () => {
+  const defaultFlags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+
+  it("should emit exact, at-least and between counts", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "digit", value: "", quantifier: "exactly", min: 3 },
+      { id: "2", type: "literal", value: "-", quantifier: "at_least", min: 1 },
+      { id: "3", type: "digit", value: "", quantifier: "between", min: 2, max: 4 },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/\\d{3}-{1,}\\d{2,4}/");
+  });
+
+  it("should emit lazy variants", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "any_char", value: "", quantifier: "one_or_more_lazy" },
+      { id: "2", type: "digit", value: "", quantifier: "optional_lazy" },
+      { id: "3", type: "word_char", value: "", quantifier: "at_least_lazy", min: 2 },
+      { id: "4", type: "whitespace", value: "", quantifier: "between_lazy", min: 0, max: 1 },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/.+?\\d??\\w{2,}?\\s{0,1}?/");
+  });
+
+  it("should group multi-char values before counted quantifiers", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "contains", value: "ab", quantifier: "exactly", min: 2 },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/(?:ab){2}/");
+  });
+
+  it("should leave out an invalid range instead of emitting a broken pattern", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "digit", value: "", quantifier: "between", min: 5, max: 2 },
+      { id: "2", type: "contains", value: "ab", quantifier: "exactly" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/\\d(?:ab)/");
+  });
+
+  it("should report invalid ranges per criterion", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "digit", value: "", quantifier: "between", min: 5, max: 2 },
+      {
+        id: "2",
+        type: "group",
+        value: "",
+        quantifier: "one",
+        children: [{ id: "3", type: "digit", value: "", quantifier: "at_least", min: -1 }],
+      },
+      { id: "4", type: "digit", value: "", quantifier: "between", min: 2, max: 2 },
+    ];
+    expect(validateQuantifiers(criteria)).toEqual([
+      { criterionId: "1", message: "Minimum (5) cannot be greater than maximum (2)" },
+      { criterionId: "3", message: "Enter a whole number of repetitions" },
+    ]);
+  });
+
+  it("should ignore counts on anchored types", () => {
+    expect(
+      getQuantifierError({ id: "1", type: "starts_with", value: "a", quantifier: "between" })
+    ).toBeNull();
+  });
+});
+
+describe("buildRegex - Lookarounds", () => {
+  const defaultFlags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+
+  it("should emit each lookaround with an escaped text value", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "lookbehind", value: "$", quantifier: "one" },
+      { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+      { id: "3", type: "negative_lookahead", value: ".5", quantifier: "one" },
+      { id: "4", type: "negative_lookbehind", value: "x", quantifier: "one" },
+      { id: "5", type: "lookahead", value: "ab", quantifier: "one" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/(?<=\\$)\\d+(?!\\.5)(?<!x)(?=ab)/");
+  });
+
+  it("should never quantify or re-group a lookaround", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "word_char", value: "", quantifier: "one" },
+      { id: "2", type: "lookahead", value: "abc", quantifier: "one_or_more" },
+      { id: "3", type: "negative_lookbehind", value: "xy", quantifier: "between", min: 5, max: 2 },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/\\w(?=abc)(?<!xy)/");
+    expect(validateQuantifiers(criteria)).toEqual([]);
+  });
+
+  it("should build lookarounds from child criteria", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "starts_with", value: "", quantifier: "one" },
+      {
+        id: "2",
+        type: "lookahead",
+        value: "",
+        quantifier: "one",
+        children: [
+          { id: "3", type: "any_char", value: "", quantifier: "zero_or_more" },
+          { id: "4", type: "digit", value: "", quantifier: "one" },
+        ],
+      },
+      {
+        id: "5",
+        type: "lookahead",
+        value: "",
+        quantifier: "one",
+        children: [
+          { id: "6", type: "any_char", value: "", quantifier: "zero_or_more" },
+          { id: "7", type: "letter_upper", value: "", quantifier: "one" },
+        ],
+      },
+      { id: "8", type: "any_char", value: "", quantifier: "at_least", min: 8 },
+      { id: "9", type: "ends_with", value: "", quantifier: "one" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/^(?=.*\\d)(?=.*[A-Z]).{8,}$/");
+  });
+});
+
+describe("buildRegex - Named Groups and Backreferences", () => {
+  const defaultFlags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+
+  const quoted: RegexCriterion[] = [
+    {
+      id: "1",
+      type: "named_group",
+      value: "quote",
+      quantifier: "one",
+      children: [{ id: "2", type: "custom_class", value: "'\"", quantifier: "one" }],
+    },
+    { id: "3", type: "word_char", value: "", quantifier: "one_or_more" },
+    { id: "4", type: "backreference", value: "quote", quantifier: "one" },
+  ];
+
+  it("should emit named groups and named backreferences", () => {
+    expect(buildRegex(quoted, defaultFlags)).toBe("/(?<quote>['\"])\\w+\\k<quote>/");
+  });
+
+  it("should emit numeric backreferences and keep a following digit separate", () => {
+    const criteria: RegexCriterion[] = [
+      {
+        id: "1",
+        type: "group",
+        value: "",
+        quantifier: "one",
+        children: [{ id: "2", type: "digit", value: "", quantifier: "one" }],
+      },
+      { id: "3", type: "backreference", value: "1", quantifier: "one" },
+      { id: "4", type: "literal", value: "0", quantifier: "one" },
+    ];
+    const pattern = buildRegex(criteria, defaultFlags);
+    expect(pattern).toBe("/(\\d)\\1(?:)0/");
+    expect(testRegexSafe(pattern, "770").matches).toBe(true);
+    expect(testRegexSafe(pattern, "780").matches).toBe(false);
+  });
+
+  it("should number groups in order of their opening parenthesis, including raw fragments", () => {
+    const criteria: RegexCriterion[] = [
+      {
+        id: "1",
+        type: "group",
+        value: "",
+        quantifier: "one",
+        children: [
+          { id: "2", type: "named_group", value: "inner", quantifier: "one" },
+          { id: "3", type: "raw", value: "(a)(?:b)(?<c>c)", quantifier: "one" },
+        ],
+      },
+      { id: "4", type: "group", value: "x(y)", quantifier: "one" },
+    ];
+    expect(listCaptureGroups(criteria)).toEqual([
+      { number: 1, name: undefined, criterionId: "1" },
+      { number: 2, name: "inner", criterionId: "2" },
+      { number: 3, name: undefined, criterionId: "3" },
+      { number: 4, name: "c", criterionId: "3" },
+      { number: 5, name: undefined, criterionId: "4" },
+      { number: 6, name: undefined, criterionId: "4" },
+    ]);
+  });
+
+  it("should offer only groups that open before each backreference", () => {
+    const options = getBackreferenceOptions([
+      { id: "1", type: "backreference", value: "", quantifier: "one" },
+      ...quoted,
+    ]);
+    expect(options["1"]).toEqual([]);
+    expect(options["4"]).toEqual([{ number: 1, name: "quote", criterionId: "1" }]);
+  });
+
+  it("should report invalid and duplicate names and unknown references", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "named_group", value: "2x", quantifier: "one" },
+      { id: "2", type: "named_group", value: "a", quantifier: "one" },
+      { id: "3", type: "named_group", value: "a", quantifier: "one" },
+      { id: "4", type: "backreference", value: "b", quantifier: "one" },
+      { id: "5", type: "backreference", value: "4", quantifier: "one" },
+      { id: "6", type: "backreference", value: "", quantifier: "one" },
+      { id: "7", type: "backreference", value: "3", quantifier: "one" },
+    ];
+    expect(validateGroupReferences(criteria).map((e) => e.criterionId)).toEqual([
+      "1",
+      "3",
+      "4",
+      "5",
+      "6",
+    ]);
+    expect(validateGroupReferences(criteria)[1].message).toBe('Group name "a" is already used');
+  });
+
+  it("should build a valid pattern while group references are invalid", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "named_group", value: "a", quantifier: "one" },
+      { id: "2", type: "named_group", value: "a", quantifier: "one" },
+      { id: "3", type: "backreference", value: "missing", quantifier: "one_or_more" },
+      { id: "4", type: "backreference", value: "a", quantifier: "one" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/(?<a>)()\\k<a>/");
+  });
+});
+
+describe("buildRegex - Anchors", () => {
+  const defaultFlags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+
+  const lineOfDigits: RegexCriterion[] = [
+    { id: "1", type: "line_start", value: "", quantifier: "one" },
+    { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+    { id: "3", type: "line_end", value: "", quantifier: "one" },
+  ];
+
+  it("should emit word boundaries around a whole word", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "word_boundary", value: "", quantifier: "one_or_more" },
+      { id: "2", type: "literal", value: "foo", quantifier: "one" },
+      { id: "3", type: "word_boundary", value: "", quantifier: "one" },
+      { id: "4", type: "non_word_boundary", value: "", quantifier: "one" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/\\b(?:foo)\\b\\B/");
+    expect(testRegexSafe("/\\bfoo\\b/g", "foo food afoo foo").matchedParts).toEqual(["foo", "foo"]);
+  });
+
+  it("should emit line anchors as ^ and $", () => {
+    const pattern = buildRegex(lineOfDigits, { ...defaultFlags, global: true, multiline: true });
+    expect(pattern).toBe("/^\\d+$/gm");
+    expect(testRegexSafe(pattern, "12\nab\n345").matchedParts).toEqual(["12", "345"]);
+  });
+
+  it("should keep input anchors at the ends of the input under the m flag", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "input_start", value: "", quantifier: "one" },
+      { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+      { id: "3", type: "input_end", value: "", quantifier: "one" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/^\\d+$/");
+    const multiline = buildRegex(criteria, { ...defaultFlags, multiline: true });
+    expect(multiline).toBe("/(?<![\\s\\S])\\d+(?![\\s\\S])/m");
+    expect(testRegexSafe(multiline, "12\n34").matches).toBe(false);
+    expect(testRegexSafe(multiline, "1234").matches).toBe(true);
+  });
+
+  it("should warn about line anchors without the m flag", () => {
+    expect(getAnchorWarnings(lineOfDigits, defaultFlags).map((w) => w.criterionId)).toEqual([
+      "1",
+      "3",
+    ]);
+    expect(getAnchorWarnings(lineOfDigits, { ...defaultFlags, multiline: true })).toEqual([]);
+  });
+});
+
 describe("buildRegex - Flags", () => {
   it("should include global flag", () => {
     const criteria: RegexCriterion[] = [
@@ -261,6 +588,10 @@ describe("buildRegex - Flags", () => {
       caseInsensitive: false,
       multiline: false,
       dotAll: false,
+      unicode: false,
+      sticky: false,
+      unicodeSets: false,
+      hasIndices: false,
     };
     expect(buildRegex(criteria, flags)).toBe("/test/g");
   });
@@ -274,6 +605,10 @@ describe("buildRegex - Flags", () => {
       caseInsensitive: true,
       multiline: false,
       dotAll: false,
+      unicode: false,
+      sticky: false,
+      unicodeSets: false,
+      hasIndices: false,
     };
     expect(buildRegex(criteria, flags)).toBe("/test/gi");
   });
@@ -287,17 +622,143 @@ describe("buildRegex - Flags", () => {
       caseInsensitive: true,
       multiline: true,
       dotAll: true,
+      unicode: false,
+      sticky: false,
+      unicodeSets: false,
+      hasIndices: false,
     };
     expect(buildRegex(criteria, flags)).toBe("/test/gims");
   });
 });
 
+describe("buildRegex - Unicode, Sticky and Indices Flags", () => {
+  const flags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+  const criteria: RegexCriterion[] = [{ id: "1", type: "digit", value: "", quantifier: "one" }];
+
+  it("should emit every flag in canonical order", () => {
+    const all = { ...flags, global: true, caseInsensitive: true, multiline: true, dotAll: true };
+    expect(buildRegex(criteria, { ...all, unicode: true, sticky: true, hasIndices: true })).toBe(
+      "/\\d/dgimsuy"
+    );
+    expect(buildRegex(criteria, { ...flags, unicodeSets: true })).toBe("/\\d/v");
+  });
+
+  it("should never emit u and v together", () => {
+    expect(buildRegex(criteria, { ...flags, unicode: true, unicodeSets: true })).toBe("/\\d/v");
+  });
+
+  it("should switch off u when v is turned on and vice versa", () => {
+    const withV = setFlag({ ...flags, unicode: true }, "unicodeSets", true);
+    expect(withV).toMatchObject({ unicode: false, unicodeSets: true });
+    expect(setFlag(withV, "unicode", true)).toMatchObject({ unicode: true, unicodeSets: false });
+    expect(setFlag(withV, "unicodeSets", false)).toMatchObject({ unicode: false });
+    expect(setFlag(flags, "sticky", true)).toEqual({ ...flags, sticky: true });
+  });
+
+  it("should test patterns built with the new flags", () => {
+    expect(testRegexSafe("/./u", "😀").matchedParts).toEqual(["😀"]);
+    expect(testRegexSafe("/[\\w--\\d]+/v", "ab12").matchedParts).toEqual(["ab"]);
+    expect(testRegexSafe("/b/y", "ab").matches).toBe(false);
+    expect(testRegexSafe("/b/dg", "abb").matchedParts).toEqual(["b", "b"]);
+  });
+});
+
+describe("buildRegex - Unicode Properties", () => {
+  const flags: RegexFlags = {
+    global: true,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+  const name: RegexCriterion[] = [
+    { id: "1", type: "unicode_property", value: "Uppercase_Letter", quantifier: "one" },
+    { id: "2", type: "unicode_property", value: "Letter", quantifier: "one_or_more" },
+  ];
+
+  it("should emit \\p and \\P escapes and switch on the u flag", () => {
+    const criteria: RegexCriterion[] = [
+      ...name,
+      { id: "3", type: "not_unicode_property", value: "Script=Latin", quantifier: "optional" },
+    ];
+    expect(buildRegex(criteria, flags)).toBe(
+      "/\\p{Uppercase_Letter}\\p{Letter}+\\P{Script=Latin}?/gu"
+    );
+  });
+
+  it("should keep the v flag instead of adding u", () => {
+    expect(buildRegex(name, { ...flags, unicodeSets: true })).toBe(
+      "/\\p{Uppercase_Letter}\\p{Letter}+/gv"
+    );
+  });
+
+  it("should leave out a property criterion until a property is chosen", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "digit", value: "", quantifier: "one" },
+      { id: "2", type: "unicode_property", value: "", quantifier: "one_or_more" },
+    ];
+    expect(buildRegex(criteria, flags)).toBe("/\\d/gu");
+  });
+
+  it("should detect property criteria nested in containers", () => {
+    expect(requiresUnicode(name)).toBe(true);
+    expect(
+      requiresUnicode([
+        {
+          id: "1",
+          type: "group",
+          value: "",
+          quantifier: "one",
+          children: [{ id: "2", type: "not_unicode_property", value: "Emoji", quantifier: "one" }],
+        },
+      ])
+    ).toBe(true);
+    expect(requiresUnicode([{ id: "1", type: "letter_upper", value: "", quantifier: "one" }])).toBe(
+      false
+    );
+  });
+
+  it("should match accented and non-Latin names that [A-Z][a-z]+ misses", () => {
+    const pattern = buildRegex(name, flags);
+    expect(testRegexSafe(pattern, "Zoë Saldaña").matchedParts).toEqual(["Zoë", "Saldaña"]);
+    expect(testRegexSafe(pattern, "Ελένη Παππά").matchedParts).toEqual(["Ελένη", "Παππά"]);
+    expect(testRegexSafe(pattern, "Владимир").matchedParts).toEqual(["Владимир"]);
+    expect(testRegexSafe("/[A-Z][a-z]+/g", "Zoë Saldaña").matchedParts).toEqual(["Zo", "Salda"]);
+  });
+
+  it("should match scripts and emoji", () => {
+    expect(testRegexSafe("/\\p{Script=Han}+/gu", "李小龍 and さくら").matchedParts).toEqual([
+      "李小龍",
+    ]);
+    expect(testRegexSafe("/\\p{Emoji_Presentation}/gu", "Party 🎉😀 at 9").matchedParts).toEqual([
+      "🎉",
+      "😀",
+    ]);
+  });
+});
+
 describe("buildRegex - Edge Cases", () => {
   const defaultFlags: RegexFlags = {
     global: false,
     caseInsensitive: false,
     multiline: false,
     dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
   };
 
   it("should return empty string for empty criteria", () => {
@@ -333,6 +794,265 @@ describe("buildRegex - Edge Cases", () => {
   });
 });
 
+describe("buildRegex - Nested Criteria", () => {
+  const defaultFlags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+
+  it("should build a repeated capturing group from children", () => {
+    const criteria: RegexCriterion[] = [
+      {
+        id: "1",
+        type: "group",
+        value: "",
+        quantifier: "one_or_more",
+        children: [
+          { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+          { id: "3", type: "literal", value: "-", quantifier: "one" },
+        ],
+      },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/(\\d+-)+/");
+  });
+
+  it("should group a quantified sequence of several children", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "starts_with", value: "", quantifier: "one" },
+      {
+        id: "2",
+        type: "sequence",
+        value: "",
+        quantifier: "one_or_more",
+        children: [
+          { id: "3", type: "digit", value: "", quantifier: "one_or_more" },
+          { id: "4", type: "literal", value: "ab", quantifier: "one" },
+        ],
+      },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/^(?:\\d+(?:ab))+/");
+  });
+
+  it("should not group a quantified sequence holding a single atom", () => {
+    const criteria: RegexCriterion[] = [
+      {
+        id: "1",
+        type: "sequence",
+        value: "",
+        quantifier: "optional",
+        children: [{ id: "2", type: "custom_class", value: "xy", quantifier: "one" }],
+      },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/[xy]?/");
+  });
+
+  it("should build or branches from children", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "digit", value: "", quantifier: "one" },
+      {
+        id: "2",
+        type: "or",
+        value: "ignored",
+        quantifier: "one",
+        children: [
+          { id: "3", type: "literal", value: "px", quantifier: "one" },
+          {
+            id: "4",
+            type: "sequence",
+            value: "",
+            quantifier: "one",
+            children: [
+              { id: "5", type: "literal", value: "e", quantifier: "one" },
+              { id: "6", type: "letter_lower", value: "", quantifier: "one" },
+            ],
+          },
+        ],
+      },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/\\d(?:px|e[a-z])/");
+  });
+
+  it("should inline a lone or child inside a group", () => {
+    const criteria: RegexCriterion[] = [
+      {
+        id: "1",
+        type: "group",
+        value: "",
+        quantifier: "one",
+        children: [{ id: "2", type: "or", value: "a,b", quantifier: "one" }],
+      },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/(a|b)/");
+  });
+
+  it("should keep building legacy group and or values without children", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "group", value: "a+", quantifier: "one" },
+      { id: "2", type: "or", value: "x, y", quantifier: "one" },
+    ];
+    expect(buildRegex(criteria, defaultFlags)).toBe("/(a+)(?:x|y)/");
+  });
+});
+
+describe("compileCriteria", () => {
+  const defaultFlags: RegexFlags = {
+    global: false,
+    caseInsensitive: false,
+    multiline: false,
+    dotAll: false,
+    unicode: false,
+    sticky: false,
+    unicodeSets: false,
+    hasIndices: false,
+  };
+  const slice = (criteria: RegexCriterion[], id: string) => {
+    const built = compileCriteria(criteria, defaultFlags);
+    const span = built.spans[id];
+    return span && built.source.slice(span.start, span.end);
+  };
+
+  it("should return the same pattern as buildRegex with a compiled RegExp", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "starts_with", value: "a.b", quantifier: "one" },
+      { id: "2", type: "digit", value: "", quantifier: "one_or_more" },
+    ];
+    const built = compileCriteria(criteria, { ...defaultFlags, global: true });
+    expect(built.regex).toBe(buildRegex(criteria, { ...defaultFlags, global: true }));
+    expect(built.source).toBe("^a\\.b\\d+");
+    expect(built.flags).toBe("g");
+    expect(built.compiled?.test("a.b12")).toBe(true);
+    expect(built.errors).toEqual([]);
+    expect(built.error).toBeNull();
+  });
+
+  it("should map each criterion to its source, including grouping and quantifiers", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "literal", value: "ab", quantifier: "one" },
+      {
+        id: "2",
+        type: "group",
+        value: "",
+        quantifier: "one_or_more",
+        children: [
+          { id: "3", type: "literal", value: "cd", quantifier: "optional" },
+          { id: "4", type: "or", value: "x, y", quantifier: "one" },
+        ],
+      },
+      { id: "5", type: "ends_with", value: "z", quantifier: "one" },
+    ];
+    expect(compileCriteria(criteria, defaultFlags).source).toBe("ab((?:cd)?(?:x|y))+z$");
+    expect(slice(criteria, "1")).toBe("ab");
+    expect(slice(criteria, "2")).toBe("((?:cd)?(?:x|y))+");
+    expect(slice(criteria, "3")).toBe("(?:cd)?");
+    expect(slice(criteria, "4")).toBe("(?:x|y)");
+    expect(slice(criteria, "5")).toBe("z$");
+  });
+
+  it("should map branches of an or, including one inlined into its group", () => {
+    const criteria: RegexCriterion[] = [
+      {
+        id: "1",
+        type: "group",
+        value: "",
+        quantifier: "one",
+        children: [
+          {
+            id: "2",
+            type: "or",
+            value: "",
+            quantifier: "one",
+            children: [
+              { id: "3", type: "literal", value: "cat", quantifier: "one" },
+              { id: "4", type: "digit", value: "", quantifier: "exactly", min: 2 },
+            ],
+          },
+        ],
+      },
+    ];
+    expect(slice(criteria, "1")).toBe("(cat|\\d{2})");
+    expect(slice(criteria, "2")).toBe("cat|\\d{2}");
+    expect(slice(criteria, "3")).toBe("cat");
+    expect(slice(criteria, "4")).toBe("\\d{2}");
+  });
+
+  it("should leave criteria that emit nothing out of the span map", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "literal", value: "a", quantifier: "one" },
+      { id: "2", type: "unicode_property", value: "", quantifier: "one" },
+    ];
+    expect(Object.keys(compileCriteria(criteria, defaultFlags).spans)).toEqual(["1"]);
+  });
+
+  it("should nest every child span inside its parent for the presets", () => {
+    const check = (
+      criteria: RegexCriterion[],
+      spans: Record<string, { start: number; end: number }>
+    ) =>
+      criteria.forEach((c) => {
+        const span = spans[c.id];
+        expect(span).toBeDefined();
+        (c.children ?? []).forEach((child) => {
+          expect(spans[child.id].start).toBeGreaterThanOrEqual(span.start);
+          expect(spans[child.id].end).toBeLessThanOrEqual(span.end);
+        });
+        check(c.children ?? [], spans);
+      });
+    REGEX_PRESETS.forEach((p) => check(p.criteria, compileCriteria(p.criteria, p.flags).spans));
+  });
+
+  it("should attribute compile errors to the criterion with the bad value", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "literal", value: "a", quantifier: "one" },
+      {
+        id: "2",
+        type: "sequence",
+        value: "",
+        quantifier: "one_or_more",
+        children: [{ id: "3", type: "custom_class", value: "z-a", quantifier: "one" }],
+      },
+      { id: "4", type: "raw", value: "(b", quantifier: "one" },
+    ];
+    const built = compileCriteria(criteria, defaultFlags);
+    expect(built.compiled).toBeNull();
+    expect(built.error).not.toMatch(/^Invalid regular expression/);
+    expect(built.errors.map((e) => e.criterionId)).toEqual(["3", "4"]);
+    expect(built.errors[0].message).toMatch(/out of order/);
+  });
+
+  it("should only blame criteria that fail to compile on their own", () => {
+    const criteria: RegexCriterion[] = [
+      { id: "1", type: "raw", value: "(a", quantifier: "one" },
+      { id: "2", type: "raw", value: "b))", quantifier: "one" },
+    ];
+    const built = compileCriteria(criteria, defaultFlags);
+    // Both fragments are broken alone, so both are blamed
+    expect(built.errors.map((e) => e.criterionId)).toEqual(["1", "2"]);
+
+    const split: RegexCriterion[] = [
+      { id: "1", type: "raw", value: "(?<x>a)", quantifier: "one" },
+      { id: "2", type: "raw", value: "(?<x>b)", quantifier: "one" },
+    ];
+    const duplicate = compileCriteria(split, defaultFlags);
+    expect(duplicate.error).toMatch(/Duplicate capture group name/);
+    expect(duplicate.errors).toEqual([]);
+  });
+
+  it("should return nothing to compile for no criteria", () => {
+    expect(compileCriteria([], defaultFlags)).toMatchObject({
+      regex: "",
+      compiled: null,
+      errors: [],
+      error: null,
+    });
+  });
+});
+
 describe("testRegexSafe", () => {
   it("should match multi-char repetition correctly with grouping", () => {
     const result = testRegexSafe("/(?:abc)+/", "abcabc");
@@ -376,6 +1096,49 @@ describe("testRegexSafe", () => {
     expect(result.matchedParts).toEqual(["hello", "hello"]);
   });
 
+  it("should report every match with its offsets and groups", () => {
+    const result = testRegexSafe("/(?<key>\\w+)=(\\d+)?/g", "a=1 bb=");
+    expect(result.spans).toEqual([
+      {
+        text: "a=1",
+        start: 0,
+        end: 3,
+        groups: [
+          { number: 1, name: "key", text: "a", start: 0, end: 1 },
+          { number: 2, name: undefined, text: "1", start: 2, end: 3 },
+        ],
+      },
+      {
+        text: "bb=",
+        start: 4,
+        end: 7,
+        groups: [
+          { number: 1, name: "key", text: "bb", start: 4, end: 6 },
+          { number: 2, name: undefined },
+        ],
+      },
+    ]);
+  });
+
+  it("should keep numbered groups with the g flag", () => {
+    const result = testRegexSafe("/(\\d)(x)?/g", "1x2");
+    expect(result.spans.map((m) => m.groups.map((g) => g.text))).toEqual([
+      ["1", "x"],
+      ["2", undefined],
+    ]);
+    expect(result.matchedParts).toEqual(["1x", "2"]);
+  });
+
+  it("should report only the first match without the g flag", () => {
+    const result = testRegexSafe("/^\\w+$/m", "ab\ncd");
+    expect(result.spans).toEqual([{ text: "ab", start: 0, end: 2, groups: [] }]);
+  });
+
+  it("should report empty matches without looping forever", () => {
+    const result = testRegexSafe("/x*/gu", "a😀");
+    expect(result.spans.map((m) => m.start)).toEqual([0, 1, 3]);
+  });
+
   it("should return false for non-matching pattern", () => {
     const result = testRegexSafe("/xyz/", "abc");
     expect(result.matches).toBe(false);
@@ -404,4 +1167,78 @@ describe("testRegexSafe", () => {
     const result = testRegexSafe("/^AAA(?:BBB)/", "AAA");
     expect(result.matches).toBe(false);
   });
+
+  it("should enforce a generated password policy with lookaheads", () => {
+    const flags: RegexFlags = {
+      global: false,
+      caseInsensitive: false,
+      multiline: false,
+      dotAll: false,
+      unicode: false,
+      sticky: false,
+      unicodeSets: false,
+      hasIndices: false,
+    };
+    const pattern = buildRegex(
+      [
+        { id: "1", type: "starts_with", value: "", quantifier: "one" },
+        {
+          id: "2",
+          type: "lookahead",
+          value: "",
+          quantifier: "one",
+          children: [
+            { id: "3", type: "any_char", value: "", quantifier: "zero_or_more" },
+            { id: "4", type: "digit", value: "", quantifier: "one" },
+          ],
+        },
+        {
+          id: "5",
+          type: "lookahead",
+          value: "",
+          quantifier: "one",
+          children: [
+            { id: "6", type: "any_char", value: "", quantifier: "zero_or_more" },
+            { id: "7", type: "letter_upper", value: "", quantifier: "one" },
+          ],
+        },
+        { id: "8", type: "any_char", value: "", quantifier: "at_least", min: 8 },
+        { id: "9", type: "ends_with", value: "", quantifier: "one" },
+      ],
+      flags
+    );
+    expect(testRegexSafe(pattern, "Secret123").matches).toBe(true);
+    expect(testRegexSafe(pattern, "secret123").matches).toBe(false);
+    expect(testRegexSafe(pattern, "SecretWord").matches).toBe(false);
+    expect(testRegexSafe(pattern, "Sec123").matches).toBe(false);
+  });
+
+  it("should match a word not followed by a generated negative lookahead", () => {
+    const pattern = "/foo(?!bar)/g";
+    expect(testRegexSafe(pattern, "foobar foobaz").matchedParts).toEqual(["foo"]);
+    expect(testRegexSafe(pattern, "foobar").matches).toBe(false);
+  });
+
+  it("should match only amounts preceded by a generated lookbehind", () => {
+    const pattern = "/(?<=\\$)\\d+/g";
+    const result = testRegexSafe(pattern, "costs $42, not 17 or $7");
+    expect(result.matchedParts).toEqual(["42", "7"]);
+  });
+
+  it("should skip text preceded by a generated negative lookbehind", () => {
+    const pattern = "/(?<!-)\\b\\d+/g";
+    const result = testRegexSafe(pattern, "5 -3 12");
+    expect(result.matchedParts).toEqual(["5", "12"]);
+  });
+
+  it("should report what each named group captured", () => {
+    const pattern = "/(?<year>\\d{4})-(?<month>\\d{2})(?:-(?<day>\\d{2}))?/g";
+    const result = testRegexSafe(pattern, "2024-05-17 and 2023-12");
+    expect(result.namedGroups).toEqual([
+      { year: "2024", month: "05", day: "17" },
+      { year: "2023", month: "12", day: undefined },
+    ]);
+    expect(testRegexSafe("/(?<word>\\w+)/", "hi there").namedGroups).toEqual([{ word: "hi" }]);
+    expect(testRegexSafe("/(\\w+)/", "hi").namedGroups).toEqual([]);
+  });
 });
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { migrateSavedRegex } from "../storage";
+import type { SavedRegex } from "@/types/regex";
+
+describe("migrateSavedRegex", () => {
+  it("should add flags missing from patterns saved by older versions", () => {
+    const legacy = {
+      id: "abc",
+      criteria: [],
+      flags: { global: true, caseInsensitive: false, multiline: true, dotAll: false },
+      regex: "/x/gm",
+      createdAt: 1,
+    } as unknown as SavedRegex;
+
+    expect(migrateSavedRegex(legacy).flags).toEqual({
+      global: true,
+      caseInsensitive: false,
+      multiline: true,
+      dotAll: false,
+      unicode: false,
+      sticky: false,
+      unicodeSets: false,
+      hasIndices: false,
+    });
+  });
+
+  it("should keep flags that are already present", () => {
+    const current: SavedRegex = {
+      id: "abc",
+      criteria: [],
+      flags: {
+        global: false,
+        caseInsensitive: false,
+        multiline: false,
+        dotAll: false,
+        unicode: false,
+        sticky: true,
+        unicodeSets: true,
+        hasIndices: false,
+      },
+      regex: "/x/vy",
+      createdAt: 1,
+    };
+
+    expect(migrateSavedRegex(current)).toEqual(current);
+  });
+});
@@ -0,0 +1,279 @@
+import type { RegexCriterion, RegexFlags, SnippetLanguage } from "@/types/regex";
+import { exportRegex, type FlavorDiagnostic } from "@/lib/regex-flavors";
+import { SNIPPET_LANGUAGES } from "@/lib/constants";
+
+/**
+ * Ready-to-paste code that tests, matches and replaces with a pattern
+ */
+export interface CodeSnippet {
+  language: SnippetLanguage;
+  /** Source code; the input is a variable named `text` */
+  code: string;
+  /** Compatibility notes from exporting the pattern to the language's regex flavor */
+  diagnostics: FlavorDiagnostic[];
+}
+
+/**
+ * Replaces control characters with \xHH escapes, which every supported flavor understands
+ * A raw newline or tab would otherwise break (or silently alter) a string literal; the line and
+ * paragraph separators U+2028 and U+2029 end JavaScript regex literals and are invisible
+ * elsewhere, so they are escaped as code points.
+ */
+function escapeControlCharacters(pattern: string, language: SnippetLanguage): string {
+  // PCRE reads \x{...} only in UTF mode; otherwise the pattern matches UTF-8 bytes
+  const utf8Bytes = language === "php" && !/\/[a-z]*u[a-z]*$/.test(pattern);
+  return Array.from(pattern, (char) => {
+    const code = char.charCodeAt(0);
+    if (code === 0x2028 || code === 0x2029) {
+      if (utf8Bytes) return `\\xE2\\x80\\x${code === 0x2028 ? "A8" : "A9"}`;
+      return language === "go" || language === "php"
+        ? `\\x{${code.toString(16)}}`
+        : `\\u${code.toString(16)}`;
+    }
+    if (code >= 0x20 && code !== 0x7f) return char;
+    if (char === "\n") return "\\n";
+    if (char === "\r") return "\\r";
+    if (char === "\t") return "\\t";
+    return `\\x${code.toString(16).toUpperCase().padStart(2, "0")}`;
+  }).join("");
+}
+
+/**
+ * Backslash-escapes each quote that is not already escaped for the regex
+ * Used for raw and single-quoted strings, where \" or \' keeps its backslash
+ */
+function escapeQuotes(source: string, quote: string): string {
+  let result = "";
+  let backslashes = 0;
+  for (const char of source) {
+    if (char === quote && backslashes % 2 === 0) result += "\\";
+    result += char;
+    backslashes = char === "\\" ? backslashes + 1 : 0;
+  }
+  return result;
+}
+
+/**
+ * Writes a pattern as a string (or regex) literal in the given language
+ * Prefers raw or verbatim strings so backslashes read the same as in the pattern
+ *
+ * @param pattern - Pattern as produced by exportRegex() for the language's flavor
+ * @param language - Target language
+ * @returns Source text of the literal, including quotes
+ *
+ * @example
+ * quotePattern('\\d+"', "python") // 'r"\\d+\\""'
+ * quotePattern('\\d+"', "csharp") // '@"\\d+"""'
+ */
+export function quotePattern(pattern: string, language: SnippetLanguage): string {
+  const source = escapeControlCharacters(pattern, language);
+  switch (language) {
+    case "javascript":
+    case "typescript":
+    case "ruby":
+      // Already a /.../ literal
+      return source;
+    case "python":
+      return `r"${escapeQuotes(source, '"')}"`;
+    case "go":
+      // Raw strings cannot contain backticks; fall back to an interpreted string
+      return source.includes("`") ? `"${source.replace(/[\\"]/g, "\\$&")}"` : `\`${source}\``;
+    case "java":
+      return `"${source.replace(/[\\"]/g, "\\$&")}"`;
+    case "csharp":
+      return `@"${source.replace(/"/g, '""')}"`;
+    case "php":
+      // In single quotes only \\ and \' are escapes, so other backslashes can stay single
+      return `'${escapeQuotes(source, "'").replace(/\\\\/g, "\\\\\\\\")}'`;
+    case "rust": {
+      // A raw string ends at the first quote followed by as many # as it opened with
+      let hashes = "";
+      while (source.includes(`"${hashes}`)) hashes += "#";
+      return `r${hashes}"${source}"${hashes}`;
+    }
+  }
+}
+
+/**
+ * Escapes "/" in a JavaScript regex literal built by buildRegex()
+ */
+function escapeJavaScriptLiteral(literal: string): string {
+  const lastSlash = literal.lastIndexOf("/");
+  const source = literal
+    .slice(1, lastSlash)
+    .replace(/(\\[\s\S])|\//g, (m, escape) => escape ?? "\\/");
+  return `/${source}/${literal.slice(lastSlash + 1)}`;
+}
+
+/**
+ * Generates idiomatic test, match and replace code for a pattern
+ * Without the g flag, match and replace act on the first match only, as in JavaScript.
+ *
+ * @param criteria - Criteria to render
+ * @param flags - JavaScript flags
+ * @param language - Target language
+ * @returns Code plus compatibility diagnostics for the language's regex flavor
+ */
+export function generateSnippet(
+  criteria: RegexCriterion[],
+  flags: RegexFlags,
+  language: SnippetLanguage
+): CodeSnippet {
+  const flavor = SNIPPET_LANGUAGES.find((l) => l.value === language)?.flavor ?? "javascript";
+  const exported = exportRegex(criteria, flags, flavor);
+  if (!exported.pattern) return { language, code: "", diagnostics: exported.diagnostics };
+  const pattern = quotePattern(
+    flavor === "javascript" ? escapeJavaScriptLiteral(exported.pattern) : exported.pattern,
+    language
+  );
+  const all = flags.global;
+  let lines: string[];
+
+  switch (language) {
+    case "javascript":
+      lines = [
+        `const regex = ${pattern};`,
+        "",
+        "// Test",
+        "const isMatch = regex.test(text);",
+        "",
+        "// Match",
+        "const matches = text.match(regex);",
+        "",
+        "// Replace",
+        'const result = text.replace(regex, "replacement");',
+      ];
+      break;
+    case "typescript":
+      lines = [
+        `const regex: RegExp = ${pattern};`,
+        "",
+        "// Test",
+        "const isMatch: boolean = regex.test(text);",
+        "",
+        "// Match",
+        "const matches: RegExpMatchArray | null = text.match(regex);",
+        "",
+        "// Replace",
+        'const result: string = text.replace(regex, "replacement");',
+      ];
+      break;
+    case "python":
+      lines = [
+        "import re",
+        "",
+        `pattern = re.compile(${pattern})`,
+        "",
+        "# Test",
+        "is_match = pattern.search(text) is not None",
+        "",
+        "# Match",
+        all ? "matches = pattern.findall(text)" : "match = pattern.search(text)",
+        "",
+        "# Replace",
+        `result = pattern.sub("replacement", text${all ? "" : ", count=1"})`,
+      ];
+      break;
+    case "go":
+      lines = [
+        `re := regexp.MustCompile(${pattern})`,
+        "",
+        "// Test",
+        "isMatch := re.MatchString(text)",
+        "",
+        "// Match",
+        all ? "matches := re.FindAllString(text, -1)" : "match := re.FindString(text)",
+        "",
+        "// Replace",
+        ...(all ? [] : ["// Go has no replace-first; this replaces every match"]),
+        'result := re.ReplaceAllString(text, "replacement")',
+      ];
+      break;
+    case "java":
+      lines = [
+        "import java.util.regex.Matcher;",
+        "import java.util.regex.Pattern;",
+        "",
+        `Pattern pattern = Pattern.compile(${pattern});`,
+        "",
+        "// Test",
+        "boolean isMatch = pattern.matcher(text).find();",
+        "",
+        "// Match",
+        "Matcher matcher = pattern.matcher(text);",
+        all
+          ? "while (matcher.find()) {\n    System.out.println(matcher.group());\n}"
+          : "if (matcher.find()) {\n    System.out.println(matcher.group());\n}",
+        "",
+        "// Replace",
+        `String result = pattern.matcher(text).${all ? "replaceAll" : "replaceFirst"}("replacement");`,
+      ];
+      break;
+    case "csharp":
+      lines = [
+        "using System.Text.RegularExpressions;",
+        "",
+        `var regex = new Regex(${pattern});`,
+        "",
+        "// Test",
+        "bool isMatch = regex.IsMatch(text);",
+        "",
+        "// Match",
+        all ? "MatchCollection matches = regex.Matches(text);" : "Match match = regex.Match(text);",
+        "",
+        "// Replace",
+        `string result = regex.Replace(text, "replacement"${all ? "" : ", 1"});`,
+      ];
+      break;
+    case "php":
+      lines = [
+        `$pattern = ${pattern};`,
+        "",
+        "// Test",
+        "$isMatch = preg_match($pattern, $text) === 1;",
+        "",
+        "// Match",
+        all
+          ? "preg_match_all($pattern, $text, $matches);"
+          : "preg_match($pattern, $text, $matches);",
+        "",
+        "// Replace",
+        `$result = preg_replace($pattern, 'replacement', $text${all ? "" : ", 1"});`,
+      ];
+      break;
+    case "ruby":
+      lines = [
+        `regex = ${pattern}`,
+        "",
+        "# Test",
+        "is_match = regex.match?(text)",
+        "",
+        "# Match",
+        all ? "matches = text.scan(regex)" : "match = regex.match(text)",
+        "",
+        "# Replace",
+        `result = text.${all ? "gsub" : "sub"}(regex, "replacement")`,
+      ];
+      break;
+    case "rust":
+      lines = [
+        "use regex::Regex;",
+        "",
+        `let re = Regex::new(${pattern}).unwrap();`,
+        "",
+        "// Test",
+        "let is_match = re.is_match(text);",
+        "",
+        "// Match",
+        all
+          ? "let matches: Vec<&str> = re.find_iter(text).map(|m| m.as_str()).collect();"
+          : "let found = re.find(text);",
+        "",
+        "// Replace",
+        `let result = re.${all ? "replace_all" : "replace"}(text, "replacement");`,
+      ];
+      break;
+  }
+
+  return { language, code: lines.join("\n"), diagnostics: exported.diagnostics };
+}
@@ -1,3 +1,5 @@
+import type { RegexFlags, RegexFlavor, SnippetLanguage } from "@/types/regex";
+
 /**
  * Regex builder criterion types
  * Defines all available patterns users can select
@@ -7,6 +9,12 @@ export const CRITERION_TYPES = [
   { value: "ends_with", label: "Ends with" },
   { value: "contains", label: "Contains" },
   { value: "exact", label: "Exact match" },
+  { value: "word_boundary", label: "Word boundary (\\b)" },
+  { value: "non_word_boundary", label: "Not a word boundary (\\B)" },
+  { value: "line_start", label: "Start of line (^)" },
+  { value: "line_end", label: "End of line ($)" },
+  { value: "input_start", label: "Start of input" },
+  { value: "input_end", label: "End of input" },
   { value: "digit", label: "Digit (0-9)" },
   { value: "word_char", label: "Word character" },
   { value: "whitespace", label: "Whitespace" },
@@ -14,12 +22,166 @@ export const CRITERION_TYPES = [
   { value: "letter_upper", label: "Uppercase letter" },
   { value: "letter_lower", label: "Lowercase letter" },
   { value: "custom_class", label: "Custom class [...]" },
+  { value: "unicode_property", label: "Unicode property \\p{...}" },
+  { value: "not_unicode_property", label: "Not Unicode property \\P{...}" },
   { value: "group", label: "Group (...)" },
+  { value: "named_group", label: "Named group (?<name>...)" },
+  { value: "sequence", label: "Sequence (?:...)" },
   { value: "or", label: "Or (|)" },
   { value: "not", label: "Not [^...]" },
+  { value: "lookahead", label: "Followed by (?=...)" },
+  { value: "negative_lookahead", label: "Not followed by (?!...)" },
+  { value: "lookbehind", label: "Preceded by (?<=...)" },
+  { value: "negative_lookbehind", label: "Not preceded by (?<!...)" },
+  { value: "backreference", label: "Same text as group (\\k<name>)" },
   { value: "literal", label: "Literal text" },
+  { value: "raw", label: "Raw fragment" },
 ] as const;
 
+/**
+ * Short explanations shown under criteria whose behaviour is not obvious from the label
+ */
+export const CRITERION_HINTS: Record<string, string> = {
+  letter_upper: "Only matches A-Z. Use the Uppercase_Letter Unicode property for other languages.",
+  letter_lower: "Only matches a-z. Use the Lowercase_Letter Unicode property for other languages.",
+  unicode_property:
+    "Matches any character with this Unicode property, in any language. Turns on Unicode mode (u).",
+  not_unicode_property:
+    "Matches any character without this Unicode property. Turns on Unicode mode (u).",
+  word_boundary:
+    "Matches between a word character and a non-word character, e.g. around a whole word.",
+  non_word_boundary: "Matches anywhere a word boundary does not, e.g. inside a word.",
+  line_start:
+    "Matches at the start of every line when Multiline (m) is on, otherwise only at the start of the input.",
+  line_end:
+    "Matches at the end of every line when Multiline (m) is on, otherwise only at the end of the input.",
+  input_start: "Matches only at the very start of the text, even when Multiline (m) is on.",
+  input_end: "Matches only at the very end of the text, even when Multiline (m) is on.",
+  named_group:
+    "Captures its nested rules under a name, so test results and backreferences can refer to it.",
+  backreference:
+    "Matches the exact text an earlier group captured, e.g. the closing quote of an opening one.",
+  lookahead:
+    "Checks that the text right after this point matches, without consuming it. Stack several at the start for password rules.",
+  negative_lookahead:
+    "Checks that the text right after this point does not match, without consuming it.",
+  lookbehind: "Checks that the text right before this point matches, without consuming it.",
+  negative_lookbehind:
+    "Checks that the text right before this point does not match, without consuming it.",
+};
+
+/**
+ * Unicode properties offered for \p{...} criteria
+ * Values are the exact text between the braces; scripts use the Script= form
+ */
+export const UNICODE_PROPERTIES = [
+  { value: "Letter", label: "Letter (any language)", group: "General category" },
+  { value: "Uppercase_Letter", label: "Uppercase letter", group: "General category" },
+  { value: "Lowercase_Letter", label: "Lowercase letter", group: "General category" },
+  { value: "Titlecase_Letter", label: "Titlecase letter", group: "General category" },
+  { value: "Mark", label: "Combining mark (accents)", group: "General category" },
+  { value: "Number", label: "Number (any kind)", group: "General category" },
+  { value: "Decimal_Number", label: "Decimal digit (any script)", group: "General category" },
+  { value: "Punctuation", label: "Punctuation", group: "General category" },
+  { value: "Dash_Punctuation", label: "Dash", group: "General category" },
+  { value: "Symbol", label: "Symbol", group: "General category" },
+  { value: "Currency_Symbol", label: "Currency symbol", group: "General category" },
+  { value: "Math_Symbol", label: "Math symbol", group: "General category" },
+  { value: "Separator", label: "Separator", group: "General category" },
+  { value: "Space_Separator", label: "Space separator", group: "General category" },
+  { value: "Control", label: "Control character", group: "General category" },
+  { value: "Script=Latin", label: "Latin", group: "Script" },
+  { value: "Script=Greek", label: "Greek", group: "Script" },
+  { value: "Script=Cyrillic", label: "Cyrillic", group: "Script" },
+  { value: "Script=Arabic", label: "Arabic", group: "Script" },
+  { value: "Script=Hebrew", label: "Hebrew", group: "Script" },
+  { value: "Script=Devanagari", label: "Devanagari", group: "Script" },
+  { value: "Script=Bengali", label: "Bengali", group: "Script" },
+  { value: "Script=Tamil", label: "Tamil", group: "Script" },
+  { value: "Script=Thai", label: "Thai", group: "Script" },
+  { value: "Script=Georgian", label: "Georgian", group: "Script" },
+  { value: "Script=Armenian", label: "Armenian", group: "Script" },
+  { value: "Script=Ethiopic", label: "Ethiopic", group: "Script" },
+  { value: "Script=Han", label: "Han (Chinese characters)", group: "Script" },
+  { value: "Script=Hiragana", label: "Hiragana", group: "Script" },
+  { value: "Script=Katakana", label: "Katakana", group: "Script" },
+  { value: "Script=Hangul", label: "Hangul", group: "Script" },
+  { value: "Alphabetic", label: "Alphabetic", group: "Binary property" },
+  { value: "Uppercase", label: "Uppercase", group: "Binary property" },
+  { value: "Lowercase", label: "Lowercase", group: "Binary property" },
+  { value: "White_Space", label: "White space", group: "Binary property" },
+  { value: "Emoji", label: "Emoji (includes digits and #)", group: "Binary property" },
+  { value: "Emoji_Presentation", label: "Emoji shown as pictures", group: "Binary property" },
+  { value: "Extended_Pictographic", label: "Pictographs (emoji-like)", group: "Binary property" },
+  { value: "Ideographic", label: "Ideographic", group: "Binary property" },
+  { value: "ASCII", label: "ASCII", group: "Binary property" },
+  { value: "Any", label: "Any code point", group: "Binary property" },
+] as const;
+
+/**
+ * Accented and non-Latin strings offered in the test panel for Unicode property patterns
+ */
+export const UNICODE_SAMPLE_STRINGS = [
+  "Zoë Saldaña",
+  "Ελένη Παππά",
+  "Владимир",
+  "محمد",
+  "李小龍",
+  "さくら",
+  "Party 🎉😀",
+];
+
+/**
+ * Lookaround assertion types and the syntax that opens each one
+ */
+export const LOOKAROUND_PREFIXES: Record<string, string> = {
+  lookahead: "?=",
+  negative_lookahead: "?!",
+  lookbehind: "?<=",
+  negative_lookbehind: "?<!",
+};
+
+/**
+ * Zero-width criteria that match a position rather than text, so they take no value
+ */
+export const ANCHOR_TYPES: readonly string[] = [
+  "word_boundary",
+  "non_word_boundary",
+  "line_start",
+  "line_end",
+  "input_start",
+  "input_end",
+];
+
+/**
+ * Anchors whose meaning depends on the multiline flag
+ */
+export const LINE_ANCHOR_TYPES: readonly string[] = ["line_start", "line_end"];
+
+/**
+ * Criterion types that can hold child criteria
+ * "group", "or" and the lookarounds also accept a plain text value when they have no children
+ */
+export const CONTAINER_TYPES: readonly string[] = [
+  "group",
+  "named_group",
+  "sequence",
+  "or",
+  ...Object.keys(LOOKAROUND_PREFIXES),
+];
+
+/**
+ * Criterion types that never take a quantifier
+ * Anchored text matches a fixed position; anchors and lookarounds are zero-width assertions
+ */
+export const UNQUANTIFIED_TYPES: readonly string[] = [
+  "starts_with",
+  "ends_with",
+  "exact",
+  ...ANCHOR_TYPES,
+  ...Object.keys(LOOKAROUND_PREFIXES),
+];
+
 /**
  * Regex quantifiers
  * Defines how many times a pattern should match
@@ -29,9 +191,79 @@ export const QUANTIFIERS = [
   { value: "zero_or_more", label: "0 or more (*)" },
   { value: "one_or_more", label: "1 or more (+)" },
   { value: "optional", label: "Optional (?)" },
-  { value: "lazy", label: "Lazy (*?)" },
+  { value: "exactly", label: "Exactly n ({n})" },
+  { value: "at_least", label: "At least n ({n,})" },
+  { value: "between", label: "Between n and m ({n,m})" },
+  { value: "lazy", label: "0 or more, lazy (*?)" },
+  { value: "one_or_more_lazy", label: "1 or more, lazy (+?)" },
+  { value: "optional_lazy", label: "Optional, lazy (??)" },
+  { value: "at_least_lazy", label: "At least n, lazy ({n,}?)" },
+  { value: "between_lazy", label: "Between n and m, lazy ({n,m}?)" },
 ] as const;
 
+/**
+ * Quantifiers that take a minimum count (stored in RegexCriterion.min)
+ */
+export const COUNTED_QUANTIFIERS: readonly string[] = [
+  "exactly",
+  "at_least",
+  "between",
+  "at_least_lazy",
+  "between_lazy",
+];
+
+/**
+ * Quantifiers that also take a maximum count (stored in RegexCriterion.max)
+ */
+export const RANGE_QUANTIFIERS: readonly string[] = ["between", "between_lazy"];
+
+/**
+ * Flags for a new pattern; also fills in flags missing from patterns saved by older versions
+ */
+export const DEFAULT_FLAGS: RegexFlags = {
+  global: false,
+  caseInsensitive: false,
+  multiline: false,
+  dotAll: false,
+  unicode: false,
+  sticky: false,
+  unicodeSets: false,
+  hasIndices: false,
+};
+
+/**
+ * Regex flavors offered by the export selector, in display order
+ */
+export const REGEX_FLAVORS: ReadonlyArray<{ value: RegexFlavor; label: string }> = [
+  { value: "javascript", label: "JavaScript" },
+  { value: "python", label: "Python" },
+  { value: "go", label: "Go (RE2)" },
+  { value: "java", label: "Java" },
+  { value: "pcre", label: "PCRE (PHP)" },
+  { value: "dotnet", label: ".NET" },
+  { value: "ruby", label: "Ruby" },
+  { value: "rust", label: "Rust" },
+];
+
+/**
+ * Languages with code snippets, and the regex flavor each one uses
+ */
+export const SNIPPET_LANGUAGES: ReadonlyArray<{
+  value: SnippetLanguage;
+  label: string;
+  flavor: RegexFlavor;
+}> = [
+  { value: "javascript", label: "JavaScript", flavor: "javascript" },
+  { value: "typescript", label: "TypeScript", flavor: "javascript" },
+  { value: "python", label: "Python", flavor: "python" },
+  { value: "go", label: "Go", flavor: "go" },
+  { value: "java", label: "Java", flavor: "java" },
+  { value: "csharp", label: "C#", flavor: "dotnet" },
+  { value: "php", label: "PHP", flavor: "pcre" },
+  { value: "ruby", label: "Ruby", flavor: "ruby" },
+  { value: "rust", label: "Rust", flavor: "rust" },
+];
+
 /**
  * LocalStorage key for saved regex patterns
  */
@@ -39,6 +271,7 @@ export const SAVED_REGEX_STORAGE_KEY = "magic_strings_spellbook";
 
 /**
  * Regex timeout in milliseconds
- * Prevents catastrophic backtracking from freezing the browser
+ * Tests run in a Web Worker that is replaced once a match takes longer than this,
+ * so catastrophic backtracking can't freeze the browser
  */
 export const REGEX_TIMEOUT_MS = 100;
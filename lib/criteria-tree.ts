@@ -0,0 +1,73 @@
+import type { RegexCriterion } from "@/types/regex";
+import { generateId } from "@/lib/regex-utils";
+
+/**
+ * Applies a change to the criterion with the given id, wherever it sits in the tree
+ * Returns new arrays along the changed path so React state updates stay immutable
+ *
+ * @param criteria - Root criteria list
+ * @param id - Id of the criterion to change
+ * @param patch - Fields to overwrite
+ * @returns Updated criteria tree
+ *
+ * @example
+ * updateCriterionInTree(criteria, "abc", { quantifier: "one_or_more" })
+ */
+export function updateCriterionInTree(
+  criteria: RegexCriterion[],
+  id: string,
+  patch: Partial<RegexCriterion>
+): RegexCriterion[] {
+  return criteria.map((c) => {
+    if (c.id === id) return { ...c, ...patch };
+    if (c.children) return { ...c, children: updateCriterionInTree(c.children, id, patch) };
+    return c;
+  });
+}
+
+/**
+ * Removes the criterion with the given id (and its children) from the tree
+ *
+ * @param criteria - Root criteria list
+ * @param id - Id of the criterion to remove
+ * @returns Updated criteria tree
+ */
+export function removeCriterionFromTree(criteria: RegexCriterion[], id: string): RegexCriterion[] {
+  return criteria
+    .filter((c) => c.id !== id)
+    .map((c) => (c.children ? { ...c, children: removeCriterionFromTree(c.children, id) } : c));
+}
+
+/**
+ * Appends a child criterion to the container with the given id
+ *
+ * @param criteria - Root criteria list
+ * @param parentId - Id of the container criterion
+ * @param child - Criterion to append
+ * @returns Updated criteria tree
+ */
+export function addChildCriterion(
+  criteria: RegexCriterion[],
+  parentId: string,
+  child: RegexCriterion
+): RegexCriterion[] {
+  return criteria.map((c) => {
+    if (c.id === parentId) return { ...c, children: [...(c.children ?? []), child] };
+    if (c.children) return { ...c, children: addChildCriterion(c.children, parentId, child) };
+    return c;
+  });
+}
+
+/**
+ * Copies criteria with fresh ids, so the copy can sit alongside the original
+ *
+ * @param criteria - Criteria to copy, with their children
+ * @returns Deep copy where every criterion has a new id
+ */
+export function cloneCriteria(criteria: RegexCriterion[]): RegexCriterion[] {
+  return criteria.map((c) => ({
+    ...c,
+    id: generateId(),
+    ...(c.children && { children: cloneCriteria(c.children) }),
+  }));
+}
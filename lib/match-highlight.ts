@@ -0,0 +1,96 @@
+import type { GroupSpan, MatchSpan } from "@/lib/regex-utils";
+
+/**
+ * A run of test text with the same highlighting
+ */
+export interface HighlightSegment {
+  text: string;
+  /** Offset of the first character in the test string */
+  start: number;
+  /** Index into the spans of the match covering this text, if any */
+  match?: number;
+  /** Number of the innermost capture group covering this text, if any */
+  group?: number;
+}
+
+/**
+ * Symbols shown in place of whitespace; anything else \s matches becomes a visible space mark
+ */
+const WHITESPACE_SYMBOLS: Record<string, string> = {
+  " ": "·",
+  "\t": "→",
+  "\n": "↵\n",
+  "\r": "␍",
+  "\f": "␌",
+  "\v": "␋",
+};
+
+/**
+ * Groups that took part in a match, which are the only ones with offsets
+ */
+function capturedGroups(m: MatchSpan) {
+  return m.groups.filter(
+    (g): g is GroupSpan & { start: number; end: number } =>
+      g.start !== undefined && g.end !== undefined
+  );
+}
+
+/**
+ * Splits test text into segments so each match and capture group can be coloured in place
+ * Nested groups colour their text with the innermost group. An empty match becomes an
+ * empty segment at its position, so it can still be marked.
+ *
+ * @param text - The test string
+ * @param spans - Match offsets from testRegexSafe(), in order and not overlapping
+ * @returns Segments covering the whole text, in order
+ *
+ * @example
+ * highlightMatches("a1", [{ text: "1", start: 1, end: 2, groups: [] }])
+ * // [{ text: "a", start: 0 }, { text: "1", start: 1, match: 0 }]
+ */
+export function highlightMatches(text: string, spans: MatchSpan[]): HighlightSegment[] {
+  const boundaries = new Set([0, text.length]);
+  spans.forEach((m) => {
+    boundaries.add(m.start).add(m.end);
+    capturedGroups(m).forEach((g) => boundaries.add(g.start).add(g.end));
+  });
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  // Spans are in order, so one index sweeps through them as the points advance
+  const segments: HighlightSegment[] = [];
+  let next = 0;
+  points.forEach((start, i) => {
+    // Spans ending here are done with; empty ones are marked as they are passed
+    while (next < spans.length && spans[next].end <= start) {
+      if (spans[next].start === start) segments.push({ text: "", start, match: next });
+      next++;
+    }
+    const end = points[i + 1];
+    if (end === undefined) return;
+
+    const segment: HighlightSegment = { text: text.slice(start, end), start };
+    if (next < spans.length && spans[next].start <= start) {
+      const match = next;
+      segment.match = match;
+      // The shortest covering group is the innermost; later groups win ties as they nest deeper
+      const covering = capturedGroups(spans[match]).filter((g) => g.start <= start && end <= g.end);
+      const inner = covering.reduce<(typeof covering)[number] | undefined>(
+        (best, g) => (!best || g.end - g.start <= best.end - best.start ? g : best),
+        undefined
+      );
+      if (inner) segment.group = inner.number;
+    }
+    segments.push(segment);
+  });
+  return segments;
+}
+
+/**
+ * Replaces whitespace with visible symbols, keeping line breaks
+ *
+ * @param text - Text to show
+ * @returns Text with spaces as ·, tabs as →, newlines as ↵ and other whitespace as ⍽
+ */
+export function visualizeWhitespace(text: string): string {
+  return text.replace(/\s/g, (c) => WHITESPACE_SYMBOLS[c] ?? "⍽");
+}
@@ -0,0 +1,171 @@
+import type { RegexCriterion, RegexNode } from "@/types/regex";
+import type { BuiltRegex } from "@/lib/regex-utils";
+import { parsePattern } from "@/lib/regex-ast";
+
+/**
+ * Kinds of pattern syntax coloured differently in the output
+ */
+export type PatternTokenKind =
+  | "literal"
+  | "escape"
+  | "class"
+  | "any"
+  | "anchor"
+  | "group"
+  | "quantifier"
+  | "alternation"
+  | "backreference";
+
+/**
+ * One piece of pattern syntax, with offsets into the source
+ */
+export interface PatternToken {
+  kind: PatternTokenKind;
+  start: number;
+  end: number;
+}
+
+/**
+ * A run of pattern source with one token kind, emitted by one criterion
+ */
+export interface PatternSegment {
+  text: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Token kind for colouring; undefined when the source could not be parsed */
+  kind?: PatternTokenKind;
+  /** Innermost criterion whose source covers this text, if any */
+  criterionId?: string;
+}
+
+/**
+ * Splits pattern source into tokens for syntax colouring
+ * Groups contribute their opening and closing parentheses, quantifiers their suffix and
+ * alternations each `|`, so the tokens never overlap.
+ *
+ * @param source - Pattern source without slashes
+ * @param flags - Flag string, which changes how escapes parse in Unicode mode
+ * @returns Tokens in source order, or an empty list when the source doesn't parse
+ *
+ * @example
+ * tokenizePattern("(a|b)+")
+ * // group "(", literal "a", alternation "|", literal "b", group ")", quantifier "+"
+ */
+export function tokenizePattern(source: string, flags = ""): PatternToken[] {
+  const tokens: PatternToken[] = [];
+  const add = (kind: PatternTokenKind, start: number, end: number) => {
+    if (end > start) tokens.push({ kind, start, end });
+  };
+
+  const walk = (node: RegexNode) => {
+    switch (node.kind) {
+      case "alternation":
+        node.branches.forEach((branch, i) => {
+          if (i > 0) add("alternation", branch.start - 1, branch.start);
+          walk(branch);
+        });
+        break;
+      case "sequence":
+        node.items.forEach(walk);
+        break;
+      case "group":
+        add("group", node.start, node.body.start);
+        walk(node.body);
+        add("group", node.body.end, node.end);
+        break;
+      case "quantifier":
+        walk(node.body);
+        add("quantifier", node.body.end, node.end);
+        break;
+      case "literal":
+        add("literal", node.start, node.end);
+        break;
+      case "class_escape":
+        add("escape", node.start, node.end);
+        break;
+      case "char_class":
+        add("class", node.start, node.end);
+        break;
+      case "any":
+        add("any", node.start, node.end);
+        break;
+      case "assertion":
+        add("anchor", node.start, node.end);
+        break;
+      case "backreference":
+        add("backreference", node.start, node.end);
+        break;
+    }
+  };
+
+  try {
+    walk(parsePattern(source, flags));
+  } catch {
+    return [];
+  }
+  return tokens;
+}
+
+/**
+ * Records how deeply each criterion is nested, so the innermost of several covering spans wins
+ */
+function criterionDepths(
+  criteria: RegexCriterion[],
+  depth = 0,
+  depths = new Map<string, number>()
+): Map<string, number> {
+  criteria.forEach((c) => {
+    depths.set(c.id, depth);
+    criterionDepths(c.children ?? [], depth + 1, depths);
+  });
+  return depths;
+}
+
+/**
+ * Splits a built pattern into segments for source-map highlighting and syntax colouring
+ * Each segment has one token kind and belongs to the innermost criterion that emitted it,
+ * including parentheses the builder added to group it for a quantifier or neighbour.
+ *
+ * @param built - Result of compileCriteria()
+ * @param criteria - The criteria it was built from, to tell nested criteria apart
+ * @returns Segments covering the whole source, in order
+ *
+ * @example
+ * highlightPattern(compileCriteria(criteria, flags), criteria)
+ * // [{ text: "^", start: 0, kind: "anchor", criterionId: "a" }, ...]
+ */
+export function highlightPattern(built: BuiltRegex, criteria: RegexCriterion[]): PatternSegment[] {
+  const { source, spans } = built;
+  const tokens = tokenizePattern(source, built.flags);
+  const depths = criterionDepths(criteria);
+  const spanEntries = Object.entries(spans);
+
+  const boundaries = new Set([0, source.length]);
+  tokens.forEach((t) => boundaries.add(t.start).add(t.end));
+  spanEntries.forEach(([, s]) => boundaries.add(s.start).add(s.end));
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: PatternSegment[] = [];
+  points.slice(0, -1).forEach((start, i) => {
+    const end = points[i + 1];
+    const segment: PatternSegment = { text: source.slice(start, end), start };
+    const token = tokens.find((t) => t.start <= start && end <= t.end);
+    if (token) segment.kind = token.kind;
+    let innermost = -1;
+    spanEntries.forEach(([id, s]) => {
+      const depth = depths.get(id) ?? 0;
+      if (s.start <= start && end <= s.end && depth > innermost) {
+        segment.criterionId = id;
+        innermost = depth;
+      }
+    });
+    // Literal characters are one token each; join runs so a word is one segment
+    const last = segments[segments.length - 1];
+    if (last && last.kind === segment.kind && last.criterionId === segment.criterionId) {
+      last.text += segment.text;
+    } else {
+      segments.push(segment);
+    }
+  });
+  return segments;
+}
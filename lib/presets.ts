@@ -0,0 +1,472 @@
+import type { RegexCriterion, RegexPreset, RegexTestCase } from "@/types/regex";
+import { DEFAULT_FLAGS } from "@/lib/constants";
+import { cloneCriteria } from "@/lib/criteria-tree";
+import { generateId } from "@/lib/regex-utils";
+
+/**
+ * Shorthand for a preset criterion; ids only need to be unique within a preset
+ */
+function c(
+  id: string,
+  type: string,
+  value = "",
+  quantifier = "one",
+  extra: Partial<RegexCriterion> = {}
+): RegexCriterion {
+  return { id, type, value, quantifier, ...extra };
+}
+
+/**
+ * Shorthand for a container criterion with children
+ */
+function container(
+  id: string,
+  type: string,
+  children: RegexCriterion[],
+  quantifier = "one",
+  extra: Partial<RegexCriterion> = {}
+): RegexCriterion {
+  return { id, type, value: "", quantifier, children, ...extra };
+}
+
+/**
+ * Shorthand for bundled test cases: strings that should match, then strings that shouldn't
+ */
+function cases(presetId: string, matching: string[], notMatching: string[]): RegexTestCase[] {
+  return [
+    ...matching.map((input, i) => ({ id: `${presetId}-match-${i}`, input, shouldMatch: true })),
+    ...notMatching.map((input, i) => ({
+      id: `${presetId}-miss-${i}`,
+      input,
+      shouldMatch: false,
+    })),
+  ];
+}
+
+/**
+ * One IPv4 octet, 0-255 without leading zeros
+ */
+function octet(id: string): RegexCriterion {
+  return container(id, "or", [
+    container(`${id}-25x`, "sequence", [
+      c(`${id}-25`, "literal", "25"),
+      c(`${id}-0-5`, "custom_class", "0-5"),
+    ]),
+    container(`${id}-2xx`, "sequence", [
+      c(`${id}-2`, "literal", "2"),
+      c(`${id}-0-4`, "custom_class", "0-4"),
+      c(`${id}-2d`, "digit"),
+    ]),
+    container(`${id}-1xx`, "sequence", [
+      c(`${id}-1`, "literal", "1"),
+      c(`${id}-1d`, "digit", "", "exactly", { min: 2 }),
+    ]),
+    container(`${id}-xx`, "sequence", [
+      c(`${id}-1-9`, "custom_class", "1-9", "optional"),
+      c(`${id}-d`, "digit"),
+    ]),
+  ]);
+}
+
+/**
+ * One to four hex digits, an IPv6 group
+ */
+function hextet(id: string): RegexCriterion {
+  return c(id, "custom_class", "0-9a-fA-F", "between", { min: 1, max: 4 });
+}
+
+/**
+ * Up to seven colon-separated IPv6 groups, one side of a "::"
+ */
+function hextets(id: string): RegexCriterion {
+  return container(
+    id,
+    "sequence",
+    [
+      hextet(`${id}-first`),
+      container(
+        `${id}-rest`,
+        "sequence",
+        [c(`${id}-colon`, "literal", ":"), hextet(`${id}-next`)],
+        "between",
+        { min: 0, max: 6 }
+      ),
+    ],
+    "optional"
+  );
+}
+
+/**
+ * A semver number: 0 or a number without leading zeros
+ */
+function versionNumber(id: string, name: string): RegexCriterion {
+  return container(
+    id,
+    "named_group",
+    [
+      container(`${id}-or`, "or", [
+        c(`${id}-zero`, "literal", "0"),
+        container(`${id}-n`, "sequence", [
+          c(`${id}-lead`, "custom_class", "1-9"),
+          c(`${id}-digits`, "digit", "", "zero_or_more"),
+        ]),
+      ]),
+    ],
+    "one",
+    { value: name }
+  );
+}
+
+/**
+ * Dot-separated identifiers of letters, digits and hyphens (semver pre-release and build)
+ */
+function identifiers(id: string): RegexCriterion[] {
+  return [
+    c(`${id}-first`, "custom_class", "0-9A-Za-z-", "one_or_more"),
+    container(
+      `${id}-rest`,
+      "sequence",
+      [
+        c(`${id}-dot`, "literal", "."),
+        c(`${id}-next`, "custom_class", "0-9A-Za-z-", "one_or_more"),
+      ],
+      "zero_or_more"
+    ),
+  ];
+}
+
+/**
+ * The preset library, in the order the picker lists it
+ */
+export const REGEX_PRESETS: RegexPreset[] = [
+  {
+    id: "email",
+    name: "Email address",
+    description:
+      "A practical email address check: name@domain.tld with a two-letter or longer TLD.",
+    limitations: [
+      "Rejects quoted local parts and IP-address domains, which are valid but rare",
+      "Allows consecutive or leading dots in the part before @",
+      "Doesn't check length limits (64 before @, 254 overall)",
+    ],
+    keywords: ["mail", "e-mail", "address"],
+    criteria: [
+      c("local", "custom_class", "\\w.+-", "one_or_more"),
+      c("at", "literal", "@"),
+      c("label", "custom_class", "a-zA-Z0-9-", "one_or_more"),
+      container(
+        "labels",
+        "sequence",
+        [
+          c("labels-dot", "literal", "."),
+          c("labels-label", "custom_class", "a-zA-Z0-9-", "one_or_more"),
+        ],
+        "zero_or_more"
+      ),
+      c("tld-dot", "literal", "."),
+      c("tld", "custom_class", "a-zA-Z", "at_least", { min: 2 }),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "email",
+      ["jane.doe+news@example.co.uk", "x_1@mail-server.io"],
+      ["user@localhost", "@example.com", "jane@exa_mple.com", "jane@example.c"]
+    ),
+  },
+  {
+    id: "url",
+    name: "URL (http/https)",
+    description: "A web address with http or https, a dotted host name, an optional port and path.",
+    limitations: [
+      "Only http and https; no ftp, mailto or other schemes",
+      "Needs a dotted host, so http://localhost doesn't match",
+      "No IPv6 hosts or user:password@ parts; the port range isn't checked",
+    ],
+    keywords: ["link", "web", "http", "https", "address"],
+    criteria: [
+      c("scheme", "literal", "http"),
+      c("secure", "literal", "s", "optional"),
+      c("separator", "literal", "://"),
+      c("host", "custom_class", "\\w-", "one_or_more"),
+      container(
+        "domains",
+        "sequence",
+        [
+          c("domains-dot", "literal", "."),
+          c("domains-label", "custom_class", "\\w-", "one_or_more"),
+        ],
+        "one_or_more"
+      ),
+      container(
+        "port",
+        "sequence",
+        [
+          c("port-colon", "literal", ":"),
+          c("port-number", "digit", "", "between", { min: 1, max: 5 }),
+        ],
+        "optional"
+      ),
+      container(
+        "rest",
+        "sequence",
+        [c("rest-start", "custom_class", "/?#"), c("rest-chars", "not", "\\s", "zero_or_more")],
+        "optional"
+      ),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "url",
+      ["https://example.com/path?q=1#top", "http://sub.example.org:8080"],
+      ["ftp://example.com", "https://localhost", "https://exa mple.com", "example.com"]
+    ),
+  },
+  {
+    id: "uuid",
+    name: "UUID",
+    description: "A UUID such as 123e4567-e89b-12d3-a456-426614174000, versions 1 to 8 (RFC 9562).",
+    limitations: [
+      "Rejects the nil (all zeros) and max (all f) UUIDs",
+      "Requires the dashes; braces and URN prefixes aren't accepted",
+    ],
+    keywords: ["guid", "identifier", "id"],
+    criteria: [
+      c("time-low", "custom_class", "0-9a-fA-F", "exactly", { min: 8 }),
+      c("dash-1", "literal", "-"),
+      c("time-mid", "custom_class", "0-9a-fA-F", "exactly", { min: 4 }),
+      c("dash-2", "literal", "-"),
+      c("version", "custom_class", "1-8"),
+      c("time-high", "custom_class", "0-9a-fA-F", "exactly", { min: 3 }),
+      c("dash-3", "literal", "-"),
+      c("variant", "custom_class", "89abAB"),
+      c("clock-seq", "custom_class", "0-9a-fA-F", "exactly", { min: 3 }),
+      c("dash-4", "literal", "-"),
+      c("node", "custom_class", "0-9a-fA-F", "exactly", { min: 12 }),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "uuid",
+      ["123e4567-e89b-12d3-a456-426614174000", "F47AC10B-58CC-4372-A567-0E02B2C3D479"],
+      [
+        "00000000-0000-0000-0000-000000000000",
+        "123e4567e89b12d3a456426614174000",
+        "123e4567-e89b-12d3-c456-426614174000",
+      ]
+    ),
+  },
+  {
+    id: "ipv4",
+    name: "IPv4 address",
+    description: "Four numbers from 0 to 255 separated by dots, such as 192.168.0.1.",
+    limitations: [
+      "Rejects leading zeros (01.2.3.4), which some tools read as octal",
+      "No CIDR suffix such as /24",
+    ],
+    keywords: ["ip", "address", "network"],
+    criteria: [
+      octet("first"),
+      container("rest", "sequence", [c("rest-dot", "literal", "."), octet("octet")], "exactly", {
+        min: 3,
+      }),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "ipv4",
+      ["192.168.0.1", "255.255.255.255", "0.0.0.0"],
+      ["256.1.1.1", "01.2.3.4", "1.2.3", "1.2.3.4.5"]
+    ),
+  },
+  {
+    id: "ipv6",
+    name: "IPv6 address",
+    description:
+      "Eight groups of hex digits separated by colons, or fewer with :: standing for zeros.",
+    limitations: [
+      "With ::, the total number of groups isn't checked, so up to 14 are accepted",
+      "No embedded IPv4 (::ffff:192.0.2.1) or zone ids (%eth0)",
+    ],
+    keywords: ["ip", "address", "network"],
+    criteria: [
+      container("forms", "or", [
+        container("full", "sequence", [
+          container(
+            "full-groups",
+            "sequence",
+            [hextet("full-group"), c("full-colon", "literal", ":")],
+            "exactly",
+            {
+              min: 7,
+            }
+          ),
+          hextet("full-last"),
+        ]),
+        container("compressed", "sequence", [
+          hextets("before"),
+          c("double-colon", "literal", "::"),
+          hextets("after"),
+        ]),
+      ]),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "ipv6",
+      ["2001:db8:85a3:0:0:8a2e:370:7334", "2001:db8::1", "::1", "::"],
+      ["2001:db8:::1", "12345::1", "1:2:3:4:5:6:7", "2001:db8::g"]
+    ),
+  },
+  {
+    id: "iso-date",
+    name: "ISO 8601 date",
+    description: "A calendar date as YYYY-MM-DD, with the year, month and day as named groups.",
+    limitations: [
+      "Accepts impossible days such as 2023-02-30",
+      "Dates only; no times, week dates or time zones",
+    ],
+    keywords: ["date", "iso", "yyyy-mm-dd", "calendar"],
+    criteria: [
+      container(
+        "year",
+        "named_group",
+        [c("year-digits", "digit", "", "exactly", { min: 4 })],
+        "one",
+        {
+          value: "year",
+        }
+      ),
+      c("dash-1", "literal", "-"),
+      container(
+        "month",
+        "named_group",
+        [
+          container("month-or", "or", [
+            container("month-0x", "sequence", [
+              c("month-0", "literal", "0"),
+              c("month-1-9", "custom_class", "1-9"),
+            ]),
+            container("month-1x", "sequence", [
+              c("month-1", "literal", "1"),
+              c("month-0-2", "custom_class", "0-2"),
+            ]),
+          ]),
+        ],
+        "one",
+        { value: "month" }
+      ),
+      c("dash-2", "literal", "-"),
+      container(
+        "day",
+        "named_group",
+        [
+          container("day-or", "or", [
+            container("day-0x", "sequence", [
+              c("day-0", "literal", "0"),
+              c("day-1-9", "custom_class", "1-9"),
+            ]),
+            container("day-12x", "sequence", [
+              c("day-1-2", "custom_class", "12"),
+              c("day-digit", "digit"),
+            ]),
+            container("day-3x", "sequence", [
+              c("day-3", "literal", "3"),
+              c("day-0-1", "custom_class", "01"),
+            ]),
+          ]),
+        ],
+        "one",
+        { value: "day" }
+      ),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "iso-date",
+      ["2024-02-29", "1999-12-31"],
+      ["2024-13-01", "2024-1-01", "2024-00-10", "2024-01-32"]
+    ),
+  },
+  {
+    id: "semver",
+    name: "Semantic version",
+    description:
+      "A SemVer 2.0 version such as 1.4.2-beta.1+build.5, with major, minor and patch as named groups.",
+    limitations: [
+      "Allows leading zeros in numeric pre-release parts (1.0.0-01), which SemVer forbids",
+      "No leading v; strip it first or add an optional literal",
+    ],
+    keywords: ["version", "semver", "release"],
+    criteria: [
+      versionNumber("major", "major"),
+      c("dot-1", "literal", "."),
+      versionNumber("minor", "minor"),
+      c("dot-2", "literal", "."),
+      versionNumber("patch", "patch"),
+      container(
+        "prerelease",
+        "sequence",
+        [c("prerelease-dash", "literal", "-"), ...identifiers("prerelease")],
+        "optional"
+      ),
+      container(
+        "build",
+        "sequence",
+        [c("build-plus", "literal", "+"), ...identifiers("build")],
+        "optional"
+      ),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "semver",
+      ["1.0.0", "2.10.3-beta.1+build.5", "0.1.0-rc-1"],
+      ["1.0", "01.0.0", "1.0.0-", "v1.0.0"]
+    ),
+  },
+  {
+    id: "credit-card",
+    name: "Credit card number",
+    description: "13 to 19 digits, optionally split into groups by single spaces or dashes.",
+    limitations: [
+      "Doesn't verify the Luhn checksum or the card network's number prefix",
+      "Accepts separators anywhere, not only between groups of four",
+    ],
+    keywords: ["card", "visa", "mastercard", "payment", "pan"],
+    criteria: [
+      container(
+        "digits",
+        "sequence",
+        [c("digit", "digit"), c("separator", "custom_class", " -", "optional")],
+        "between",
+        { min: 12, max: 18 }
+      ),
+      c("last", "digit"),
+    ],
+    flags: DEFAULT_FLAGS,
+    tests: cases(
+      "credit-card",
+      ["4111 1111 1111 1111", "4111111111111111", "5500-0000-0000-0004"],
+      ["4111 1111", "4111  1111 1111 1111", "4111 1111 1111 111a"]
+    ),
+  },
+];
+
+/**
+ * Criteria for inserting a preset, with fresh ids so it can be inserted more than once
+ *
+ * @param preset - Preset to insert
+ * @param whole - True to anchor the pattern to the whole input, as its tests expect;
+ *   false to return just the body for appending to other criteria
+ * @returns Criteria ready to put in the builder
+ */
+export function presetCriteria(preset: RegexPreset, whole: boolean): RegexCriterion[] {
+  const body = cloneCriteria(preset.criteria);
+  if (!whole) return body;
+  return [
+    { id: generateId(), type: "input_start", value: "", quantifier: "one" },
+    ...body,
+    { id: generateId(), type: "input_end", value: "", quantifier: "one" },
+  ];
+}
+
+/**
+ * A preset's bundled test cases with fresh ids, for a spell's test suite
+ */
+export function presetTests(preset: RegexPreset): RegexTestCase[] {
+  return preset.tests.map((t) => ({ ...t, id: generateId() }));
+}
@@ -0,0 +1,670 @@
+import type { RegexCriterion, RegexFlags, RegexNode } from "@/types/regex";
+import { parsePattern } from "@/lib/regex-ast";
+import {
+  getGroupNumbers,
+  getQuantifierError,
+  hasChildren,
+  validateGroupReferences,
+} from "@/lib/regex-utils";
+import { UNQUANTIFIED_TYPES } from "@/lib/constants";
+
+/**
+ * A box on the track: text, a character class, an anchor or a backreference
+ */
+export interface RailroadTerminal {
+  kind: "terminal";
+  label: string;
+  /** Decides the box colour and shape (anchors are pills) */
+  tone: "literal" | "class" | "anchor" | "reference";
+  criterionId?: string;
+}
+
+/** Nodes passed one after another */
+export interface RailroadSequence {
+  kind: "sequence";
+  items: RailroadNode[];
+  criterionId?: string;
+}
+
+/** Parallel tracks, one per alternative */
+export interface RailroadChoice {
+  kind: "choice";
+  branches: RailroadNode[];
+  criterionId?: string;
+}
+
+/** A labelled frame around a group or lookaround */
+export interface RailroadGroup {
+  kind: "group";
+  /** Caption above the frame, e.g. "#1 year" or "followed by" ("" for none) */
+  label: string;
+  body: RailroadNode;
+  /** Lookarounds check without consuming text and are drawn dashed */
+  lookaround: boolean;
+  criterionId?: string;
+}
+
+/** A node with a loop back (repeats) and/or a bypass (optional) */
+export interface RailroadRepeat {
+  kind: "repeat";
+  body: RailroadNode;
+  min: number;
+  /** Upper bound, or null when unbounded */
+  max: number | null;
+  lazy: boolean;
+  criterionId?: string;
+}
+
+/**
+ * A node in a railroad (syntax) diagram
+ */
+export type RailroadNode =
+  | RailroadTerminal
+  | RailroadSequence
+  | RailroadChoice
+  | RailroadGroup
+  | RailroadRepeat;
+
+/**
+ * A rendered diagram
+ */
+export interface RailroadSvg {
+  /** Standalone SVG document with inline styles, safe to save as a file */
+  markup: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Captions for lookaround frames, keyed by criterion type and parser group kind alike
+ */
+const LOOKAROUND_LABELS: Record<string, string> = {
+  lookahead: "followed by",
+  negative_lookahead: "not followed by",
+  lookbehind: "preceded by",
+  negative_lookbehind: "not preceded by",
+};
+
+/**
+ * Settings shared while converting one set of criteria
+ */
+interface DiagramContext {
+  flags: RegexFlags;
+  groupNumbers: Map<string, number>;
+  invalidIds: Set<string>;
+}
+
+/**
+ * Writes control characters as escapes: XML forbids most of them, so the SVG wouldn't load,
+ * and the rest are invisible in a box
+ */
+function showControlCharacters(label: string): string {
+  const named: Record<string, string> = { "\n": "\\n", "\r": "\\r", "\t": "\\t" };
+  return Array.from(label, (ch) => {
+    const code = ch.charCodeAt(0);
+    if (code >= 0x20 && code !== 0x7f) return ch;
+    return named[ch] ?? `\\x${code.toString(16).toUpperCase().padStart(2, "0")}`;
+  }).join("");
+}
+
+const terminal = (
+  label: string,
+  tone: RailroadTerminal["tone"],
+  criterionId?: string
+): RailroadTerminal => ({
+  kind: "terminal",
+  label: showControlCharacters(label),
+  tone,
+  criterionId,
+});
+
+/**
+ * Wraps several nodes in a sequence, or returns a lone node as is
+ */
+function sequence(items: RailroadNode[], criterionId?: string): RailroadNode {
+  return items.length === 1 && !criterionId ? items[0] : { kind: "sequence", items, criterionId };
+}
+
+/**
+ * Converts a parsed pattern node, attributing every part to one criterion
+ * Used for raw fragments and legacy group values, which have no child criteria
+ */
+function astToRailroad(node: RegexNode, source: string, criterionId: string): RailroadNode {
+  const convert = (n: RegexNode) => astToRailroad(n, source, criterionId);
+  switch (node.kind) {
+    case "alternation":
+      return { kind: "choice", branches: node.branches.map(convert), criterionId };
+    case "sequence": {
+      // Runs of literal characters read better as one box: "abc" rather than "a" "b" "c"
+      const items: RailroadNode[] = [];
+      let run = "";
+      const flush = () => {
+        if (run) items.push(terminal(`"${run}"`, "literal", criterionId));
+        run = "";
+      };
+      for (const item of node.items) {
+        if (item.kind === "literal") {
+          run += item.char;
+        } else {
+          flush();
+          items.push(convert(item));
+        }
+      }
+      flush();
+      return sequence(items);
+    }
+    case "group": {
+      const body = convert(node.body);
+      if (node.group === "non_capture") return body;
+      const lookaround = LOOKAROUND_LABELS[node.group];
+      const label = lookaround ?? (node.group === "named" ? `group ${node.name}` : "group");
+      return { kind: "group", label, body, lookaround: !!lookaround, criterionId };
+    }
+    case "quantifier":
+      return {
+        kind: "repeat",
+        body: convert(node.body),
+        min: node.min,
+        max: node.max,
+        lazy: node.lazy,
+        criterionId,
+      };
+    case "literal":
+      return terminal(`"${node.char}"`, "literal", criterionId);
+    case "any":
+      return terminal("any char", "class", criterionId);
+    case "class_escape":
+      return terminal(`\\${node.escape}`, "class", criterionId);
+    case "char_class":
+      return terminal(source.slice(node.start, node.end), "class", criterionId);
+    case "assertion": {
+      const labels = {
+        start: "start",
+        end: "end",
+        word_boundary: "word boundary",
+        non_word_boundary: "not word boundary",
+      };
+      return terminal(labels[node.assertion], "anchor", criterionId);
+    }
+    case "backreference":
+      return terminal(
+        `same as ${/^\d+$/.test(node.ref) ? `#${node.ref}` : node.ref}`,
+        "reference",
+        criterionId
+      );
+  }
+}
+
+/**
+ * Converts pattern source attributed to one criterion, falling back to a plain box
+ */
+function patternToRailroad(source: string, criterionId: string, flags: RegexFlags): RailroadNode {
+  try {
+    const flagStr = flags.unicodeSets ? "v" : flags.unicode ? "u" : "";
+    return astToRailroad(parsePattern(source, flagStr), source, criterionId);
+  } catch {
+    return terminal(source, "literal", criterionId);
+  }
+}
+
+/**
+ * Returns the min/max/lazy repetition of a criterion, or null when it matches exactly once
+ * Mirrors buildRegex(): invalid counts and unquantified types do not repeat
+ */
+function repetition(c: RegexCriterion): Omit<RailroadRepeat, "kind" | "body"> | null {
+  if (UNQUANTIFIED_TYPES.includes(c.type) || getQuantifierError(c)) return null;
+  const min = c.min ?? 0;
+  switch (c.quantifier) {
+    case "zero_or_more":
+    case "lazy":
+      return { min: 0, max: null, lazy: c.quantifier === "lazy", criterionId: c.id };
+    case "one_or_more":
+    case "one_or_more_lazy":
+      return { min: 1, max: null, lazy: c.quantifier !== "one_or_more", criterionId: c.id };
+    case "optional":
+    case "optional_lazy":
+      return { min: 0, max: 1, lazy: c.quantifier !== "optional", criterionId: c.id };
+    case "exactly":
+      return { min, max: min, lazy: false, criterionId: c.id };
+    case "at_least":
+    case "at_least_lazy":
+      return { min, max: null, lazy: c.quantifier !== "at_least", criterionId: c.id };
+    case "between":
+    case "between_lazy":
+      return { min, max: c.max ?? min, lazy: c.quantifier !== "between", criterionId: c.id };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts one criterion, or returns null when buildRegex() leaves it out
+ */
+function criterionToRailroad(c: RegexCriterion, context: DiagramContext): RailroadNode | null {
+  const { flags } = context;
+  const id = c.id;
+  const where = flags.multiline ? "line" : "text";
+  const contents = (children: RegexCriterion[]) => criteriaToRailroad(children, context);
+  let node: RailroadNode;
+
+  switch (c.type) {
+    case "starts_with":
+      node = sequence(
+        [terminal(`start of ${where}`, "anchor", id), terminal(`"${c.value}"`, "literal", id)],
+        id
+      );
+      break;
+    case "ends_with":
+      node = sequence(
+        [terminal(`"${c.value}"`, "literal", id), terminal(`end of ${where}`, "anchor", id)],
+        id
+      );
+      break;
+    case "exact":
+      node = sequence(
+        [
+          terminal(`start of ${where}`, "anchor", id),
+          terminal(`"${c.value}"`, "literal", id),
+          terminal(`end of ${where}`, "anchor", id),
+        ],
+        id
+      );
+      break;
+    case "word_boundary":
+      node = terminal("word boundary", "anchor", id);
+      break;
+    case "non_word_boundary":
+      node = terminal("not word boundary", "anchor", id);
+      break;
+    case "line_start":
+      node = terminal(`start of ${where}`, "anchor", id);
+      break;
+    case "line_end":
+      node = terminal(`end of ${where}`, "anchor", id);
+      break;
+    case "input_start":
+      node = terminal("start of text", "anchor", id);
+      break;
+    case "input_end":
+      node = terminal("end of text", "anchor", id);
+      break;
+    case "digit":
+      node = terminal("digit", "class", id);
+      break;
+    case "word_char":
+      node = terminal("word char", "class", id);
+      break;
+    case "whitespace":
+      node = terminal("whitespace", "class", id);
+      break;
+    case "any_char":
+      node = terminal(flags.dotAll ? "any char" : "any char but newline", "class", id);
+      break;
+    case "letter_upper":
+      node = terminal("A-Z", "class", id);
+      break;
+    case "letter_lower":
+      node = terminal("a-z", "class", id);
+      break;
+    case "custom_class":
+      node = terminal(`[${c.value}]`, "class", id);
+      break;
+    case "not":
+      node = terminal(`[^${c.value}]`, "class", id);
+      break;
+    case "unicode_property":
+    case "not_unicode_property":
+      if (!c.value) return null;
+      node = terminal(`\\${c.type === "unicode_property" ? "p" : "P"}{${c.value}}`, "class", id);
+      break;
+    case "group":
+    case "named_group": {
+      const number = context.groupNumbers.get(id);
+      const named = c.type === "named_group" && !context.invalidIds.has(id);
+      const body =
+        c.type === "group" && !hasChildren(c)
+          ? patternToRailroad(c.value, id, flags)
+          : contents(c.children ?? []);
+      node = {
+        kind: "group",
+        label: named ? `#${number} ${c.value}` : `#${number}`,
+        body,
+        lookaround: false,
+        criterionId: id,
+      };
+      break;
+    }
+    case "sequence":
+      node = {
+        kind: "group",
+        label: "",
+        body: contents(c.children ?? []),
+        lookaround: false,
+        criterionId: id,
+      };
+      break;
+    case "or":
+      node = {
+        kind: "choice",
+        branches: hasChildren(c)
+          ? c.children.map((child) => contents([child]))
+          : c.value.split(",").map((s) => terminal(`"${s.trim()}"`, "literal", id)),
+        criterionId: id,
+      };
+      break;
+    case "lookahead":
+    case "negative_lookahead":
+    case "lookbehind":
+    case "negative_lookbehind":
+      node = {
+        kind: "group",
+        label: LOOKAROUND_LABELS[c.type] ?? "",
+        body: hasChildren(c) ? contents(c.children) : terminal(`"${c.value}"`, "literal", id),
+        lookaround: true,
+        criterionId: id,
+      };
+      break;
+    case "backreference":
+      if (context.invalidIds.has(id)) return null;
+      node = terminal(
+        `same as ${/^\d+$/.test(c.value) ? `#${c.value}` : c.value}`,
+        "reference",
+        id
+      );
+      break;
+    case "raw":
+      node = patternToRailroad(c.value, id, flags);
+      break;
+    default:
+      node = terminal(`"${c.value}"`, "literal", id);
+  }
+
+  const repeat = repetition(c);
+  return repeat ? { kind: "repeat", body: node, ...repeat } : node;
+}
+
+/**
+ * Converts criteria at one nesting level into a sequence
+ */
+function criteriaToRailroad(criteria: RegexCriterion[], context: DiagramContext): RailroadNode {
+  const items = criteria
+    .map((c) => criterionToRailroad(c, context))
+    .filter((n): n is RailroadNode => n !== null);
+  return sequence(items);
+}
+
+/**
+ * Builds a railroad diagram of the pattern buildRegex() produces for these criteria
+ * Every node carries the id of the criterion it came from, so the UI can link the two.
+ * Raw fragments are parsed so their structure is drawn too.
+ *
+ * @param criteria - Criteria to draw
+ * @param flags - Regex flags (m and s change anchor and dot labels)
+ * @returns Root node of the diagram
+ */
+export function buildRailroad(criteria: RegexCriterion[], flags: RegexFlags): RailroadNode {
+  return criteriaToRailroad(criteria, {
+    flags,
+    groupNumbers: getGroupNumbers(criteria),
+    invalidIds: new Set(validateGroupReferences(criteria).map((e) => e.criterionId)),
+  });
+}
+
+// Layout, in pixels. Text is monospace, so its width follows from its length.
+const CHAR_WIDTH = 7.2;
+const SMALL_CHAR_WIDTH = 6;
+const BOX_HALF_HEIGHT = 12;
+const BOX_PADDING = 10;
+const GAP = 12;
+const ARC = 8;
+const FRAME_PADDING = 10;
+const CAPTION_HEIGHT = 14;
+const MARGIN = 16;
+
+const COLORS = {
+  background: "#09090b",
+  line: "#8c8c8c",
+  text: "#f2f2f2",
+  caption: "#8c8c8c",
+  box: "#131316",
+  literal: "#ffcc33",
+  class: "#60a5fa",
+  anchor: "#8c8c8c",
+  reference: "#4ade80",
+};
+
+/**
+ * Space a node takes: width, and height above and below the track it sits on
+ */
+interface Extent {
+  width: number;
+  up: number;
+  down: number;
+}
+
+function textWidth(text: string, charWidth = CHAR_WIDTH): number {
+  return Math.ceil(Array.from(text).length * charWidth);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+/**
+ * Caption under a repeat loop, e.g. "2-4 times, lazy"
+ */
+function repeatCaption(node: RailroadRepeat): string {
+  const { min, max } = node;
+  let count = "";
+  if (max === null && min > 1) count = `${min}+ times`;
+  else if (max !== null && min === max && max > 1) count = `${min} times`;
+  else if (max !== null && max > 1) count = `${min}-${max} times`;
+  return [count, node.lazy ? "lazy" : ""].filter(Boolean).join(", ");
+}
+
+/**
+ * Extents already computed; nodes are never mutated after buildRailroad() returns them
+ */
+const extents = new WeakMap<RailroadNode, Extent>();
+
+function measure(node: RailroadNode): Extent {
+  let extent = extents.get(node);
+  if (!extent) {
+    extent = computeExtent(node);
+    extents.set(node, extent);
+  }
+  return extent;
+}
+
+function computeExtent(node: RailroadNode): Extent {
+  switch (node.kind) {
+    case "terminal":
+      return {
+        width: textWidth(node.label) + 2 * BOX_PADDING,
+        up: BOX_HALF_HEIGHT,
+        down: BOX_HALF_HEIGHT,
+      };
+    case "sequence": {
+      if (node.items.length === 0) return { width: 2 * GAP, up: 0, down: 0 };
+      const extents = node.items.map(measure);
+      return {
+        width: extents.reduce((sum, e) => sum + e.width, 0) + GAP * (extents.length - 1),
+        up: Math.max(...extents.map((e) => e.up)),
+        down: Math.max(...extents.map((e) => e.down)),
+      };
+    }
+    case "choice": {
+      const extents = node.branches.map(measure);
+      const [first, ...rest] = extents;
+      return {
+        width: Math.max(...extents.map((e) => e.width)) + 4 * ARC,
+        up: first.up,
+        down: first.down + rest.reduce((sum, e) => sum + GAP + e.up + e.down, 0),
+      };
+    }
+    case "group": {
+      const body = measure(node.body);
+      const caption = node.label ? textWidth(node.label, SMALL_CHAR_WIDTH) : 0;
+      return {
+        width: Math.max(body.width, caption) + 2 * FRAME_PADDING,
+        up: body.up + FRAME_PADDING + (node.label ? CAPTION_HEIGHT : 0),
+        down: body.down + FRAME_PADDING,
+      };
+    }
+    case "repeat": {
+      const body = measure(node.body);
+      const caption = repeatCaption(node);
+      const loops = node.max === null || node.max > 1;
+      return {
+        width: Math.max(body.width + 4 * ARC, textWidth(caption, SMALL_CHAR_WIDTH) + 2 * ARC),
+        up: node.min === 0 ? Math.max(body.up, ARC) + ARC : body.up,
+        down: (loops ? Math.max(body.down, ARC) + ARC : body.down) + (caption ? CAPTION_HEIGHT : 0),
+      };
+    }
+  }
+}
+
+const line = (d: string) => `<path class="rr-line" d="${d}"/>`;
+
+/**
+ * Opens a hover target for nodes that came from a criterion
+ */
+function openGroup(criterionId?: string): string {
+  return criterionId ? `<g class="rr-node" data-criterion-id="${escapeXml(criterionId)}">` : "<g>";
+}
+
+/**
+ * Draws a node with its track at height y, starting at x
+ */
+function draw(node: RailroadNode, x: number, y: number): string {
+  const extent = measure(node);
+  switch (node.kind) {
+    case "terminal": {
+      const color = COLORS[node.tone];
+      const radius = node.tone === "anchor" ? BOX_HALF_HEIGHT : 4;
+      return (
+        openGroup(node.criterionId) +
+        `<rect x="${x}" y="${y - BOX_HALF_HEIGHT}" width="${extent.width}" height="${2 * BOX_HALF_HEIGHT}" rx="${radius}" fill="${COLORS.box}" stroke="${color}"/>` +
+        `<text x="${x + extent.width / 2}" y="${y + 4}" text-anchor="middle" fill="${COLORS.text}">${escapeXml(node.label)}</text>` +
+        "</g>"
+      );
+    }
+    case "sequence": {
+      if (node.items.length === 0) return line(`M${x} ${y}H${x + extent.width}`);
+      let out = openGroup(node.criterionId);
+      let cx = x;
+      node.items.forEach((item, i) => {
+        if (i > 0) {
+          out += line(`M${cx} ${y}H${cx + GAP}`);
+          cx += GAP;
+        }
+        out += draw(item, cx, y);
+        cx += measure(item).width;
+      });
+      return out + "</g>";
+    }
+    case "choice": {
+      let out = openGroup(node.criterionId);
+      const inner = extent.width - 4 * ARC;
+      const left = x + 2 * ARC;
+      const right = x + extent.width;
+      let by = y;
+      node.branches.forEach((branch, i) => {
+        const b = measure(branch);
+        if (i > 0) by += GAP + b.up;
+        if (i === 0) {
+          out += line(`M${x} ${y}H${left}`);
+        } else {
+          out += line(
+            `M${x} ${y}Q${x + ARC} ${y} ${x + ARC} ${y + ARC}V${by - ARC}Q${x + ARC} ${by} ${left} ${by}`
+          );
+        }
+        out += draw(branch, left, by);
+        if (i === 0) {
+          out += line(`M${left + b.width} ${y}H${right}`);
+        } else {
+          out += line(
+            `M${left + b.width} ${by}H${left + inner}Q${right - ARC} ${by} ${right - ARC} ${by - ARC}V${y + ARC}Q${right - ARC} ${y} ${right} ${y}`
+          );
+        }
+        by += b.down;
+      });
+      return out + "</g>";
+    }
+    case "group": {
+      const body = measure(node.body);
+      const bx = x + (extent.width - body.width) / 2;
+      const top = y - extent.up;
+      const dash = node.lookaround ? ' stroke-dasharray="4 3"' : "";
+      return (
+        openGroup(node.criterionId) +
+        `<rect x="${x}" y="${top}" width="${extent.width}" height="${extent.up + extent.down}" rx="8" fill="transparent" stroke="${COLORS.line}"${dash}/>` +
+        (node.label
+          ? `<text class="rr-caption" x="${x + FRAME_PADDING}" y="${top + CAPTION_HEIGHT}" fill="${COLORS.caption}">${escapeXml(node.label)}</text>`
+          : "") +
+        line(`M${x} ${y}H${bx}`) +
+        draw(node.body, bx, y) +
+        line(`M${bx + body.width} ${y}H${x + extent.width}`) +
+        "</g>"
+      );
+    }
+    case "repeat": {
+      const body = measure(node.body);
+      const bx = x + (extent.width - body.width) / 2;
+      const end = bx + body.width;
+      const right = x + extent.width;
+      const caption = repeatCaption(node);
+      const loops = node.max === null || node.max > 1;
+      let out = openGroup(node.criterionId) + line(`M${x} ${y}H${bx}`) + draw(node.body, bx, y);
+      out += line(`M${end} ${y}H${right}`);
+      if (node.min === 0) {
+        const sy = y - Math.max(body.up, ARC) - ARC;
+        out += line(
+          `M${x} ${y}Q${x + ARC} ${y} ${x + ARC} ${y - ARC}V${sy + ARC}Q${x + ARC} ${sy} ${x + 2 * ARC} ${sy}H${right - 2 * ARC}Q${right - ARC} ${sy} ${right - ARC} ${sy + ARC}V${y - ARC}Q${right - ARC} ${y} ${right} ${y}`
+        );
+      }
+      let captionY = y + body.down;
+      if (loops) {
+        const ly = y + Math.max(body.down, ARC) + ARC;
+        out += line(
+          `M${end} ${y}Q${end + ARC} ${y} ${end + ARC} ${y + ARC}V${ly - ARC}Q${end + ARC} ${ly} ${end} ${ly}H${bx}Q${bx - ARC} ${ly} ${bx - ARC} ${ly - ARC}V${y + ARC}Q${bx - ARC} ${y} ${bx} ${y}`
+        );
+        captionY = ly;
+      }
+      if (caption) {
+        out += `<text class="rr-caption" x="${x + extent.width / 2}" y="${captionY + CAPTION_HEIGHT - 2}" text-anchor="middle" fill="${COLORS.caption}">${escapeXml(caption)}</text>`;
+      }
+      return out + "</g>";
+    }
+  }
+}
+
+/**
+ * Renders a diagram as a standalone SVG document
+ * Styles are inline so the markup looks the same in the page and when saved as a file.
+ *
+ * @param diagram - Root node from buildRailroad()
+ * @returns SVG markup and its size in pixels
+ */
+export function renderRailroadSvg(diagram: RailroadNode): RailroadSvg {
+  const extent = measure(diagram);
+  const width = Math.ceil(extent.width + 2 * MARGIN + 2 * GAP);
+  const height = Math.ceil(extent.up + extent.down + 2 * MARGIN);
+  const y = MARGIN + extent.up;
+  const start = MARGIN;
+  const end = MARGIN + GAP + extent.width + GAP;
+
+  const markup =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<style>text{font-family:ui-monospace,SFMono-Regular,Menlo,Consolas,monospace;font-size:12px}` +
+    `.rr-caption{font-size:10px}.rr-line{fill:none;stroke:${COLORS.line};stroke-width:1.5}` +
+    `.rr-node:hover>rect{stroke-width:2.5}</style>` +
+    `<rect width="${width}" height="${height}" fill="${COLORS.background}"/>` +
+    `<circle cx="${start}" cy="${y}" r="4" fill="${COLORS.line}"/>` +
+    line(`M${start} ${y}H${start + GAP}`) +
+    draw(diagram, start + GAP, y) +
+    line(`M${end - GAP} ${y}H${end}`) +
+    `<circle cx="${end}" cy="${y}" r="4" fill="${COLORS.line}"/>` +
+    "</svg>";
+  return { markup, width, height };
+}
@@ -0,0 +1,264 @@
+import type {
+  RegexAlternationNode,
+  RegexGroupKind,
+  RegexNode,
+  RegexSequenceNode,
+} from "@/types/regex";
+
+/**
+ * Matches a counted quantifier at the start of a string: {n}, {n,} or {n,m}
+ */
+const COUNTED_QUANTIFIER = /^\{(\d+)(,(\d*))?\}/;
+
+/**
+ * Control character escapes and the characters they stand for
+ */
+const CONTROL_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  f: "\f",
+  v: "\v",
+  "0": "\0",
+};
+
+/**
+ * Parses the source of a regex pattern (without slashes or flags) into a syntax tree
+ * Follows JavaScript regex syntax, including the lenient Annex B rules used without the u flag
+ * (e.g. a lone `{` or `]` is a literal). Callers should validate the pattern with `new RegExp`
+ * first; this parser only reports structural errors it cannot recover from.
+ *
+ * @param source - Pattern source, e.g. "^\\d+(?:abc)?"
+ * @param flags - Flag string; `u` and `v` enable `\p{...}` escapes and code point literals
+ * @returns Root node (an alternation or a sequence)
+ * @throws SyntaxError when groups are unbalanced or a quantifier has nothing to repeat
+ *
+ * @example
+ * parsePattern("a|b") // { kind: "alternation", branches: [...] }
+ */
+export function parsePattern(source: string, flags = ""): RegexAlternationNode | RegexSequenceNode {
+  const unicode = flags.includes("u") || flags.includes("v");
+  const unicodeSets = flags.includes("v");
+  let pos = 0;
+
+  function parseDisjunction(): RegexAlternationNode | RegexSequenceNode {
+    const start = pos;
+    const branches = [parseSequence()];
+    while (source[pos] === "|") {
+      pos++;
+      branches.push(parseSequence());
+    }
+    if (branches.length === 1) return branches[0];
+    return { kind: "alternation", branches, start, end: pos };
+  }
+
+  function parseSequence(): RegexSequenceNode {
+    const start = pos;
+    const items: RegexNode[] = [];
+    while (pos < source.length && source[pos] !== "|" && source[pos] !== ")") {
+      items.push(parseQuantifier(parseAtom()));
+    }
+    return { kind: "sequence", items, start, end: pos };
+  }
+
+  function parseQuantifier(atom: RegexNode): RegexNode {
+    let min: number;
+    let max: number | null;
+    const ch = source[pos];
+    if (ch === "*") {
+      min = 0;
+      max = null;
+      pos++;
+    } else if (ch === "+") {
+      min = 1;
+      max = null;
+      pos++;
+    } else if (ch === "?") {
+      min = 0;
+      max = 1;
+      pos++;
+    } else if (ch === "{") {
+      const counted = source.slice(pos).match(COUNTED_QUANTIFIER);
+      if (!counted) return atom;
+      min = Number(counted[1]);
+      max = counted[2] === undefined ? min : counted[3] === "" ? null : Number(counted[3]);
+      pos += counted[0].length;
+    } else {
+      return atom;
+    }
+
+    const lazy = source[pos] === "?";
+    if (lazy) pos++;
+    return { kind: "quantifier", body: atom, min, max, lazy, start: atom.start, end: pos };
+  }
+
+  function parseAtom(): RegexNode {
+    const start = pos;
+    const ch = source[pos];
+
+    switch (ch) {
+      case "(":
+        return parseGroup();
+      case "[":
+        return parseClass();
+      case "\\":
+        return parseEscape();
+      case ".":
+        pos++;
+        return { kind: "any", start, end: pos };
+      case "^":
+        pos++;
+        return { kind: "assertion", assertion: "start", start, end: pos };
+      case "$":
+        pos++;
+        return { kind: "assertion", assertion: "end", start, end: pos };
+      case "*":
+      case "+":
+      case "?":
+        throw new SyntaxError(`Nothing to repeat at position ${pos}`);
+      case "{":
+        if (COUNTED_QUANTIFIER.test(source.slice(pos))) {
+          throw new SyntaxError(`Nothing to repeat at position ${pos}`);
+        }
+        break;
+    }
+
+    const char = unicode ? String.fromCodePoint(source.codePointAt(pos)!) : ch;
+    pos += char.length;
+    return { kind: "literal", char, start, end: pos };
+  }
+
+  function parseGroup(): RegexNode {
+    const start = pos;
+    pos++; // (
+    let group: RegexGroupKind = "capture";
+    let name: string | undefined;
+
+    if (source[pos] === "?") {
+      const prefixes: [string, RegexGroupKind][] = [
+        ["?:", "non_capture"],
+        ["?=", "lookahead"],
+        ["?!", "negative_lookahead"],
+        ["?<=", "lookbehind"],
+        ["?<!", "negative_lookbehind"],
+      ];
+      const prefix = prefixes.find(([p]) => source.startsWith(p, pos));
+      if (prefix) {
+        group = prefix[1];
+        pos += prefix[0].length;
+      } else if (source[pos + 1] === "<") {
+        const close = source.indexOf(">", pos);
+        if (close < 0) throw new SyntaxError(`Unterminated group name at position ${pos}`);
+        group = "named";
+        name = source.slice(pos + 2, close);
+        pos = close + 1;
+      } else {
+        throw new SyntaxError(`Invalid group at position ${start}`);
+      }
+    }
+
+    const body = parseDisjunction();
+    if (source[pos] !== ")") throw new SyntaxError(`Unterminated group at position ${start}`);
+    pos++;
+    return { kind: "group", group, name, body, start, end: pos };
+  }
+
+  function parseClass(): RegexNode {
+    const start = pos;
+    pos++; // [
+    const negated = source[pos] === "^";
+    if (negated) pos++;
+    const bodyStart = pos;
+    let depth = 0;
+
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === "\\") {
+        pos += 2;
+      } else if (ch === "[" && unicodeSets) {
+        depth++;
+        pos++;
+      } else if (ch === "]") {
+        if (depth === 0) break;
+        depth--;
+        pos++;
+      } else {
+        pos++;
+      }
+    }
+
+    if (source[pos] !== "]") throw new SyntaxError(`Unterminated character class at ${start}`);
+    const body = source.slice(bodyStart, pos);
+    pos++;
+    return { kind: "char_class", negated, body, start, end: pos };
+  }
+
+  function parseEscape(): RegexNode {
+    const start = pos;
+    pos++; // backslash
+    const ch = source[pos];
+    if (ch === undefined) throw new SyntaxError("\\ at end of pattern");
+
+    if ("dDwWsS".includes(ch)) {
+      pos++;
+      return { kind: "class_escape", escape: ch, start, end: pos };
+    }
+    if ((ch === "p" || ch === "P") && unicode && source[pos + 1] === "{") {
+      const close = source.indexOf("}", pos);
+      if (close < 0) throw new SyntaxError(`Unterminated property escape at position ${start}`);
+      pos = close + 1;
+      return { kind: "class_escape", escape: source.slice(start + 1, pos), start, end: pos };
+    }
+    if (ch === "b" || ch === "B") {
+      pos++;
+      const assertion = ch === "b" ? "word_boundary" : "non_word_boundary";
+      return { kind: "assertion", assertion, start, end: pos };
+    }
+    if (/[1-9]/.test(ch)) {
+      const digits = source.slice(pos).match(/^\d+/)![0];
+      pos += digits.length;
+      return { kind: "backreference", ref: digits, start, end: pos };
+    }
+    if (ch === "k" && source[pos + 1] === "<") {
+      const close = source.indexOf(">", pos);
+      if (close > 0) {
+        pos = close + 1;
+        return { kind: "backreference", ref: source.slice(start + 3, close), start, end: pos };
+      }
+    }
+
+    let char: string;
+    const rest = source.slice(pos);
+    const hex = rest.match(/^x([0-9a-fA-F]{2})/);
+    const braced = rest.match(/^u\{([0-9a-fA-F]+)\}/);
+    const unicodeEscape = rest.match(/^u([0-9a-fA-F]{4})/);
+    const control = rest.match(/^c([a-zA-Z])/);
+    if (ch in CONTROL_ESCAPES && !(ch === "0" && /^0\d/.test(rest))) {
+      char = CONTROL_ESCAPES[ch];
+      pos++;
+    } else if (hex) {
+      char = String.fromCharCode(parseInt(hex[1], 16));
+      pos += hex[0].length;
+    } else if (braced && unicode) {
+      char = String.fromCodePoint(parseInt(braced[1], 16));
+      pos += braced[0].length;
+    } else if (unicodeEscape) {
+      char = String.fromCharCode(parseInt(unicodeEscape[1], 16));
+      pos += unicodeEscape[0].length;
+    } else if (control) {
+      char = String.fromCharCode(control[1].toUpperCase().charCodeAt(0) % 32);
+      pos += control[0].length;
+    } else {
+      // Identity escape (e.g. \. or \/)
+      char = unicode ? String.fromCodePoint(source.codePointAt(pos)!) : ch;
+      pos += char.length;
+    }
+    return { kind: "literal", char, start, end: pos };
+  }
+
+  const root = parseDisjunction();
+  if (pos < source.length) {
+    throw new SyntaxError(`Unmatched ')' at position ${pos}`);
+  }
+  return root;
+}
@@ -0,0 +1,249 @@
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+import {
+  getGroupNumbers,
+  getQuantifierError,
+  hasChildren,
+  requiresUnicode,
+  validateGroupReferences,
+} from "@/lib/regex-utils";
+import { UNICODE_PROPERTIES, UNQUANTIFIED_TYPES } from "@/lib/constants";
+
+/**
+ * One line of a plain-English explanation
+ */
+export interface ExplanationStep {
+  /** Criterion the step describes; undefined for flag steps */
+  criterionId?: string;
+  /** Nesting level, 0 for top-level criteria and flags */
+  depth: number;
+  text: string;
+}
+
+/**
+ * Settings shared while explaining one set of criteria
+ */
+interface ExplainContext {
+  flags: RegexFlags;
+  /** First capture group number of each group criterion */
+  groupNumbers: Map<string, number>;
+  /** Criteria buildRegex() leaves out or emits without their name */
+  invalidIds: Set<string>;
+}
+
+/**
+ * Describes how many times a criterion repeats, as a suffix for its description
+ * Mirrors buildRegex(): invalid counts and unquantified types add nothing
+ *
+ * @param c - Criterion whose quantifier to describe
+ * @returns Phrase such as ", one or more times" or "" for exactly one
+ */
+export function describeQuantifier(c: RegexCriterion): string {
+  if (UNQUANTIFIED_TYPES.includes(c.type) || getQuantifierError(c)) return "";
+  const times = (n?: number) => (n === 1 ? "once" : `${n} times`);
+  const lazy = " (as few as possible)";
+  switch (c.quantifier) {
+    case "zero_or_more":
+      return ", zero or more times";
+    case "one_or_more":
+      return ", one or more times";
+    case "optional":
+      return ", optionally";
+    case "exactly":
+      return `, exactly ${times(c.min)}`;
+    case "at_least":
+      return `, at least ${times(c.min)}`;
+    case "between":
+      return `, between ${c.min} and ${c.max} times`;
+    case "lazy":
+      return `, zero or more times${lazy}`;
+    case "one_or_more_lazy":
+      return `, one or more times${lazy}`;
+    case "optional_lazy":
+      return `, optionally${lazy}`;
+    case "at_least_lazy":
+      return `, at least ${times(c.min)}${lazy}`;
+    case "between_lazy":
+      return `, between ${c.min} and ${c.max} times${lazy}`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Describes what a single criterion matches, without its quantifier
+ * Containers end with a colon; their children are explained as nested steps
+ */
+function describeCriterion(c: RegexCriterion, context: ExplainContext): string {
+  const { flags } = context;
+  const where = flags.multiline ? "a line" : "the text";
+  const nested = hasChildren(c);
+  switch (c.type) {
+    case "starts_with":
+      return `"${c.value}" at the start of ${where}`;
+    case "ends_with":
+      return `"${c.value}" at the end of ${where}`;
+    case "contains":
+      return `"${c.value}"`;
+    case "exact":
+      return flags.multiline
+        ? `A whole line that is exactly "${c.value}"`
+        : `Exactly "${c.value}" and nothing else`;
+    case "word_boundary":
+      return "A word boundary";
+    case "non_word_boundary":
+      return "A position that is not a word boundary";
+    case "line_start":
+      return `The start of ${where}`;
+    case "line_end":
+      return `The end of ${where}`;
+    case "input_start":
+      return "The very start of the text";
+    case "input_end":
+      return "The very end of the text";
+    case "digit":
+      return "A digit (0-9)";
+    case "word_char":
+      return "A word character (letter, digit or underscore)";
+    case "whitespace":
+      return "A whitespace character (space, tab or line break)";
+    case "any_char":
+      return flags.dotAll ? "Any character" : "Any character except a line break";
+    case "letter_upper":
+      return "An uppercase letter (A-Z)";
+    case "letter_lower":
+      return "A lowercase letter (a-z)";
+    case "custom_class":
+      return `One character from [${c.value}]`;
+    case "not":
+      return `One character not in [${c.value}]`;
+    case "unicode_property":
+    case "not_unicode_property": {
+      const label = UNICODE_PROPERTIES.find((p) => p.value === c.value)?.label ?? c.value;
+      const has = c.type === "unicode_property" ? "with" : "without";
+      return `A character ${has} the Unicode property ${label} (\\${c.type === "unicode_property" ? "p" : "P"}{${c.value}})`;
+    }
+    case "group": {
+      const number = context.groupNumbers.get(c.id);
+      return nested
+        ? `Capture group #${number} containing:`
+        : `Capture group #${number} matching the pattern ${c.value}`;
+    }
+    case "named_group": {
+      const number = context.groupNumbers.get(c.id);
+      return context.invalidIds.has(c.id)
+        ? `Capture group #${number} containing:`
+        : `Capture group #${number} named "${c.value}" containing:`;
+    }
+    case "sequence":
+      return "The following, in order:";
+    case "or":
+      return nested
+        ? "One of these alternatives:"
+        : `One of ${c.value
+            .split(",")
+            .map((s) => `"${s.trim()}"`)
+            .join(", ")}`;
+    case "lookahead":
+      return nested ? "A position followed by:" : `A position followed by "${c.value}"`;
+    case "negative_lookahead":
+      return nested ? "A position not followed by:" : `A position not followed by "${c.value}"`;
+    case "lookbehind":
+      return nested ? "A position preceded by:" : `A position preceded by "${c.value}"`;
+    case "negative_lookbehind":
+      return nested ? "A position not preceded by:" : `A position not preceded by "${c.value}"`;
+    case "backreference":
+      return /^\d+$/.test(c.value)
+        ? `The same text group #${c.value} captured`
+        : `The same text group "${c.value}" captured`;
+    case "literal":
+      return `The literal text "${c.value}"`;
+    case "raw":
+      return `The pattern ${c.value}`;
+    default:
+      return `"${c.value}"`;
+  }
+}
+
+/**
+ * Explains criteria at one nesting level, recursing into containers
+ */
+function explainCriteria(
+  criteria: RegexCriterion[],
+  depth: number,
+  context: ExplainContext
+): ExplanationStep[] {
+  return criteria.flatMap((c) => {
+    // Left out of the pattern by buildRegex() until they are completed
+    if ((c.type === "unicode_property" || c.type === "not_unicode_property") && !c.value) return [];
+    if (c.type === "backreference" && context.invalidIds.has(c.id)) return [];
+
+    const description = describeCriterion(c, context);
+    const quantifier = describeQuantifier(c);
+    // Move the colon after the quantifier: "Group #1 containing, one or more times:"
+    const text = description.endsWith(":")
+      ? `${description.slice(0, -1)}${quantifier}:`
+      : `${description}${quantifier}.`;
+    const step: ExplanationStep = { criterionId: c.id, depth, text };
+    const children = hasChildren(c) ? explainCriteria(c.children, depth + 1, context) : [];
+    return [step, ...children];
+  });
+}
+
+/**
+ * Describes each enabled flag
+ * Unicode mode counts as on when \p{...} criteria turn it on automatically
+ */
+function explainFlags(criteria: RegexCriterion[], flags: RegexFlags): string[] {
+  const unicode = (flags.unicode || requiresUnicode(criteria)) && !flags.unicodeSets;
+  return [
+    flags.global && "Find every match, not just the first (g).",
+    flags.caseInsensitive && "Ignore upper and lower case (i).",
+    flags.multiline && "^ and $ match at the start and end of every line (m).",
+    flags.dotAll && "The dot also matches line breaks (s).",
+    unicode && "Treat the text as Unicode code points (u).",
+    flags.unicodeSets && "Treat the text as Unicode code points, with class set operations (v).",
+    flags.sticky && "Only match starting exactly at lastIndex (y).",
+    flags.hasIndices && "Record where each group starts and ends (d).",
+  ].filter((s): s is string => !!s);
+}
+
+/**
+ * Explains criteria and flags in plain English, one step per criterion
+ * Nested criteria become indented steps under their container, followed by one step per flag.
+ *
+ * @param criteria - Criteria to explain
+ * @param flags - Regex flags
+ * @returns Steps in pattern order
+ *
+ * @example
+ * explainRegex([{ type: "digit", quantifier: "one_or_more", ... }], { ...flags, global: true })
+ * // [{ depth: 0, text: "A digit (0-9), one or more times." },
+ * //  { depth: 0, text: "Find every match, not just the first (g)." }]
+ */
+export function explainRegex(criteria: RegexCriterion[], flags: RegexFlags): ExplanationStep[] {
+  if (criteria.length === 0) return [];
+  const context: ExplainContext = {
+    flags,
+    groupNumbers: getGroupNumbers(criteria),
+    invalidIds: new Set(validateGroupReferences(criteria).map((e) => e.criterionId)),
+  };
+  return [
+    ...explainCriteria(criteria, 0, context),
+    ...explainFlags(criteria, flags).map((text) => ({ depth: 0, text })),
+  ];
+}
+
+/**
+ * Formats steps as plain text: top-level steps numbered, nested steps as indented bullets
+ *
+ * @param steps - Steps from explainRegex()
+ * @returns Multi-line explanation, or "" when there are no steps
+ */
+export function formatExplanation(steps: ExplanationStep[]): string {
+  let number = 0;
+  return steps
+    .map((step) =>
+      step.depth === 0 ? `${++number}. ${step.text}` : `${"   ".repeat(step.depth)}- ${step.text}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,602 @@
+import type {
+  RegexAlternationNode,
+  RegexCriterion,
+  RegexFlags,
+  RegexFlavor,
+  RegexNode,
+  RegexSequenceNode,
+} from "@/types/regex";
+import { parsePattern } from "@/lib/regex-ast";
+import { buildRegex } from "@/lib/regex-utils";
+import { REGEX_FLAVORS } from "@/lib/constants";
+
+/**
+ * A difference between JavaScript and the target flavor that affects the exported pattern
+ */
+export interface FlavorDiagnostic {
+  /** "error" when the target cannot express the construct, "warning" when behaviour differs */
+  severity: "error" | "warning";
+  message: string;
+}
+
+/**
+ * A pattern rendered for one regex flavor
+ */
+export interface FlavorExport {
+  flavor: RegexFlavor;
+  /** Pattern to paste into the target: inline flags plus source, or a /literal/ for PCRE and Ruby */
+  pattern: string;
+  /** Constructs the target rejects or treats differently, without duplicates */
+  diagnostics: FlavorDiagnostic[];
+}
+
+type TargetFlavor = Exclude<RegexFlavor, "javascript">;
+
+/**
+ * RE2-family engines: linear-time matching without backreferences or lookaround
+ */
+const RE2_FLAVORS: TargetFlavor[] = ["go", "rust"];
+
+/**
+ * Flavors whose patterns are written as /.../ literals, so "/" must be escaped
+ */
+const DELIMITED_FLAVORS: TargetFlavor[] = ["pcre", "ruby"];
+
+/**
+ * Long general category names and their one- or two-letter aliases
+ * Every flavor with \p support understands the short forms; few understand the long ones
+ */
+const GENERAL_CATEGORIES: Record<string, string> = {
+  Letter: "L",
+  Cased_Letter: "LC",
+  Uppercase_Letter: "Lu",
+  Lowercase_Letter: "Ll",
+  Titlecase_Letter: "Lt",
+  Modifier_Letter: "Lm",
+  Other_Letter: "Lo",
+  Mark: "M",
+  Combining_Mark: "M",
+  Nonspacing_Mark: "Mn",
+  Spacing_Mark: "Mc",
+  Enclosing_Mark: "Me",
+  Number: "N",
+  Decimal_Number: "Nd",
+  digit: "Nd",
+  Letter_Number: "Nl",
+  Other_Number: "No",
+  Punctuation: "P",
+  punct: "P",
+  Connector_Punctuation: "Pc",
+  Dash_Punctuation: "Pd",
+  Open_Punctuation: "Ps",
+  Close_Punctuation: "Pe",
+  Initial_Punctuation: "Pi",
+  Final_Punctuation: "Pf",
+  Other_Punctuation: "Po",
+  Symbol: "S",
+  Math_Symbol: "Sm",
+  Currency_Symbol: "Sc",
+  Modifier_Symbol: "Sk",
+  Other_Symbol: "So",
+  Separator: "Z",
+  Space_Separator: "Zs",
+  Line_Separator: "Zl",
+  Paragraph_Separator: "Zp",
+  Other: "C",
+  Control: "Cc",
+  cntrl: "Cc",
+  Format: "Cf",
+  Surrogate: "Cs",
+  Private_Use: "Co",
+  Unassigned: "Cn",
+};
+
+const SHORT_CATEGORIES = new Set(Object.values(GENERAL_CATEGORIES));
+
+/**
+ * Binary properties Java exposes as \p{IsName}
+ */
+const JAVA_BINARY_PROPERTIES = new Set([
+  "Alphabetic",
+  "Ideographic",
+  "Letter",
+  "Lowercase",
+  "Uppercase",
+  "Titlecase",
+  "Punctuation",
+  "Control",
+  "White_Space",
+  "Digit",
+  "Hex_Digit",
+  "Join_Control",
+  "Noncharacter_Code_Point",
+  "Assigned",
+  "Emoji",
+  "Emoji_Presentation",
+  "Emoji_Modifier",
+  "Emoji_Modifier_Base",
+  "Emoji_Component",
+  "Extended_Pictographic",
+]);
+
+/**
+ * .NET Unicode block names for scripts whose block is not simply "Is" + script name
+ */
+const DOTNET_BLOCKS: Record<string, string> = {
+  Latin: "BasicLatin",
+  Han: "CJKUnifiedIdeographs",
+  Hangul: "HangulSyllables",
+};
+
+/**
+ * How each flavor finds every match, for the note on the g flag
+ */
+const FIND_ALL: Record<TargetFlavor, string> = {
+  python: "use re.findall() or re.finditer()",
+  go: "use FindAllString()",
+  java: "call Matcher.find() in a loop",
+  pcre: "use preg_match_all()",
+  dotnet: "use Regex.Matches()",
+  ruby: "use String#scan",
+  rust: "use find_iter()",
+};
+
+/**
+ * State shared while re-emitting one pattern
+ */
+interface EmitContext {
+  flavor: TargetFlavor;
+  /** Display name of the flavor for messages */
+  label: string;
+  /** JavaScript pattern source that node offsets point into */
+  source: string;
+  multiline: boolean;
+  unicodeSets: boolean;
+  /** Set once \d, \w, \s or \b is emitted (their Unicode behaviour differs by flavor) */
+  usesAsciiEscapes: boolean;
+  /** Set once a named or unnamed capturing group is emitted (.NET and Ruby number them apart) */
+  usesNamedGroups: boolean;
+  usesUnnamedGroups: boolean;
+  /** Set once a backreference by number (\1) is emitted */
+  usesNumberedBackreferences: boolean;
+  report: (severity: FlavorDiagnostic["severity"], message: string) => void;
+}
+
+/**
+ * Writes a code point as an escape the flavor understands
+ */
+function codePointEscape(cp: number, flavor: TargetFlavor): string {
+  const hex = (n: number, width: number) => n.toString(16).toUpperCase().padStart(width, "0");
+  if (flavor === "python" || flavor === "dotnet") {
+    if (cp <= 0xff) return `\\x${hex(cp, 2)}`;
+    if (cp <= 0xffff) return `\\u${hex(cp, 4)}`;
+    if (flavor === "python") return `\\U${hex(cp, 8)}`;
+    // .NET strings are UTF-16, so astral characters are written as a surrogate pair
+    const pair = String.fromCodePoint(cp);
+    return `\\u${hex(pair.charCodeAt(0), 4)}\\u${hex(pair.charCodeAt(1), 4)}`;
+  }
+  // Ruby regexes are UTF-8, where \xHH is a raw byte rather than a character
+  if (flavor === "ruby") return `\\u{${hex(cp, 1)}}`;
+  return `\\x{${hex(cp, 1)}}`;
+}
+
+/**
+ * Translates a \p{...} or \P{...} escape, reporting properties the flavor lacks
+ *
+ * @param negated - True for \P
+ * @param name - Text between the braces, e.g. "Letter" or "Script=Greek"
+ */
+function translateProperty(negated: boolean, name: string, ctx: EmitContext): string {
+  const p = negated ? "P" : "p";
+  const original = `\\${p}{${name}}`;
+  if (ctx.flavor === "python") {
+    ctx.report(
+      "error",
+      `Python's re module has no \\p{...} support (${original}); the third-party regex module does`
+    );
+    return original;
+  }
+
+  const [key, value] = name.includes("=") ? name.split("=") : ["", name];
+  if (
+    key === "General_Category" ||
+    key === "gc" ||
+    (!key && (value in GENERAL_CATEGORIES || SHORT_CATEGORIES.has(value)))
+  ) {
+    return `\\${p}{${GENERAL_CATEGORIES[value] ?? value}}`;
+  }
+
+  if (["Script", "sc", "Script_Extensions", "scx"].includes(key)) {
+    switch (ctx.flavor) {
+      case "java":
+        return `\\${p}{Is${value}}`;
+      case "dotnet": {
+        const block = `Is${DOTNET_BLOCKS[value] ?? value}`;
+        ctx.report(
+          "warning",
+          `.NET has no script properties; ${original} was approximated by the Unicode block ${block}`
+        );
+        return `\\${p}{${block}}`;
+      }
+      default:
+        return `\\${p}{${value}}`;
+    }
+  }
+
+  // Anything else is a binary property such as Emoji or Alphabetic
+  switch (ctx.flavor) {
+    case "java":
+      if (value === "ASCII") return `\\${p}{ASCII}`;
+      if (JAVA_BINARY_PROPERTIES.has(value)) {
+        if (value.startsWith("Emoji") || value === "Extended_Pictographic") {
+          ctx.report("warning", `Java supports ${original} from Java 21`);
+        }
+        return `\\${p}{Is${value}}`;
+      }
+      break;
+    case "pcre":
+      if (value !== "Any") {
+        ctx.report("warning", `PCRE supports ${original} from PCRE2 10.40`);
+      }
+      return original;
+    case "ruby":
+    case "rust":
+      return original;
+  }
+  ctx.report("error", `${ctx.label} does not support the ${value} property (${original})`);
+  return original;
+}
+
+/**
+ * Escapes characters that would end or interpolate into a /.../ literal
+ * Ruby also reads #{...} inside a regex literal as interpolation
+ */
+function escapeDelimiter(char: string, flavor: TargetFlavor): string {
+  if (char === "/" && DELIMITED_FLAVORS.includes(flavor)) return "\\/";
+  if (char === "#" && flavor === "ruby") return "\\#";
+  return char;
+}
+
+/**
+ * Translates the contents of a character class, escape by escape
+ */
+function translateClassBody(body: string, ctx: EmitContext): string {
+  if (ctx.unicodeSets && /--|&&|\\q\{|(^|[^\\])\[/.test(body)) {
+    ctx.report("error", `Class set operations (v flag) have no ${ctx.label} equivalent`);
+    return body;
+  }
+  return body.replace(
+    /\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|[pP]\{[^}]*\}|[\s\S])|[[/#&]/g,
+    (match: string, escape: string | undefined) => {
+      // Other flavors read a bare [ inside a class as the start of a nested class, and Java,
+      // Ruby and Rust read && as intersection (Python warns it may become one)
+      if (escape === undefined) {
+        return match === "[" || match === "&" ? `\\${match}` : escapeDelimiter(match, ctx.flavor);
+      }
+      if (/^[dDwWsS]$/.test(escape)) {
+        ctx.usesAsciiEscapes = true;
+        return match;
+      }
+      if (/^[pP]\{/.test(escape)) {
+        return translateProperty(escape[0] === "P", escape.slice(2, -1), ctx);
+      }
+      if (escape.length > 1) {
+        const cp = escape.startsWith("c")
+          ? escape[1].toUpperCase().charCodeAt(0) % 32
+          : parseInt(escape.replace(/^[ux]\{?|\}$/g, ""), 16);
+        return codePointEscape(cp, ctx.flavor);
+      }
+      return match;
+    }
+  );
+}
+
+/**
+ * Returns the smallest and largest number of characters a node can match
+ * Backreferences count as unbounded because their width depends on the group
+ */
+function widthRange(node: RegexNode): [number, number] {
+  switch (node.kind) {
+    case "alternation": {
+      const widths = node.branches.map(widthRange);
+      return [Math.min(...widths.map((w) => w[0])), Math.max(...widths.map((w) => w[1]))];
+    }
+    case "sequence":
+      return node.items.map(widthRange).reduce(([min, max], [a, b]) => [min + a, max + b], [0, 0]);
+    case "group":
+      return node.group === "capture" || node.group === "non_capture" || node.group === "named"
+        ? widthRange(node.body)
+        : [0, 0];
+    case "quantifier": {
+      const [min, max] = widthRange(node.body);
+      return [min * node.min, node.max === null ? (max === 0 ? 0 : Infinity) : max * node.max];
+    }
+    case "assertion":
+      return [0, 0];
+    case "backreference":
+      return [0, Infinity];
+    default:
+      return [1, 1];
+  }
+}
+
+/**
+ * Checks if a lookbehind body satisfies the flavor's length rules
+ */
+function checkLookbehind(body: RegexAlternationNode | RegexSequenceNode, ctx: EmitContext): void {
+  const isFixed = ([min, max]: [number, number]) => min === max && Number.isFinite(max);
+  switch (ctx.flavor) {
+    case "python":
+      if (!isFixed(widthRange(body))) {
+        ctx.report("error", "Python lookbehind must match a fixed number of characters");
+      }
+      break;
+    case "pcre":
+    case "ruby": {
+      const branches = body.kind === "alternation" ? body.branches : [body];
+      if (!branches.every((b) => isFixed(widthRange(b)))) {
+        ctx.report(
+          "error",
+          `${ctx.label} lookbehind alternatives must each match a fixed number of characters`
+        );
+      }
+      break;
+    }
+    case "java":
+      if (!Number.isFinite(widthRange(body)[1])) {
+        ctx.report("error", "Java lookbehind must have a bounded maximum length");
+      }
+      break;
+  }
+}
+
+/**
+ * Recognises the lookarounds buildRegex() emits for input anchors under the m flag
+ */
+function isInputAnchor(node: RegexNode & { kind: "group" }): boolean {
+  const [item] = node.body.kind === "sequence" ? node.body.items : [];
+  return (
+    (node.group === "negative_lookbehind" || node.group === "negative_lookahead") &&
+    node.body.kind === "sequence" &&
+    node.body.items.length === 1 &&
+    item.kind === "char_class" &&
+    !item.negated &&
+    item.body === "\\s\\S"
+  );
+}
+
+/**
+ * Re-emits a parsed JavaScript pattern node in the target flavor's syntax
+ */
+function emit(node: RegexNode, ctx: EmitContext): string {
+  const { flavor } = ctx;
+  switch (node.kind) {
+    case "alternation":
+      return node.branches.map((b) => emit(b, ctx)).join("|");
+    case "sequence":
+      return node.items.map((item) => emit(item, ctx)).join("");
+    case "quantifier": {
+      if (flavor === "go" && Math.max(node.min, node.max ?? 0) > 1000) {
+        ctx.report("error", "Go (RE2) allows at most 1000 repetitions in {n,m}");
+      }
+      return emit(node.body, ctx) + ctx.source.slice(node.body.end, node.end);
+    }
+    case "literal": {
+      const text = ctx.source.slice(node.start, node.end);
+      if (/^\\[ux0cv]/.test(text)) return codePointEscape(node.char.codePointAt(0)!, flavor);
+      // JavaScript ignores identity escapes of letters (\a is "a"); elsewhere they mean something
+      if (/^\\[A-Za-z]$/.test(text) && node.char === text[1]) return node.char;
+      return escapeDelimiter(text, flavor);
+    }
+    case "any":
+      return ".";
+    case "class_escape": {
+      const property = node.escape.match(/^([pP])\{(.+)\}$/);
+      if (property) return translateProperty(property[1] === "P", property[2], ctx);
+      ctx.usesAsciiEscapes = true;
+      return `\\${node.escape}`;
+    }
+    case "char_class":
+      // Elsewhere ] right after [ or [^ is a class member, not the end of an empty class
+      if (!node.body && node.negated) {
+        ctx.report(
+          "warning",
+          "[^] is JavaScript-only; it was exported as [\\s\\S] (any character)"
+        );
+        return "[\\s\\S]";
+      }
+      if (!node.body) {
+        ctx.report(
+          "error",
+          `[] (matches nothing) is JavaScript-only; ${ctx.label} reads ] as a class member`
+        );
+        return "[]";
+      }
+      return `[${node.negated ? "^" : ""}${translateClassBody(node.body, ctx)}]`;
+    case "assertion":
+      switch (node.assertion) {
+        case "start":
+          // Ruby's ^ always matches after any newline
+          return flavor === "ruby" && !ctx.multiline ? "\\A" : "^";
+        case "end":
+          // Elsewhere $ also matches before a final newline; \z (\Z in Python) does not
+          if (ctx.multiline || RE2_FLAVORS.includes(flavor)) return "$";
+          return flavor === "python" ? "\\Z" : "\\z";
+        case "word_boundary":
+          ctx.usesAsciiEscapes = true;
+          return "\\b";
+        case "non_word_boundary":
+          ctx.usesAsciiEscapes = true;
+          return "\\B";
+      }
+      break;
+    case "backreference":
+      if (RE2_FLAVORS.includes(flavor)) {
+        ctx.report("error", `${ctx.label} does not support backreferences`);
+      }
+      if (/^\d+$/.test(node.ref)) {
+        ctx.usesNumberedBackreferences = true;
+        return `\\${node.ref}`;
+      }
+      return flavor === "python" ? `(?P=${node.ref})` : `\\k<${node.ref}>`;
+    case "group": {
+      if (isInputAnchor(node)) {
+        if (node.group === "negative_lookbehind") return "\\A";
+        return flavor === "python" ? "\\Z" : "\\z";
+      }
+      const body = emit(node.body, ctx);
+      switch (node.group) {
+        case "capture":
+          ctx.usesUnnamedGroups = true;
+          return `(${body})`;
+        case "non_capture":
+          return `(?:${body})`;
+        case "named": {
+          ctx.usesNamedGroups = true;
+          const name = node.name ?? "";
+          const valid = flavor === "java" ? /^[A-Za-z][A-Za-z0-9]*$/ : /^[A-Za-z_]\w*$/;
+          if (!valid.test(name)) {
+            ctx.report("error", `"${name}" is not a valid group name in ${ctx.label}`);
+          }
+          return flavor === "python" || RE2_FLAVORS.includes(flavor)
+            ? `(?P<${name}>${body})`
+            : `(?<${name}>${body})`;
+        }
+        case "lookahead":
+        case "negative_lookahead":
+          if (RE2_FLAVORS.includes(flavor)) {
+            ctx.report("error", `${ctx.label} does not support lookahead`);
+          }
+          return `(${node.group === "lookahead" ? "?=" : "?!"}${body})`;
+        case "lookbehind":
+        case "negative_lookbehind":
+          if (RE2_FLAVORS.includes(flavor)) {
+            ctx.report("error", `${ctx.label} does not support lookbehind`);
+          }
+          checkLookbehind(node.body, ctx);
+          return `(${node.group === "lookbehind" ? "?<=" : "?<!"}${body})`;
+      }
+    }
+  }
+  return ctx.source.slice(node.start, node.end);
+}
+
+/**
+ * Renders criteria as a pattern for another regex flavor
+ * Builds the JavaScript pattern with buildRegex(), then rewrites syntax that differs: named
+ * groups and backreferences, flags (as inline modifiers, or /.../ modifiers for PCRE and Ruby), end
+ * anchors, Unicode escapes and properties. Constructs the target cannot express are still
+ * emitted as written and reported as errors so the user can decide what to change.
+ *
+ * @param criteria - Criteria to render
+ * @param flags - JavaScript flags
+ * @param flavor - Target flavor
+ * @returns Pattern text for the target plus diagnostics
+ *
+ * @example
+ * exportRegex([{ type: "named_group", value: "year", children: [...] }], flags, "python")
+ * // { pattern: "(?a)(?P<year>\\d{4})", diagnostics: [] }
+ */
+export function exportRegex(
+  criteria: RegexCriterion[],
+  flags: RegexFlags,
+  flavor: RegexFlavor
+): FlavorExport {
+  const literal = buildRegex(criteria, flags);
+  if (flavor === "javascript" || !literal) return { flavor, pattern: literal, diagnostics: [] };
+
+  const lastSlash = literal.lastIndexOf("/");
+  const source = literal.slice(1, lastSlash);
+  const flagStr = literal.slice(lastSlash + 1);
+  const label = REGEX_FLAVORS.find((f) => f.value === flavor)?.label ?? flavor;
+  const diagnostics: FlavorDiagnostic[] = [];
+  const report = (severity: FlavorDiagnostic["severity"], message: string) => {
+    if (!diagnostics.some((d) => d.message === message)) diagnostics.push({ severity, message });
+  };
+
+  let root: RegexAlternationNode | RegexSequenceNode;
+  try {
+    new RegExp(source, flagStr);
+    root = parsePattern(source, flagStr);
+  } catch (error) {
+    report("error", error instanceof Error ? error.message : "Unknown error");
+    return { flavor, pattern: "", diagnostics };
+  }
+
+  const ctx: EmitContext = {
+    flavor,
+    label,
+    source,
+    multiline: flagStr.includes("m"),
+    unicodeSets: flagStr.includes("v"),
+    usesAsciiEscapes: false,
+    usesNamedGroups: false,
+    usesUnnamedGroups: false,
+    usesNumberedBackreferences: false,
+    report,
+  };
+  let body = emit(root, ctx);
+
+  if (flagStr.includes("g")) {
+    report("warning", `Global (g) is not a pattern flag in ${label}; ${FIND_ALL[flavor]}`);
+  }
+  if (flagStr.includes("y")) {
+    if (flavor === "python") {
+      report("warning", "Sticky (y) has no Python flag; use pattern.match(text, pos) instead");
+    } else if (RE2_FLAVORS.includes(flavor)) {
+      report("warning", `Sticky (y) has no ${label} equivalent; match against a sliced string`);
+    } else {
+      // \G anchors at the end of the previous match, which is where lastIndex points
+      body = root.kind === "alternation" ? `\\G(?:${body})` : `\\G${body}`;
+    }
+  }
+  if (flavor === "dotnet" && ctx.usesAsciiEscapes) {
+    report(
+      "warning",
+      ".NET \\d, \\w and \\b also match non-ASCII digits and letters unless RegexOptions.ECMAScript is set"
+    );
+  }
+  if (flavor === "dotnet" && ctx.usesNamedGroups && ctx.usesUnnamedGroups) {
+    report(
+      "warning",
+      ".NET numbers named groups after all unnamed ones, so \\1, $1 and group numbers may refer to a different group"
+    );
+  }
+  if (flavor === "ruby" && ctx.usesNamedGroups) {
+    if (ctx.usesNumberedBackreferences) {
+      report("error", "Ruby does not allow numbered backreferences in a pattern with named groups");
+    }
+    if (ctx.usesUnnamedGroups) {
+      report(
+        "warning",
+        "Ruby doesn't capture unnamed groups in a pattern with named groups, so $1 and numbered groups shift"
+      );
+    }
+  }
+  if (flavor === "rust" && ctx.usesAsciiEscapes) {
+    report(
+      "warning",
+      "Rust \\d, \\w and \\b also match non-ASCII digits and letters unless (?-u) is set"
+    );
+  }
+
+  const unicode = flagStr.includes("u") || flagStr.includes("v");
+  const modifiers = [
+    // re.ASCII keeps \d, \w and \b to ASCII as in JavaScript
+    flavor === "python" && ctx.usesAsciiEscapes ? "a" : "",
+    flagStr.includes("i") ? "i" : "",
+    // Ruby anchors are always line-based, and its m modifier is JavaScript's s
+    flagStr.includes("m") && flavor !== "ruby" ? "m" : "",
+    flagStr.includes("s") ? (flavor === "ruby" ? "m" : "s") : "",
+    // Java needs UNICODE_CASE for case-insensitive matching beyond ASCII, like i with u
+    flavor === "java" && unicode && flagStr.includes("i") ? "u" : "",
+    flavor === "pcre" && unicode ? "u" : "",
+  ].join("");
+
+  const pattern = DELIMITED_FLAVORS.includes(flavor)
+    ? `/${body}/${modifiers}`
+    : modifiers
+      ? `(?${modifiers})${body}`
+      : body;
+  return { flavor, pattern, diagnostics };
+}
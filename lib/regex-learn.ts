@@ -0,0 +1,251 @@
+import type { RegexCriterion, RegexFlags } from "@/types/regex";
+import { buildRegex, generateId, testRegexSafe } from "@/lib/regex-utils";
+
+/**
+ * Result of learning criteria from examples
+ */
+export interface LearnedCriteria {
+  /** Criteria for a pattern matching every positive example in full and no negative one */
+  criteria: RegexCriterion[];
+  /** Set when no consistent pattern was found */
+  error?: string;
+}
+
+/**
+ * A run of characters of one kind, e.g. three digits
+ */
+interface Token {
+  kind: string;
+  text: string;
+}
+
+/**
+ * One way to describe a column of aligned tokens, from most general to most specific
+ */
+type ColumnOption = Pick<RegexCriterion, "type" | "value" | "quantifier" | "min" | "max">;
+
+/**
+ * Returns the kind of run a character belongs to at one level of generality
+ */
+type Level = (c: string) => string;
+
+/**
+ * Kind of any character that is not a digit, letter or space; each character gets its own run
+ */
+const PUNCTUATION = "punctuation";
+
+/**
+ * Criterion matching one character of each kind of run
+ */
+const CHARACTER_KINDS: Record<string, Pick<RegexCriterion, "type" | "value">> = {
+  digit: { type: "digit", value: "" },
+  upper: { type: "letter_upper", value: "" },
+  lower: { type: "letter_lower", value: "" },
+  letter: { type: "custom_class", value: "a-zA-Z" },
+  word: { type: "word_char", value: "" },
+  space: { type: "whitespace", value: "" },
+  visible: { type: "not", value: "\\s" },
+  any: { type: "any_char", value: "" },
+};
+
+function basicKind(c: string): string {
+  if (/\d/.test(c)) return "digit";
+  if (/[A-Z]/.test(c)) return "upper";
+  if (/[a-z]/.test(c)) return "lower";
+  if (/\s/.test(c)) return "space";
+  return PUNCTUATION;
+}
+
+/**
+ * Levels of generality, tried from most general (one run of anything) to most specific
+ */
+const LEVELS: Level[] = [
+  () => "any",
+  (c) => (/\s/.test(c) ? "space" : "visible"),
+  (c) => (/\w/.test(c) ? "word" : basicKind(c)),
+  (c) => (/[a-zA-Z]/.test(c) ? "letter" : basicKind(c)),
+  basicKind,
+];
+
+/**
+ * Splits a string into runs of characters of the same kind
+ * Punctuation is split per distinct character, so "--" is one run but "-/" is two
+ */
+function tokenize(text: string, level: Level): Token[] {
+  const tokens: Token[] = [];
+  for (const c of Array.from(text)) {
+    const kind = level(c);
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind && (kind !== PUNCTUATION || last.text.endsWith(c))) {
+      last.text += c;
+    } else {
+      tokens.push({ kind, text: c });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Escapes characters for use inside a [...] class
+ */
+function escapeClassMember(c: string): string {
+  return /[\\\]^-]/.test(c) ? `\\${c}` : c;
+}
+
+/**
+ * Lists ways to describe one column of aligned tokens, most general first
+ * Each option still matches every token in the column.
+ */
+function columnOptions(column: Token[]): ColumnOption[] {
+  const texts = column.map((t) => t.text);
+  const lengths = texts.map((t) => Array.from(t).length);
+  const min = Math.min(...lengths);
+  const max = Math.max(...lengths);
+  const sameText = texts.every((t) => t === texts[0]);
+  const kind = column[0].kind;
+
+  let charClass: Pick<RegexCriterion, "type" | "value">;
+  if (kind === PUNCTUATION) {
+    const chars = Array.from(new Set(texts.map((t) => t[0])));
+    if (chars.length === 1) {
+      charClass = { type: "literal", value: chars[0] };
+    } else {
+      charClass = { type: "custom_class", value: chars.map(escapeClassMember).join("") };
+    }
+  } else {
+    charClass = CHARACTER_KINDS[kind];
+  }
+
+  const options: ColumnOption[] = [];
+  if (max === 1) {
+    options.push({ ...charClass, quantifier: "one" });
+  } else {
+    options.push({ ...charClass, quantifier: "one_or_more" });
+    if (min !== max) options.push({ ...charClass, quantifier: "between", min, max });
+    if (min === max) options.push({ ...charClass, quantifier: "exactly", min });
+  }
+  if (sameText && (kind !== PUNCTUATION || max > 1)) {
+    options.push({ type: "literal", value: texts[0], quantifier: "one" });
+  }
+  return options;
+}
+
+/**
+ * Builds anchored criteria from one chosen option per column
+ */
+function toCriteria(options: ColumnOption[]): RegexCriterion[] {
+  return [
+    { id: generateId(), type: "input_start", value: "", quantifier: "one" },
+    ...options.map((o) => ({ id: generateId(), ...o })),
+    { id: generateId(), type: "input_end", value: "", quantifier: "one" },
+  ];
+}
+
+/**
+ * Finds the most general description of the positives at one level that rejects the negatives
+ * Starts with every column at its most general option and specializes one column at a time,
+ * always picking the step that rejects the most negatives.
+ *
+ * @returns The criteria and how many specializing steps they took, or null when none fits
+ */
+function learnAtLevel(
+  positives: string[],
+  negatives: string[],
+  flags: RegexFlags,
+  level: Level
+): { criteria: RegexCriterion[]; steps: number } | null {
+  const tokenized = positives.map((p) => tokenize(p, level));
+  const shape = (tokens: Token[]) => tokens.map((t) => t.kind).join(" ");
+  if (tokenized.some((tokens) => shape(tokens) !== shape(tokenized[0]))) return null;
+
+  const columns = tokenized[0].map((_, i) => columnOptions(tokenized.map((t) => t[i])));
+  const choice = columns.map(() => 0);
+  const matchedNegatives = (picks: number[]) => {
+    const regex = buildRegex(toCriteria(picks.map((p, i) => columns[i][p])), flags);
+    return negatives.filter((n) => testRegexSafe(regex, n).matches).length;
+  };
+
+  let matched = matchedNegatives(choice);
+  let steps = 0;
+  while (matched > 0) {
+    let best = -1;
+    let bestMatched = Infinity;
+    for (let column = 0; column < columns.length; column++) {
+      if (choice[column] + 1 >= columns[column].length) continue;
+      const count = matchedNegatives(choice.map((p, i) => (i === column ? p + 1 : p)));
+      if (count < bestMatched) {
+        best = column;
+        bestMatched = count;
+      }
+    }
+    if (best === -1) return null;
+    choice[best]++;
+    matched = bestMatched;
+    steps++;
+  }
+
+  const criteria = toCriteria(choice.map((p, i) => columns[i][p]));
+  const regex = buildRegex(criteria, flags);
+  if (!positives.every((p) => testRegexSafe(regex, p).matches)) return null;
+  return { criteria, steps };
+}
+
+/**
+ * Synthesizes criteria from strings that must match and strings that must not
+ * Each positive example is split into runs of digits, letters, spaces and punctuation. When the
+ * runs line up across all positives, each column becomes a class or literal with a quantifier,
+ * and columns are made more specific only as far as the negatives require. Runs are grouped
+ * from coarse (any character) to fine (digits, upper and lower case letters); the result with
+ * the fewest criteria wins, then the one needing the fewest refinements, then the finest.
+ * The pattern is anchored so it must match each positive in full.
+ *
+ * @param positives - Strings that must match
+ * @param negatives - Strings that must not match
+ * @param flags - Flags the pattern will be used with
+ * @returns Learned criteria, or an error when no consistent pattern was found
+ *
+ * @example
+ * learnCriteria(["INV-001", "INV-042"], ["INV-1", "ABC-001"], DEFAULT_FLAGS)
+ * // criteria for ^INV-\d{3}$
+ */
+export function learnCriteria(
+  positives: string[],
+  negatives: string[],
+  flags: RegexFlags
+): LearnedCriteria {
+  if (positives.length === 0) {
+    return { criteria: [], error: "Add at least one string that should match" };
+  }
+  const both = positives.find((p) => negatives.includes(p));
+  if (both !== undefined) {
+    return {
+      criteria: [],
+      error: `${JSON.stringify(both)} is listed as both matching and not matching`,
+    };
+  }
+  if (positives.some((p) => p === "")) {
+    return { criteria: [], error: "Strings that should match can't be empty" };
+  }
+
+  let best: { criteria: RegexCriterion[]; steps: number } | null = null;
+  for (const level of LEVELS) {
+    const learned = learnAtLevel(positives, negatives, flags, level);
+    if (
+      learned &&
+      (!best ||
+        learned.criteria.length < best.criteria.length ||
+        (learned.criteria.length === best.criteria.length && learned.steps <= best.steps))
+    ) {
+      best = learned;
+    }
+  }
+
+  if (!best) {
+    return {
+      criteria: [],
+      error:
+        "No pattern of digits, letters, literals and classes fits every example. Check that the strings that should match share a layout, or add more of them to show what varies.",
+    };
+  }
+  return { criteria: best.criteria };
+}
@@ -0,0 +1,180 @@
+import type {
+  CriterionError,
+  LintDiagnostic,
+  LintRule,
+  RegexCriterion,
+  RegexFlags,
+} from "@/types/regex";
+import { ANCHOR_TYPES, LOOKAROUND_PREFIXES } from "@/lib/constants";
+import {
+  getAnchorWarnings,
+  hasChildren,
+  validateGroupReferences,
+  validateQuantifiers,
+} from "@/lib/regex-utils";
+
+/**
+ * Criterion types that match a position rather than characters
+ */
+const ZERO_WIDTH_TYPES: readonly string[] = [...ANCHOR_TYPES, ...Object.keys(LOOKAROUND_PREFIXES)];
+
+/**
+ * Messages for criteria whose empty value adds nothing, or something surprising, to the pattern
+ */
+const EMPTY_VALUE_MESSAGES: Record<string, string> = {
+  contains: "Enter text to match; empty text adds nothing to the pattern",
+  starts_with: "Enter text to match; empty text adds nothing to the pattern",
+  ends_with: "Enter text to match; empty text adds nothing to the pattern",
+  exact: "Enter text to match; empty text only matches an empty input",
+  literal: "Enter text to match; empty text adds nothing to the pattern",
+  raw: "Enter a regex fragment; an empty one adds nothing to the pattern",
+  custom_class: "List the characters to allow; an empty class [] never matches anything",
+  not: "List the characters to exclude; [^] matches every character, newlines included",
+  unicode_property: "Choose a property; until then this criterion is left out",
+  not_unicode_property: "Choose a property; until then this criterion is left out",
+  group: "Add nested rules or a value; an empty group matches nothing",
+  or: "Add alternatives, e.g. cat, dog",
+  sequence: "Add nested rules; an empty sequence matches nothing",
+  lookahead: "Add nested rules or a value; an empty lookaround always succeeds",
+  negative_lookahead: "Add nested rules or a value; an empty lookaround never succeeds",
+  lookbehind: "Add nested rules or a value; an empty lookaround always succeeds",
+  negative_lookbehind: "Add nested rules or a value; an empty lookaround never succeeds",
+};
+
+/**
+ * Checks one criterion against its siblings for the rules buildRegex() can't enforce
+ *
+ * @param c - Criterion to check
+ * @param index - Its position among its siblings
+ * @param siblings - Every criterion at the same level, c included
+ * @param parentType - Type of the containing criterion; "or" siblings are alternatives
+ * @param flags - Flags the pattern will be built with
+ */
+function lintCriterion(
+  c: RegexCriterion,
+  index: number,
+  siblings: RegexCriterion[],
+  parentType: string | undefined,
+  flags: RegexFlags
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (rule: LintRule, severity: LintDiagnostic["severity"], message: string) =>
+    diagnostics.push({ criterionId: c.id, rule, severity, message });
+
+  if (!c.value && !hasChildren(c) && c.type in EMPTY_VALUE_MESSAGES) {
+    report("empty-value", "error", EMPTY_VALUE_MESSAGES[c.type]);
+  }
+
+  if (c.type === "or" && !hasChildren(c) && c.value) {
+    const empty = c.value.split(",").findIndex((s) => s.trim() === "");
+    if (empty !== -1) {
+      report(
+        "empty-alternative",
+        "error",
+        `Alternative ${empty + 1} is empty, so this choice can also match nothing at all`
+      );
+    }
+  }
+
+  // Alternatives of an "or" each stand alone, so position rules only apply in sequences
+  if (parentType !== "or") {
+    const others = siblings.filter((s) => s !== c);
+    const before = siblings.slice(0, index).filter((s) => !ZERO_WIDTH_TYPES.includes(s.type));
+    const after = siblings.slice(index + 1).filter((s) => !ZERO_WIDTH_TYPES.includes(s.type));
+
+    if (c.type === "exact" && others.length > 0) {
+      report(
+        "exact-with-others",
+        "error",
+        'Exact match already spans the whole input, so other criteria beside it stop it matching; use "Literal text" instead'
+      );
+    }
+    if (c.type === "starts_with" && before.length > 0) {
+      report(
+        "misplaced-anchor",
+        flags.multiline ? "warning" : "error",
+        flags.multiline
+          ? "The ^ from Starts with sits mid-pattern, so the criteria before it must end at a line break"
+          : 'The ^ from Starts with sits mid-pattern, where it only matches at the start of the input; move it first or use "Contains"'
+      );
+    }
+    if (c.type === "ends_with" && after.length > 0) {
+      report(
+        "misplaced-anchor",
+        flags.multiline ? "warning" : "error",
+        flags.multiline
+          ? "The $ from Ends with sits mid-pattern, so the criteria after it must start at a line break"
+          : 'The $ from Ends with sits mid-pattern, where it only matches at the end of the input; move it last or use "Contains"'
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Runs the sibling-aware checks over every level of the tree, in tree order
+ */
+function lintTree(
+  criteria: RegexCriterion[],
+  parentType: string | undefined,
+  flags: RegexFlags
+): LintDiagnostic[] {
+  return criteria.flatMap((c, i) => [
+    ...lintCriterion(c, i, criteria, parentType, flags),
+    ...lintTree(c.children ?? [], c.type, flags),
+  ]);
+}
+
+/**
+ * Lists criterion ids in tree order
+ */
+function treeOrder(criteria: RegexCriterion[]): string[] {
+  return criteria.flatMap((c) => [c.id, ...treeOrder(c.children ?? [])]);
+}
+
+/**
+ * Finds criteria that build into questionable or broken pattern source
+ * buildRegex() always produces something, quietly dropping or emptying parts it can't build;
+ * this reports each such part against the criterion responsible. Errors mean the pattern
+ * doesn't do what the criteria say and shouldn't be saved; warnings are valid but likely
+ * unintended.
+ *
+ * @param criteria - Criteria tree to check
+ * @param flags - Flags the pattern will be built with
+ * @returns Diagnostics in tree order, several per criterion where several rules apply
+ *
+ * @example
+ * lintCriteria([{ id: "a", type: "custom_class", value: "", quantifier: "one" }], DEFAULT_FLAGS)
+ * // [{ criterionId: "a", rule: "empty-value", severity: "error", message: "List the characters..." }]
+ */
+export function lintCriteria(criteria: RegexCriterion[], flags: RegexFlags): LintDiagnostic[] {
+  const tagged = (rule: LintRule, severity: LintDiagnostic["severity"]) => (e: CriterionError) => ({
+    ...e,
+    rule,
+    severity,
+  });
+  const diagnostics = [
+    ...validateQuantifiers(criteria).map(tagged("quantifier", "error")),
+    ...validateGroupReferences(criteria).map(tagged("group-reference", "error")),
+    ...getAnchorWarnings(criteria, flags).map(tagged("line-anchor", "warning")),
+    ...lintTree(criteria, undefined, flags),
+  ];
+  const order = new Map(treeOrder(criteria).map((id, i) => [id, i]));
+  // Array.prototype.sort is stable, so diagnostics for one criterion keep the order above
+  return diagnostics.sort(
+    (a, b) => (order.get(a.criterionId) ?? 0) - (order.get(b.criterionId) ?? 0)
+  );
+}
+
+/**
+ * Groups diagnostics by the criterion they belong to, for looking up per row
+ *
+ * @param diagnostics - Diagnostics from lintCriteria()
+ * @returns Diagnostics keyed by criterion id
+ */
+export function groupDiagnostics(diagnostics: LintDiagnostic[]): Record<string, LintDiagnostic[]> {
+  const grouped: Record<string, LintDiagnostic[]> = {};
+  for (const d of diagnostics) (grouped[d.criterionId] ??= []).push(d);
+  return grouped;
+}
@@ -0,0 +1,545 @@
+import type {
+  RegexAlternationNode,
+  RegexCriterion,
+  RegexFlags,
+  RegexNode,
+  RegexQuantifierNode,
+  RegexSequenceNode,
+} from "@/types/regex";
+import { parsePattern } from "@/lib/regex-ast";
+import { generateId, validateGroupReferences } from "@/lib/regex-utils";
+import { DEFAULT_FLAGS, LOOKAROUND_PREFIXES } from "@/lib/constants";
+
+/**
+ * Result of importing a regex literal into builder criteria
+ */
+export interface ParsedRegex {
+  /** Criteria that rebuild an equivalent pattern via buildRegex() */
+  criteria: RegexCriterion[];
+  /** Flags recovered from the literal */
+  flags: RegexFlags;
+  /** Non-fatal notes, e.g. flags the builder cannot represent */
+  warnings: string[];
+  /** Set when the input could not be imported at all */
+  error?: string;
+}
+
+/**
+ * Maps regex flag characters to their RegexFlags keys
+ */
+const FLAG_KEYS: Record<string, keyof RegexFlags> = {
+  d: "hasIndices",
+  g: "global",
+  i: "caseInsensitive",
+  m: "multiline",
+  s: "dotAll",
+  u: "unicode",
+  v: "unicodeSets",
+  y: "sticky",
+};
+
+/**
+ * Creates a criterion with a fresh id
+ */
+function criterion(
+  type: string,
+  value = "",
+  quantifier: Pick<RegexCriterion, "quantifier" | "min" | "max"> = { quantifier: "one" }
+): RegexCriterion {
+  return { id: generateId(), type, value, ...quantifier };
+}
+
+/**
+ * Attaches child criteria to a container criterion
+ */
+function withChildren(parent: RegexCriterion, children: RegexCriterion[]): RegexCriterion {
+  return { ...parent, children };
+}
+
+/**
+ * Creates a raw fragment criterion holding the exact source of an unsupported construct
+ */
+function rawFragment(source: string, node: RegexNode): RegexCriterion {
+  return criterion("raw", source.slice(node.start, node.end));
+}
+
+/**
+ * Maps a quantifier node to one of the builder's QUANTIFIERS values plus its counts
+ *
+ * @returns Quantifier fields for the criterion, or null if the builder cannot express it
+ */
+function quantifierFields(
+  node: RegexQuantifierNode,
+  source: string
+): Pick<RegexCriterion, "quantifier" | "min" | "max"> | null {
+  const { min, max, lazy } = node;
+  const suffix = lazy ? "_lazy" : "";
+  // Keep {0,}, {1,} and {0,1} counted so they rebuild exactly as written
+  if (source[node.body.end] !== "{") {
+    if (max === null)
+      return { quantifier: min === 0 ? (lazy ? "lazy" : "zero_or_more") : `one_or_more${suffix}` };
+    return { quantifier: `optional${suffix}` };
+  }
+  if (max === null) return { quantifier: `at_least${suffix}`, min };
+  // {n}? matches exactly like {n}, so the builder has no lazy form for it
+  if (min === max) return lazy ? null : { quantifier: "exactly", min };
+  return { quantifier: `between${suffix}`, min, max };
+}
+
+/**
+ * Checks if a node is a literal character that escapeRegex() can reproduce
+ * Control characters (newline, tab, ...) are left to raw fragments so they stay visible
+ */
+function isPlainLiteral(node: RegexNode): node is RegexNode & { kind: "literal" } {
+  if (node.kind !== "literal") return false;
+  const code = node.char.charCodeAt(0);
+  return code >= 0x20 && code !== 0x7f;
+}
+
+/**
+ * Returns the literal text of a sequence made only of plain literal characters
+ *
+ * @returns The text, or null if the sequence contains anything else
+ */
+function literalText(node: RegexNode): string | null {
+  if (node.kind !== "sequence") return null;
+  let text = "";
+  for (const item of node.items) {
+    if (!isPlainLiteral(item)) return null;
+    text += item.char;
+  }
+  return text;
+}
+
+/**
+ * Returns the comma-separated value of an "or" criterion for an alternation of literals
+ * buildRegex() splits on commas and trims each branch, so branches containing commas or
+ * surrounding whitespace cannot be represented
+ *
+ * @returns The value, or null if any branch is not representable
+ */
+function alternationValue(node: RegexNode): string | null {
+  if (node.kind !== "alternation") return null;
+  const branches = node.branches.map(literalText);
+  const representable = branches.every((b) => b !== null && !b.includes(",") && b === b.trim());
+  return representable ? branches.join(",") : null;
+}
+
+/**
+ * Recognises the lookarounds buildRegex() emits for input anchors under the m flag:
+ * `(?<![\s\S])` (nothing before) and `(?![\s\S])` (nothing after)
+ *
+ * @returns "input_start", "input_end" or null for any other lookaround
+ */
+function inputAnchorType(
+  group: string,
+  body: RegexAlternationNode | RegexSequenceNode
+): string | null {
+  const [item] = body.kind === "sequence" ? body.items : [];
+  const matchesAnything =
+    body.kind === "sequence" &&
+    body.items.length === 1 &&
+    item.kind === "char_class" &&
+    !item.negated &&
+    item.body === "\\s\\S";
+  if (!matchesAnything) return null;
+  if (group === "negative_lookbehind") return "input_start";
+  if (group === "negative_lookahead") return "input_end";
+  return null;
+}
+
+/**
+ * Source of imported backreferences and named groups, kept in case the builder can't emit them
+ */
+const verbatimSources = new WeakMap<RegexCriterion, string>();
+
+/**
+ * Records the source a criterion was imported from and returns it
+ */
+function withSource(c: RegexCriterion, source: string, node: RegexNode): RegexCriterion {
+  verbatimSources.set(c, source.slice(node.start, node.end));
+  return c;
+}
+
+/**
+ * Replaces group references the builder would drop or rename with raw fragments of their source
+ * buildRegex() leaves out backreferences to groups that don't come before them (legal in
+ * JavaScript, where they match the empty string) and emits repeated group names unnamed, so
+ * keeping them as criteria would silently change the pattern.
+ */
+function keepInvalidReferences(criteria: RegexCriterion[], warnings: string[]): RegexCriterion[] {
+  const errors = new Map(validateGroupReferences(criteria).map((e) => [e.criterionId, e.message]));
+  if (errors.size === 0) return criteria;
+
+  const replace = (items: RegexCriterion[]): RegexCriterion[] =>
+    items.map((c) => {
+      const message = errors.get(c.id);
+      const text = verbatimSources.get(c);
+      if (message && text !== undefined) {
+        warnings.push(`${message}, so "${text}" was kept as a raw fragment`);
+        return criterion("raw", text);
+      }
+      return c.children ? { ...c, children: replace(c.children) } : c;
+    });
+  return replace(criteria);
+}
+
+/**
+ * Switches line anchors to input anchors, which is what ^ and $ mean without the m flag
+ */
+function toInputAnchors(criteria: RegexCriterion[]): RegexCriterion[] {
+  const inputTypes: Record<string, string> = { line_start: "input_start", line_end: "input_end" };
+  return criteria.map((c) => ({
+    ...c,
+    type: inputTypes[c.type] ?? c.type,
+    ...(c.children && { children: toInputAnchors(c.children) }),
+  }));
+}
+
+/**
+ * Converts a single term (possibly quantified) into a criterion
+ * Falls back to a raw fragment for anything the criterion model cannot express
+ */
+function termToCriterion(node: RegexNode, source: string): RegexCriterion {
+  let atom = node;
+  let quantifier: Pick<RegexCriterion, "quantifier" | "min" | "max"> | null = { quantifier: "one" };
+  if (node.kind === "quantifier") {
+    atom = node.body;
+    quantifier = quantifierFields(node, source);
+  }
+  if (quantifier === null) return rawFragment(source, node);
+
+  switch (atom.kind) {
+    case "literal":
+      return isPlainLiteral(atom)
+        ? criterion("literal", atom.char, quantifier)
+        : rawFragment(source, node);
+    case "any":
+      return criterion("any_char", "", quantifier);
+    case "class_escape": {
+      const property = atom.escape.match(/^([pP])\{(.+)\}$/);
+      if (property) {
+        const type = property[1] === "p" ? "unicode_property" : "not_unicode_property";
+        return criterion(type, property[2], quantifier);
+      }
+      const types: Record<string, string> = { d: "digit", w: "word_char", s: "whitespace" };
+      return atom.escape in types
+        ? criterion(types[atom.escape], "", quantifier)
+        : rawFragment(source, node);
+    }
+    case "backreference":
+      return withSource(criterion("backreference", atom.ref, quantifier), source, node);
+    case "assertion":
+      if (atom.assertion === "word_boundary" || atom.assertion === "non_word_boundary") {
+        // Quantified assertions are a syntax error, so there is no quantifier to keep
+        return criterion(atom.assertion);
+      }
+      break;
+    case "char_class":
+      if (atom.negated) return criterion("not", atom.body, quantifier);
+      if (atom.body === "A-Z") return criterion("letter_upper", "", quantifier);
+      if (atom.body === "a-z") return criterion("letter_lower", "", quantifier);
+      return criterion("custom_class", atom.body, quantifier);
+    case "group": {
+      if (atom.group === "capture") {
+        return withChildren(criterion("group", "", quantifier), bodyToCriteria(atom.body, source));
+      }
+      if (atom.group === "named") {
+        return withSource(
+          withChildren(
+            criterion("named_group", atom.name, quantifier),
+            bodyToCriteria(atom.body, source)
+          ),
+          source,
+          node
+        );
+      }
+      if (atom.group in LOOKAROUND_PREFIXES) {
+        // Quantified lookarounds are legal but meaningless; keep them verbatim
+        if (node.kind === "quantifier") break;
+        const inputAnchor = inputAnchorType(atom.group, atom.body);
+        if (inputAnchor) return criterion(inputAnchor);
+        const text = literalText(atom.body);
+        return text !== null
+          ? criterion(atom.group, text)
+          : withChildren(criterion(atom.group), bodyToCriteria(atom.body, source));
+      }
+      if (atom.group !== "non_capture") break;
+      const text = literalText(atom.body);
+      if (text) return criterion("literal", text, quantifier);
+      const options = alternationValue(atom.body);
+      if (options !== null) return criterion("or", options, quantifier);
+      return withChildren(criterion("sequence", "", quantifier), bodyToCriteria(atom.body, source));
+    }
+  }
+  return rawFragment(source, node);
+}
+
+/**
+ * Converts an alternation into an "or" criterion
+ * Literal-only alternations use the compact comma-separated value; otherwise each branch
+ * becomes a child (wrapped in a "sequence" when it holds more than one criterion)
+ */
+function alternationToCriterion(node: RegexAlternationNode, source: string): RegexCriterion {
+  const options = alternationValue(node);
+  if (options !== null) return criterion("or", options);
+  const branches = node.branches.map((branch) => {
+    const items = sequenceToCriteria(branch, source);
+    return items.length === 1 ? items[0] : withChildren(criterion("sequence"), items);
+  });
+  return withChildren(criterion("or"), branches);
+}
+
+/**
+ * Converts the body of a group into child criteria
+ */
+function bodyToCriteria(
+  body: RegexAlternationNode | RegexSequenceNode,
+  source: string
+): RegexCriterion[] {
+  return body.kind === "alternation"
+    ? [alternationToCriterion(body, source)]
+    : sequenceToCriteria(body, source);
+}
+
+/**
+ * Converts the items of a sequence into criteria
+ * Reverses the shapes buildRegex() emits: `^` plus literal text becomes starts_with,
+ * literal text plus `$` becomes ends_with and runs of literal characters merge into one literal.
+ * Other `^` and `$` become line anchors.
+ */
+function sequenceToCriteria(sequence: RegexSequenceNode, source: string): RegexCriterion[] {
+  const { items } = sequence;
+  const isAnchor = (node: RegexNode | undefined, assertion: "start" | "end") =>
+    node?.kind === "assertion" && node.assertion === assertion;
+
+  // ^literal$ across the whole pattern
+  if (
+    items.length >= 2 &&
+    isAnchor(items[0], "start") &&
+    isAnchor(items[items.length - 1], "end") &&
+    items.slice(1, -1).every(isPlainLiteral)
+  ) {
+    const value = items
+      .slice(1, -1)
+      .map((n) => (n.kind === "literal" ? n.char : ""))
+      .join("");
+    return [criterion("exact", value)];
+  }
+
+  const criteria: RegexCriterion[] = [];
+  // Literal criteria that may absorb a following `$` into an ends_with
+  const mergeable = new Set<RegexCriterion>();
+  let i = 0;
+
+  while (i < items.length) {
+    const node = items[i];
+
+    if (isPlainLiteral(node) || isAnchor(node, "start")) {
+      const anchored = isAnchor(node, "start");
+      let j = anchored ? i + 1 : i;
+      let value = "";
+      while (j < items.length && isPlainLiteral(items[j])) {
+        value += (items[j] as RegexNode & { kind: "literal" }).char;
+        j++;
+      }
+      // A bare ^ is a standalone anchor; parseRegex() picks line or input start from the flags
+      const run = criterion(anchored ? (value ? "starts_with" : "line_start") : "literal", value);
+      if (!anchored) mergeable.add(run);
+      criteria.push(run);
+      i = j;
+      continue;
+    }
+
+    if (isAnchor(node, "end")) {
+      const prev = criteria[criteria.length - 1];
+      if (prev && mergeable.has(prev)) {
+        prev.type = "ends_with";
+      } else {
+        criteria.push(criterion("line_end"));
+      }
+      i++;
+      continue;
+    }
+
+    const converted = termToCriterion(node, source);
+    if (converted.type === "literal" && converted.quantifier === "one") mergeable.add(converted);
+    criteria.push(converted);
+    i++;
+  }
+
+  return criteria;
+}
+
+/**
+ * Parses a regex literal back into editable builder criteria and flags
+ * The inverse of buildRegex(): anything buildRegex() emits imports into criteria that rebuild
+ * an equivalent pattern. Groups and alternations become nested child criteria; constructs the
+ * criterion model cannot represent (`\D`, control characters, ...) are kept verbatim as
+ * "raw" fragment criteria.
+ *
+ * @param input - Regex literal like "/^abc\\d+/gi"; text without slashes is read as a bare pattern
+ * @returns Criteria, flags and warnings, or an error message if the input is not a valid regex
+ *
+ * @example
+ * parseRegex("/^AAA(?:BBB)/i")
+ * // { criteria: [starts_with "AAA", literal "BBB"], flags: { caseInsensitive: true, ... } }
+ */
+export function parseRegex(input: string): ParsedRegex {
+  const flags: RegexFlags = { ...DEFAULT_FLAGS };
+  const warnings: string[] = [];
+  const trimmed = input.trim();
+
+  let pattern = trimmed;
+  let flagStr = "";
+  if (trimmed.startsWith("/")) {
+    const lastSlash = trimmed.lastIndexOf("/");
+    if (lastSlash === 0) {
+      return { criteria: [], flags, warnings, error: "Missing closing slash in regex literal" };
+    }
+    pattern = trimmed.slice(1, lastSlash);
+    flagStr = trimmed.slice(lastSlash + 1);
+  }
+
+  if (!pattern) {
+    return { criteria: [], flags, warnings, error: "Pattern is empty" };
+  }
+  if (!/^[dgimsuvy]*$/.test(flagStr)) {
+    return { criteria: [], flags, warnings, error: `Invalid flags "${flagStr}"` };
+  }
+
+  let root: ReturnType<typeof parsePattern>;
+  try {
+    new RegExp(pattern, flagStr);
+    root = parsePattern(pattern, flagStr);
+  } catch (error) {
+    return {
+      criteria: [],
+      flags,
+      warnings,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  for (const f of flagStr) {
+    if (f in FLAG_KEYS) {
+      flags[FLAG_KEYS[f]] = true;
+    } else {
+      warnings.push(`Flag "${f}" is not supported by the builder and was dropped`);
+    }
+  }
+
+  const criteria = keepInvalidReferences(bodyToCriteria(root, pattern), warnings);
+  return { criteria: flags.multiline ? criteria : toInputAnchors(criteria), flags, warnings };
+}
+
+/**
+ * Checks if pattern source compiles with these flags
+ */
+function compiles(pattern: string, flagStr: string): boolean {
+  try {
+    new RegExp(pattern, flagStr);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds how much of a pattern can become criteria, without trying every prefix
+ * Parse errors report where they happen, so each failed parse moves the end back to that
+ * position. A prefix that parses but doesn't compile (e.g. a class range out of order) is cut
+ * back by binary search over its top-level terms. A prefix that alternates would regroup the
+ * text after it, so it is cut at the first `|`.
+ *
+ * @returns Length of a prefix that parses and compiles, or 0 when there is none
+ */
+function validPrefixLength(pattern: string, flagStr: string): number {
+  let end = pattern.length;
+  while (end > 0) {
+    const prefix = pattern.slice(0, end);
+    let root: ReturnType<typeof parsePattern>;
+    try {
+      root = parsePattern(prefix, flagStr);
+    } catch (error) {
+      const position = error instanceof Error ? error.message.match(/\d+$/) : null;
+      end = Math.min(position ? Number(position[0]) : end - 1, end - 1);
+      continue;
+    }
+    if (end < pattern.length && root.kind === "alternation") {
+      end = root.branches[0].end;
+      continue;
+    }
+    if (compiles(prefix, flagStr)) return end;
+
+    const { items } = root.kind === "alternation" ? root.branches[0] : root;
+    // items[k - 1].end is the prefix with k terms; the empty prefix always compiles
+    let lo = 0;
+    let hi = items.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (compiles(pattern.slice(0, items[mid - 1].end), flagStr)) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo > 0 ? items[lo - 1].end : 0;
+  }
+  return 0;
+}
+
+/**
+ * Parses regex text as it is being typed, so the criteria can follow the text live
+ * Unlike parseRegex() it never fails: a missing closing slash reads the rest as the pattern,
+ * flags the builder can't use are dropped with a warning, and when the pattern doesn't parse
+ * the text before the error becomes criteria and the rest a "raw" fragment, so no text
+ * is lost. The raw fragment keeps the pattern invalid until the text is fixed.
+ *
+ * @param input - Regex literal like "/^abc\\d+/gi", or a bare pattern; trimmed first
+ * @returns Criteria, flags and warnings; never an error
+ *
+ * @example
+ * parseEditedRegex("/ab(c/")
+ * // { criteria: [literal "ab", raw "(c"], flags: DEFAULT_FLAGS, warnings: [] }
+ */
+export function parseEditedRegex(input: string): ParsedRegex {
+  const flags: RegexFlags = { ...DEFAULT_FLAGS };
+  const warnings: string[] = [];
+
+  const trimmed = input.trim();
+
+  let pattern = trimmed;
+  let flagStr = "";
+  if (trimmed.startsWith("/")) {
+    const lastSlash = trimmed.lastIndexOf("/");
+    pattern = lastSlash > 0 ? trimmed.slice(1, lastSlash) : trimmed.slice(1);
+    flagStr = lastSlash > 0 ? trimmed.slice(lastSlash + 1) : "";
+  }
+
+  for (const f of new Set(flagStr)) {
+    if (f in FLAG_KEYS) {
+      flags[FLAG_KEYS[f]] = true;
+    } else {
+      warnings.push(`Flag "${f}" is not supported by the builder and was dropped`);
+    }
+  }
+  if (flags.unicode && flags.unicodeSets) {
+    flags.unicode = false;
+    warnings.push("Flags u and v can't be combined, so u was dropped");
+  }
+  const validFlags = Object.keys(FLAG_KEYS)
+    .filter((f) => flags[FLAG_KEYS[f]])
+    .join("");
+
+  if (!pattern) return { criteria: [], flags, warnings };
+
+  const end = validPrefixLength(pattern, validFlags);
+  if (end > 0) {
+    const prefix = pattern.slice(0, end);
+    const criteria = keepInvalidReferences(
+      bodyToCriteria(parsePattern(prefix, validFlags), prefix),
+      warnings
+    );
+    if (end < pattern.length) criteria.push(criterion("raw", pattern.slice(end)));
+    return { criteria: flags.multiline ? criteria : toInputAnchors(criteria), flags, warnings };
+  }
+  return { criteria: [criterion("raw", pattern)], flags, warnings };
+}
@@ -0,0 +1,465 @@
+import type {
+  RegexAlternationNode,
+  RegexCriterion,
+  RegexFlags,
+  RegexNode,
+  RegexQuantifierNode,
+  RegexSequenceNode,
+} from "@/types/regex";
+import { buildRegex } from "@/lib/regex-utils";
+import { parsePattern } from "@/lib/regex-ast";
+
+/**
+ * How badly a pattern can backtrack: "polynomial" slows down on long inputs,
+ * "exponential" can hang on inputs of a few dozen characters
+ */
+export type RedosRisk = "safe" | "polynomial" | "exponential";
+
+/**
+ * One backtracking hazard found in a pattern
+ */
+export interface RedosFinding {
+  risk: Exclude<RedosRisk, "safe">;
+  /** The part of the pattern that causes it, e.g. "(a+)+" */
+  fragment: string;
+  message: string;
+  suggestion: string;
+  /** The whole pattern source with the fragment rewritten, when a safe rewrite is known */
+  rewrite?: string;
+}
+
+/**
+ * Verdict for a whole pattern: the worst risk among its findings
+ */
+export interface RedosReport {
+  risk: RedosRisk;
+  findings: RedosFinding[];
+}
+
+/**
+ * Characters tried against each part of the pattern to decide whether two parts can match
+ * the same character; literals from the pattern itself are added to these
+ */
+const SAMPLE_CHARACTERS = Array.from("aAzZ09_ \t\n\r-.,:;/@#!?\"'()[]{}+*=<>&%$~|\\^`éÉß中α😀");
+
+/**
+ * Facts about the pattern shared by the checks
+ */
+interface AnalysisContext {
+  source: string;
+  /** Flags that change which characters a part matches (i, s, u, v) */
+  flags: string;
+  alphabet: string[];
+  /** Sample characters each single-character part matches */
+  charSets: Map<RegexNode, Set<string>>;
+  /** Sample characters each part can start with */
+  firstSets: Map<RegexNode, Set<string>>;
+  findings: RedosFinding[];
+}
+
+const RISK_ORDER: RedosRisk[] = ["safe", "polynomial", "exponential"];
+
+/**
+ * True for parts that match exactly one character
+ */
+function isSingleCharacter(node: RegexNode): boolean {
+  return (
+    node.kind === "literal" ||
+    node.kind === "class_escape" ||
+    node.kind === "char_class" ||
+    node.kind === "any"
+  );
+}
+
+/**
+ * Strips capturing and non-capturing groups around a part
+ */
+function unwrap(node: RegexNode): RegexNode {
+  if (node.kind === "group" && !isLookaround(node)) {
+    const body = node.body;
+    if (body.kind === "sequence" && body.items.length === 1) return unwrap(body.items[0]);
+    return body;
+  }
+  return node;
+}
+
+/**
+ * True for zero-width groups, which match no characters themselves
+ */
+function isLookaround(node: RegexNode): boolean {
+  return node.kind === "group" && node.group.includes("look");
+}
+
+/**
+ * Sample characters a single-character part matches, found by running it as its own regex
+ */
+function charSet(node: RegexNode, context: AnalysisContext): Set<string> {
+  const cached = context.charSets.get(node);
+  if (cached) return cached;
+  const set = new Set<string>();
+  try {
+    const re = new RegExp(`^(?:${context.source.slice(node.start, node.end)})$`, context.flags);
+    context.alphabet.forEach((c) => re.test(c) && set.add(c));
+  } catch {
+    // Parts that only make sense in context match nothing here
+  }
+  context.charSets.set(node, set);
+  return set;
+}
+
+/**
+ * True when a part can match the empty string
+ */
+function nullable(node: RegexNode): boolean {
+  switch (node.kind) {
+    case "sequence":
+      return node.items.every(nullable);
+    case "alternation":
+      return node.branches.some(nullable);
+    case "group":
+      return isLookaround(node) || nullable(node.body);
+    case "quantifier":
+      return node.min === 0 || nullable(node.body);
+    case "assertion":
+    case "backreference":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Sample characters a part can start with
+ * Backreferences and lookarounds count as matching nothing, which keeps the checks conservative
+ */
+function firstSet(node: RegexNode, context: AnalysisContext): Set<string> {
+  const cached = context.firstSets.get(node);
+  if (cached) return cached;
+  let set = new Set<string>();
+  if (isSingleCharacter(node)) {
+    set = charSet(node, context);
+  } else if (node.kind === "sequence") {
+    for (const item of node.items) {
+      firstSet(item, context).forEach((c) => set.add(c));
+      if (!nullable(item)) break;
+    }
+  } else if (node.kind === "alternation") {
+    node.branches.forEach((b) => firstSet(b, context).forEach((c) => set.add(c)));
+  } else if (node.kind === "group" && !isLookaround(node)) {
+    set = firstSet(node.body, context);
+  } else if (node.kind === "quantifier" && node.max !== 0) {
+    set = firstSet(node.body, context);
+  }
+  context.firstSets.set(node, set);
+  return set;
+}
+
+function overlaps(a: Set<string>, b: Set<string>): boolean {
+  return Array.from(a).some((c) => b.has(c));
+}
+
+function union(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...Array.from(a), ...Array.from(b)]);
+}
+
+/**
+ * True when a quantifier can repeat a variable number of times
+ */
+function isVariable(q: RegexQuantifierNode): boolean {
+  return q.max === null || q.max > q.min;
+}
+
+/**
+ * Formats a minimum repeat count as a quantifier with no upper bound
+ */
+function unbounded(min: number): string {
+  return min === 0 ? "*" : min === 1 ? "+" : `{${min},}`;
+}
+
+/**
+ * Replaces one part of the pattern, keeping the result only if it is still a valid regex
+ */
+function rewriteSource(node: RegexNode, replacement: string, context: AnalysisContext) {
+  const rewritten =
+    context.source.slice(0, node.start) + replacement + context.source.slice(node.end);
+  try {
+    new RegExp(rewritten, context.flags);
+    return rewritten;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Suggests a linear form for a repeat whose body is another repeat,
+ * e.g. (a+)+ -> (a+) and (\w+\s?)+ -> (\w+(?:\s\w+)*\s?)
+ */
+function rewriteNested(outer: RegexQuantifierNode, context: AnalysisContext): string | undefined {
+  const { source } = context;
+  const group = outer.body;
+  if (group.kind !== "group" || group.body.kind !== "sequence" || outer.max !== null) return;
+  const items = group.body.items;
+  const inner = items[0];
+  if (inner?.kind !== "quantifier" || inner.max !== null || (outer.min === 0 && inner.min > 1)) {
+    return;
+  }
+  const open = source.slice(group.start, group.body.start);
+  const atom = source.slice(inner.body.start, inner.body.end);
+  const repeat = `${atom}${unbounded(outer.min === 0 ? 0 : inner.min)}`;
+
+  if (items.length === 1) return rewriteSource(outer, `${open}${repeat})`, context);
+
+  // A repeated word followed by an optional separator: make the separator lead each extra word
+  const separator = items[1];
+  if (
+    items.length === 2 &&
+    separator.kind === "quantifier" &&
+    separator.min === 0 &&
+    separator.max === 1 &&
+    !overlaps(firstSet(separator.body, context), firstSet(inner.body, context))
+  ) {
+    const sep = source.slice(separator.body.start, separator.body.end);
+    const words = `${atom}${unbounded(inner.min)}(?:${sep}${atom}${unbounded(inner.min)})*${sep}?`;
+    return rewriteSource(outer, `${open}${outer.min === 0 ? `(?:${words})?` : words})`, context);
+  }
+  return undefined;
+}
+
+/**
+ * Suggests a character class for alternatives that each match one character,
+ * e.g. (?:\w|\d)+ -> (?:[\w\d])+
+ */
+function rewriteAlternation(
+  alternation: RegexAlternationNode,
+  context: AnalysisContext
+): string | undefined {
+  const parts: string[] = [];
+  for (const branch of alternation.branches) {
+    const item = branch.items.length === 1 ? branch.items[0] : null;
+    if (item?.kind === "literal") {
+      parts.push(/[\\\][[^-]/.test(item.char) ? `\\${item.char}` : item.char);
+    } else if (item?.kind === "class_escape") {
+      parts.push(`\\${item.escape}`);
+    } else if (item?.kind === "char_class" && !item.negated) {
+      parts.push(item.body);
+    } else {
+      return undefined;
+    }
+  }
+  return rewriteSource(alternation, `[${Array.from(new Set(parts)).join("")}]`, context);
+}
+
+function report(finding: RedosFinding, context: AnalysisContext) {
+  if (
+    !context.findings.some((f) => f.fragment === finding.fragment && f.message === finding.message)
+  ) {
+    context.findings.push(finding);
+  }
+}
+
+/**
+ * Looks inside one iteration of a repeat for a variable-length part that can hand characters
+ * to whatever follows it, including the next iteration; each split multiplies the ways to match
+ *
+ * @param node - Part of the repeated body
+ * @param follow - Characters that can come right after this part within the repeat
+ */
+function findAmbiguousSplit(
+  node: RegexNode,
+  follow: Set<string>,
+  context: AnalysisContext
+): RegexQuantifierNode | null {
+  switch (node.kind) {
+    case "sequence": {
+      let after = follow;
+      for (let i = node.items.length - 1; i >= 0; i--) {
+        const found = findAmbiguousSplit(node.items[i], after, context);
+        if (found) return found;
+        const first = firstSet(node.items[i], context);
+        after = nullable(node.items[i]) ? union(first, after) : first;
+      }
+      return null;
+    }
+    case "alternation":
+      for (const branch of node.branches) {
+        const found = findAmbiguousSplit(branch, follow, context);
+        if (found) return found;
+      }
+      return null;
+    case "group":
+      return isLookaround(node) ? null : findAmbiguousSplit(node.body, follow, context);
+    case "quantifier": {
+      if (node.max !== null && node.max < 2) {
+        return findAmbiguousSplit(node.body, follow, context);
+      }
+      const first = firstSet(node.body, context);
+      if (isVariable(node) && overlaps(first, follow)) return node;
+      return findAmbiguousSplit(node.body, union(first, follow), context);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks one repeat for nested quantifiers and overlapping alternatives
+ */
+function checkRepeat(q: RegexQuantifierNode, context: AnalysisContext) {
+  if (q.max !== null && q.max < 2) return;
+  const { source } = context;
+  const fragment = source.slice(q.start, q.end);
+  const risk = q.max === null ? "exponential" : "polynomial";
+
+  const inner = findAmbiguousSplit(q.body, firstSet(q.body, context), context);
+  if (inner) {
+    const innerText = source.slice(inner.start, inner.end);
+    report(
+      {
+        risk,
+        fragment,
+        message:
+          inner === q.body || unwrap(q.body) === inner
+            ? `${fragment} repeats a repeat, so the same text can be split between them in many ways`
+            : `${innerText} inside ${fragment} can match the same characters as what follows it, so each repetition can be split in many ways`,
+        suggestion:
+          "Make every repetition consume something the inner repeat cannot, such as a required separator, or remove the outer quantifier.",
+        rewrite: rewriteNested(q, context),
+      },
+      context
+    );
+    return;
+  }
+
+  const body = unwrap(q.body);
+  if (body.kind === "alternation") {
+    const firsts = body.branches.map((b) => firstSet(b, context));
+    const clash = firsts.some((a, i) => firsts.slice(i + 1).some((b) => overlaps(a, b)));
+    if (clash) {
+      report(
+        {
+          risk,
+          fragment,
+          message: `The alternatives in ${fragment} can match the same text, and each repetition can pick either one`,
+          suggestion:
+            "Make the alternatives mutually exclusive, or merge single characters into one character class.",
+          rewrite: rewriteAlternation(body, context),
+        },
+        context
+      );
+    }
+  }
+}
+
+/**
+ * Checks a sequence for neighbouring repeats of overlapping characters, e.g. \d+\d* or .*.*
+ * Each way of dividing the text between them is tried before the match fails
+ */
+function checkNeighbours(sequence: RegexSequenceNode, context: AnalysisContext) {
+  const { source } = context;
+  const repeatsOneCharacter = (node: RegexNode): node is RegexQuantifierNode =>
+    node.kind === "quantifier" && node.max === null && isSingleCharacter(unwrap(node.body));
+
+  sequence.items.forEach((a, i) => {
+    if (!repeatsOneCharacter(a)) return;
+    // Compare with the next repeats, as long as only optional parts separate them
+    for (const b of sequence.items.slice(i + 1)) {
+      if (
+        repeatsOneCharacter(b) &&
+        overlaps(charSet(unwrap(a.body), context), charSet(unwrap(b.body), context))
+      ) {
+        const left = source.slice(a.start, a.end);
+        const right = source.slice(b.start, b.end);
+        report(
+          {
+            risk: "polynomial",
+            fragment: source.slice(a.start, b.end),
+            message: `${left} and ${right} can match the same characters, so the text can be divided between them in many ways`,
+            suggestion:
+              "Let only one of the repeats match the shared characters, e.g. exclude them from one side with a negated class.",
+          },
+          context
+        );
+        return;
+      }
+      if (!nullable(b)) return;
+    }
+  });
+}
+
+/**
+ * Visits every part of the pattern
+ */
+function walk(node: RegexNode, context: AnalysisContext) {
+  switch (node.kind) {
+    case "sequence":
+      checkNeighbours(node, context);
+      node.items.forEach((item) => walk(item, context));
+      break;
+    case "alternation":
+      node.branches.forEach((branch) => walk(branch, context));
+      break;
+    case "group":
+      walk(node.body, context);
+      break;
+    case "quantifier":
+      checkRepeat(node, context);
+      walk(node.body, context);
+      break;
+  }
+}
+
+/**
+ * Statically checks a pattern source for catastrophic backtracking (ReDoS)
+ * Looks for nested repeats that can split the same text between them, overlapping alternatives
+ * under a repeat, and neighbouring repeats of the same characters. The checks are heuristics:
+ * they can miss hazards and flag some harmless patterns, so the verdict is a warning only.
+ *
+ * @param source - Pattern source without slashes
+ * @param flags - Flag string; i, s, u and v change which characters parts match
+ * @returns Worst risk and one finding per hazard, or "safe" for invalid patterns
+ *
+ * @example
+ * analyzePatternRedos("^(\\w+\\s?)+$").risk // "exponential"
+ */
+export function analyzePatternRedos(source: string, flags = ""): RedosReport {
+  let root: RegexAlternationNode | RegexSequenceNode;
+  try {
+    new RegExp(source, flags);
+    root = parsePattern(source, flags);
+  } catch {
+    return { risk: "safe", findings: [] };
+  }
+
+  const alphabet = new Set(SAMPLE_CHARACTERS);
+  // Add the pattern's own characters so literals and class members are represented
+  Array.from(source).forEach((c) => alphabet.add(c));
+  const context: AnalysisContext = {
+    source,
+    flags: flags.replace(/[^isuv]/g, ""),
+    alphabet: Array.from(alphabet),
+    charSets: new Map(),
+    firstSets: new Map(),
+    findings: [],
+  };
+  walk(root, context);
+
+  const risk = context.findings.reduce<RedosRisk>(
+    (worst, f) => (RISK_ORDER.indexOf(f.risk) > RISK_ORDER.indexOf(worst) ? f.risk : worst),
+    "safe"
+  );
+  return { risk, findings: context.findings };
+}
+
+/**
+ * Checks the pattern built from criteria for catastrophic backtracking
+ *
+ * @param criteria - Criteria to build the pattern from
+ * @param flags - Regex flags
+ * @returns Verdict for the generated pattern
+ */
+export function analyzeRedos(criteria: RegexCriterion[], flags: RegexFlags): RedosReport {
+  const literal = buildRegex(criteria, flags);
+  if (!literal || literal === "//") return { risk: "safe", findings: [] };
+  const lastSlash = literal.lastIndexOf("/");
+  return analyzePatternRedos(literal.slice(1, lastSlash), literal.slice(lastSlash + 1));
+}
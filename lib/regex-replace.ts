@@ -0,0 +1,178 @@
+import type { CaptureGroupInfo } from "@/types/regex";
+import type { MatchSpan } from "@/lib/regex-utils";
+
+/**
+ * One replaced match: where it was in the original text and what replaced it
+ */
+export interface ReplacementPart {
+  /** Offset of the match in the original text */
+  start: number;
+  end: number;
+  /** Offset of the replacement in the output */
+  outputStart: number;
+  original: string;
+  replacement: string;
+}
+
+/**
+ * Result of applying a replacement template to the test text
+ */
+export interface ReplacementPreview {
+  output: string;
+  /** One entry per replaced match, in order */
+  parts: ReplacementPart[];
+}
+
+/**
+ * Reads a $n or $nn group reference at position i (just after the $)
+ * Follows String.prototype.replace: two digits win when that group exists, then one digit;
+ * $0 and references past the last group are not references
+ *
+ * @returns The group number and how many digits it used, or null
+ */
+function readGroupNumber(
+  template: string,
+  i: number,
+  groupCount: number
+): { number: number; length: number } | null {
+  const two = template.slice(i, i + 2);
+  if (/^\d\d$/.test(two) && Number(two) >= 1 && Number(two) <= groupCount) {
+    return { number: Number(two), length: 2 };
+  }
+  const one = template[i];
+  if (/^\d$/.test(one ?? "") && Number(one) >= 1 && Number(one) <= groupCount) {
+    return { number: Number(one), length: 1 };
+  }
+  return null;
+}
+
+/**
+ * Expands a replacement template for one match, exactly as String.prototype.replace does
+ * Supports $$, $&, $`, $', $n/$nn and $<name>; anything else after $ is kept literally.
+ *
+ * @param template - Replacement template, e.g. "$<year>-$1"
+ * @param match - The match being replaced
+ * @param text - The whole text being searched (for $` and $')
+ * @returns Text to insert in place of the match
+ */
+export function expandReplacement(template: string, match: MatchSpan, text: string): string {
+  const hasNames = match.groups.some((g) => g.name);
+  let result = "";
+  let i = 0;
+  while (i < template.length) {
+    const ch = template[i];
+    const next = template[i + 1];
+    if (ch !== "$" || next === undefined) {
+      result += ch;
+      i++;
+      continue;
+    }
+    if (next === "$") {
+      result += "$";
+      i += 2;
+    } else if (next === "&") {
+      result += match.text;
+      i += 2;
+    } else if (next === "`") {
+      result += text.slice(0, match.start);
+      i += 2;
+    } else if (next === "'") {
+      result += text.slice(match.end);
+      i += 2;
+    } else if (next === "<" && hasNames && template.indexOf(">", i) !== -1) {
+      const close = template.indexOf(">", i);
+      const name = template.slice(i + 2, close);
+      result += match.groups.find((g) => g.name === name)?.text ?? "";
+      i = close + 1;
+    } else {
+      const ref = readGroupNumber(template, i + 1, match.groups.length);
+      if (ref) {
+        result += match.groups[ref.number - 1].text ?? "";
+        i += 1 + ref.length;
+      } else {
+        result += "$";
+        i++;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies a replacement template to every match found by testRegexSafe()
+ * Uses the matches already found instead of matching again, so a slow pattern only runs once
+ *
+ * @param text - The test text
+ * @param spans - Matches in the text; every match with g, only the first otherwise
+ * @param template - Replacement template
+ * @returns The replaced text and each replacement made
+ *
+ * @example
+ * previewReplacement("a1b2", testRegexSafe("/\\d/g", "a1b2").spans, "<$&>")
+ * // { output: "a<1>b<2>", parts: [...] }
+ */
+export function previewReplacement(
+  text: string,
+  spans: MatchSpan[],
+  template: string
+): ReplacementPreview {
+  let output = "";
+  let last = 0;
+  const parts = spans.map((m): ReplacementPart => {
+    output += text.slice(last, m.start);
+    const replacement = expandReplacement(template, m, text);
+    const part = {
+      start: m.start,
+      end: m.end,
+      outputStart: output.length,
+      original: m.text,
+      replacement,
+    };
+    output += replacement;
+    last = m.end;
+    return part;
+  });
+  return { output: output + text.slice(last), parts };
+}
+
+/**
+ * Finds group references in a template that won't insert what they appear to
+ *
+ * @param template - Replacement template
+ * @param groups - Capture groups in the pattern, from listCaptureGroups()
+ * @returns One warning per problem reference
+ */
+export function validateReplacement(template: string, groups: CaptureGroupInfo[]): string[] {
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const names = groups.map((g) => g.name).filter((n): n is string => !!n);
+
+  for (let i = 0; i < template.length; i++) {
+    if (template[i] !== "$") continue;
+    const next = template[i + 1];
+    if (next === "$") {
+      i++;
+    } else if (next === "<") {
+      const close = template.indexOf(">", i);
+      if (close === -1) continue;
+      const name = template.slice(i + 2, close);
+      if (names.length === 0) {
+        warn(`$<${name}> is inserted as plain text because the pattern has no named groups`);
+      } else if (!names.includes(name)) {
+        warn(`There is no group named "${name}", so $<${name}> inserts nothing`);
+      }
+      i = close;
+    } else if (next !== undefined && /\d/.test(next)) {
+      const ref = readGroupNumber(template, i + 1, groups.length);
+      if (ref) {
+        i += ref.length;
+      } else if (next !== "0") {
+        const count = groups.length === 1 ? "1 group" : `${groups.length} groups`;
+        warn(`$${next} is inserted as plain text because the pattern has ${count}`);
+      }
+    }
+  }
+  return warnings;
+}
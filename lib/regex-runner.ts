@@ -0,0 +1,170 @@
+import { REGEX_TIMEOUT_MS } from "@/lib/constants";
+import type { RegexTestResult } from "@/lib/regex-utils";
+
+/**
+ * Message sent to the worker: one test string to run against one pattern
+ */
+export interface RegexWorkerRequest {
+  id: number;
+  pattern: string;
+  input: string;
+}
+
+/**
+ * Message sent back by the worker, once when it has loaded and once per request
+ */
+export type RegexWorkerResponse =
+  | { type: "ready" }
+  | { type: "result"; id: number; result: RegexTestResult };
+
+/**
+ * The parts of a Web Worker the runner uses, so tests can supply a fake
+ */
+export interface RegexWorker {
+  onmessage: ((event: MessageEvent<RegexWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  postMessage(message: RegexWorkerRequest): void;
+  terminate(): void;
+}
+
+/**
+ * Runs pattern tests off the main thread
+ */
+export interface RegexRunner {
+  /**
+   * Tests one string; resolves with a timed-out result instead of hanging
+   * A newer run() replaces one still waiting in the queue, which resolves with an error unrun
+   */
+  run(pattern: string, input: string): Promise<RegexTestResult>;
+  /** Tests many strings in order, each with its own timeout */
+  runAll(pattern: string, inputs: string[]): Promise<RegexTestResult[]>;
+  /** Stops the worker and settles any pending tests with an error */
+  dispose(): void;
+}
+
+interface Job extends RegexWorkerRequest {
+  resolve: (result: RegexTestResult) => void;
+  /** Whether a newer run() makes this job pointless (true for run(), false for runAll()) */
+  replaceable: boolean;
+}
+
+/**
+ * Starts the worker that runs testRegexSafe()
+ */
+function spawnRegexWorker(): RegexWorker {
+  return new Worker(new URL("./regex-worker.ts", import.meta.url)) as RegexWorker;
+}
+
+/**
+ * Builds a failed result with the given message
+ */
+function failure(error: string): RegexTestResult {
+  return { matches: false, matchedParts: [], namedGroups: [], spans: [], error };
+}
+
+/**
+ * Creates a runner that tests patterns in a Web Worker
+ * A test that runs past the timeout (e.g. catastrophic backtracking) has its worker terminated
+ * and replaced, so one bad pattern never freezes the page. Tests run one at a time, in order.
+ *
+ * @param createWorker - Starts a worker; defaults to lib/regex-worker.ts
+ * @param timeoutMs - How long one test may run, counted from when the worker receives it
+ * @returns Runner to share between the test panel and bulk testing
+ *
+ * @example
+ * const runner = createRegexRunner();
+ * await runner.run("/(a+)+$/", "a".repeat(40) + "!");
+ * // { matches: false, ..., error: "Pattern took longer than 100ms and was stopped", timedOut: true }
+ */
+export function createRegexRunner(
+  createWorker: () => RegexWorker = spawnRegexWorker,
+  timeoutMs = REGEX_TIMEOUT_MS
+): RegexRunner {
+  const queue: Job[] = [];
+  let worker: RegexWorker | null = null;
+  let ready = false;
+  let current: Job | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let nextId = 0;
+
+  const settle = (result: RegexTestResult) => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const job = current;
+    current = null;
+    job?.resolve(result);
+  };
+
+  const stop = () => {
+    worker?.terminate();
+    worker = null;
+    ready = false;
+  };
+
+  // Sends the next queued test once the worker has loaded and is idle
+  const pump = () => {
+    if (current || !ready || !worker) return;
+    const job = queue.shift();
+    if (!job) return;
+    current = job;
+    timer = setTimeout(() => {
+      // A worker stuck in a match cannot be interrupted, only replaced
+      stop();
+      settle({
+        ...failure(`Pattern took longer than ${timeoutMs}ms and was stopped`),
+        timedOut: true,
+      });
+      start();
+    }, timeoutMs);
+    worker.postMessage({ id: job.id, pattern: job.pattern, input: job.input });
+  };
+
+  const start = () => {
+    const spawned = createWorker();
+    spawned.onmessage = (event) => {
+      if (worker !== spawned) return;
+      const message = event.data;
+      if (message.type === "ready") {
+        ready = true;
+      } else if (current && message.id === current.id) {
+        settle(message.result);
+      }
+      pump();
+    };
+    spawned.onerror = (event) => {
+      event.preventDefault();
+      if (worker !== spawned) return;
+      // Don't respawn here: a worker that fails to load would fail again in a loop
+      stop();
+      settle(failure("The pattern tester stopped unexpectedly"));
+      queue.splice(0).forEach((job) => job.resolve(failure("The pattern tester is unavailable")));
+    };
+    worker = spawned;
+    ready = false;
+  };
+
+  const enqueue = (pattern: string, input: string, replaceable: boolean) =>
+    new Promise<RegexTestResult>((resolve) => {
+      queue.push({ id: nextId++, pattern, input, resolve, replaceable });
+      if (!worker) start();
+      pump();
+    });
+
+  return {
+    run: (pattern, input) => {
+      // Under fast typing only the latest test matters; drop the ones that haven't started
+      for (let i = queue.length - 1; i >= 0; i--) {
+        if (queue[i].replaceable) {
+          queue.splice(i, 1)[0].resolve(failure("Replaced by a newer test"));
+        }
+      }
+      return enqueue(pattern, input, true);
+    },
+    runAll: (pattern, inputs) => Promise.all(inputs.map((input) => enqueue(pattern, input, false))),
+    dispose: () => {
+      stop();
+      settle(failure("The pattern tester was stopped"));
+      queue.splice(0).forEach((job) => job.resolve(failure("The pattern tester was stopped")));
+    },
+  };
+}
@@ -0,0 +1,444 @@
+import type { RegexCriterion, RegexFlags, RegexNode } from "@/types/regex";
+import { ANCHOR_TYPES, CRITERION_TYPES } from "@/lib/constants";
+import { parsePattern } from "@/lib/regex-ast";
+import {
+  buildRegex,
+  getGroupNumbers,
+  getQuantifierError,
+  hasChildren,
+  testRegexSafe,
+} from "@/lib/regex-utils";
+
+/**
+ * How many samples to generate, and the seed that makes them reproducible
+ */
+export interface SampleOptions {
+  count: number;
+  seed: number;
+}
+
+/**
+ * A string one mutation away from matching
+ */
+export interface NearMiss {
+  text: string;
+  /** Id of the criterion that was mutated */
+  criterionId: string;
+  /** What was changed, e.g. 'Digit got "x"' */
+  change: string;
+}
+
+/**
+ * Strings generated for a pattern, each checked against it
+ */
+export interface GeneratedSamples {
+  /** Strings the pattern matches */
+  matches: string[];
+  /** Strings the pattern doesn't match */
+  nearMisses: NearMiss[];
+}
+
+/**
+ * Characters single-character criteria are filled from
+ */
+const SAMPLE_ALPHABET = Array.from(
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 \t\n_-.,:;!?@#$%&*+=/\\()[]{}<>'\"éßα中😀"
+);
+
+/**
+ * Criteria that match one character from a set
+ */
+const CLASS_TYPES: readonly string[] = [
+  "digit",
+  "word_char",
+  "whitespace",
+  "any_char",
+  "letter_upper",
+  "letter_lower",
+  "custom_class",
+  "unicode_property",
+  "not_unicode_property",
+  "not",
+];
+
+/**
+ * Criteria that match no text, so there is nothing to generate or mutate
+ */
+const ZERO_WIDTH_TYPES: readonly string[] = [
+  ...ANCHOR_TYPES,
+  "negative_lookahead",
+  "negative_lookbehind",
+];
+
+/**
+ * Unbounded quantifiers repeat at most this many times more than their minimum
+ */
+const EXTRA_REPEATS = 2;
+
+/**
+ * Candidates tried per requested sample before giving up
+ */
+const ATTEMPTS_PER_SAMPLE = 20;
+
+/**
+ * State shared while generating one string
+ */
+interface GenerateContext {
+  random: () => number;
+  flags: RegexFlags;
+  /** Flags that change which characters a class matches */
+  classFlags: string;
+  groupNumbers: Map<string, number>;
+  /** Text captured so far, keyed by group number and name, for backreferences */
+  captures: Map<string, string>;
+  /** Characters matching each class source, and those not matching it */
+  classCache: Map<string, { matching: string[]; other: string[] }>;
+  /** Criterion to break, and what was done to it once it has been */
+  mutation?: { criterionId: string; change?: string };
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ *
+ * @param seed - Any integer; the same seed always gives the same sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T | undefined {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Splits the sample alphabet by whether each character matches a single-character source
+ */
+function classCharacters(source: string, context: GenerateContext) {
+  let entry = context.classCache.get(source);
+  if (!entry) {
+    entry = { matching: [], other: [] };
+    try {
+      const regex = new RegExp(`^(?:${source})$`, context.classFlags);
+      for (const c of SAMPLE_ALPHABET) (regex.test(c) ? entry.matching : entry.other).push(c);
+    } catch {
+      // Left empty: nothing can be generated for an invalid class
+    }
+    context.classCache.set(source, entry);
+  }
+  return entry;
+}
+
+/**
+ * Pattern source for one repetition of a single-character criterion
+ */
+function classSource(c: RegexCriterion, flags: RegexFlags): string {
+  const literal = buildRegex([{ ...c, quantifier: "one" }], flags);
+  return literal.slice(1, literal.lastIndexOf("/"));
+}
+
+/**
+ * How many times a criterion may repeat, capping unbounded quantifiers
+ */
+function repeatRange(c: RegexCriterion): [number, number] {
+  if (ZERO_WIDTH_TYPES.includes(c.type) || getQuantifierError(c)) return [1, 1];
+  const min = c.min ?? 0;
+  switch (c.quantifier) {
+    case "zero_or_more":
+    case "lazy":
+      return [0, EXTRA_REPEATS];
+    case "one_or_more":
+    case "one_or_more_lazy":
+      return [1, 1 + EXTRA_REPEATS];
+    case "optional":
+    case "optional_lazy":
+      return [0, 1];
+    case "exactly":
+      return [min, min];
+    case "at_least":
+    case "at_least_lazy":
+      return [min, min + EXTRA_REPEATS];
+    case "between":
+    case "between_lazy":
+      return [min, c.max ?? min];
+    default:
+      return [1, 1];
+  }
+}
+
+/**
+ * Generates text for a node of a parsed raw fragment
+ */
+function generateNode(node: RegexNode, source: string, context: GenerateContext): string {
+  const { random } = context;
+  switch (node.kind) {
+    case "alternation": {
+      const branch = pick(random, node.branches);
+      return branch ? generateNode(branch, source, context) : "";
+    }
+    case "sequence":
+      return node.items.map((item) => generateNode(item, source, context)).join("");
+    case "group":
+      return node.group.startsWith("negative") ? "" : generateNode(node.body, source, context);
+    case "quantifier": {
+      const count = randomInt(random, node.min, node.max ?? node.min + EXTRA_REPEATS);
+      return Array.from({ length: count }, () => generateNode(node.body, source, context)).join("");
+    }
+    case "literal":
+      return node.char;
+    case "class_escape":
+    case "char_class":
+    case "any":
+      return (
+        pick(random, classCharacters(source.slice(node.start, node.end), context).matching) ?? ""
+      );
+    case "backreference":
+      return context.captures.get(node.ref) ?? "";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Generates text for pattern source the criteria model can't represent
+ */
+function generateSource(source: string, context: GenerateContext): string {
+  try {
+    return generateNode(parsePattern(source, context.classFlags), source, context);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Generates text for one repetition of a criterion
+ */
+function generateOnce(c: RegexCriterion, context: GenerateContext): string {
+  const { random } = context;
+  if (CLASS_TYPES.includes(c.type)) {
+    return pick(random, classCharacters(classSource(c, context.flags), context).matching) ?? "";
+  }
+  if (ZERO_WIDTH_TYPES.includes(c.type)) return "";
+
+  switch (c.type) {
+    case "group":
+    case "named_group": {
+      const text = hasChildren(c)
+        ? generateSequence(c.children, context)
+        : c.type === "group"
+          ? generateSource(c.value, context)
+          : "";
+      const number = context.groupNumbers.get(c.id);
+      if (number !== undefined) context.captures.set(String(number), text);
+      if (c.type === "named_group" && c.value) context.captures.set(c.value, text);
+      return text;
+    }
+    case "sequence":
+    case "lookahead":
+    case "lookbehind":
+      // Positive lookarounds are satisfied by writing out what they look for in place
+      return hasChildren(c) ? generateSequence(c.children, context) : c.value;
+    case "or": {
+      if (hasChildren(c)) {
+        const child = pick(random, c.children);
+        return child ? generateSequence([child], context) : "";
+      }
+      return (
+        pick(
+          random,
+          c.value.split(",").map((s) => s.trim())
+        ) ?? ""
+      );
+    }
+    case "backreference":
+      return context.captures.get(c.value) ?? "";
+    case "raw":
+      return generateSource(c.value, context);
+    default:
+      // Literal text: contains, starts_with, ends_with, exact and literal
+      return c.value;
+  }
+}
+
+/**
+ * Replaces one character of a literal with a different one from the sample alphabet
+ */
+function mutateText(text: string, context: GenerateContext): string | null {
+  if (!text) return null;
+  const chars = Array.from(text);
+  const index = randomInt(context.random, 0, chars.length - 1);
+  const original = chars[index].toLowerCase();
+  const replacement = pick(
+    context.random,
+    SAMPLE_ALPHABET.filter((c) => c.toLowerCase() !== original)
+  );
+  if (replacement === undefined) return null;
+  chars[index] = replacement;
+  return chars.join("");
+}
+
+/**
+ * Generates a criterion with one thing about it broken
+ *
+ * @returns The mutated text and what changed, or null when this criterion can't be mutated
+ */
+function generateMutated(
+  c: RegexCriterion,
+  [min, max]: [number, number],
+  context: GenerateContext
+): { text: string; change: string } | null {
+  const { random } = context;
+  const label = CRITERION_TYPES.find((t) => t.value === c.type)?.label ?? c.type;
+  const options: (() => { text: string; change: string } | null)[] = [];
+
+  if (CLASS_TYPES.includes(c.type)) {
+    options.push(() => {
+      const wrong = pick(random, classCharacters(classSource(c, context.flags), context).other);
+      if (wrong === undefined) return null;
+      const rest = randomInt(random, Math.max(min - 1, 0), Math.max(max - 1, 0));
+      return {
+        text: wrong + Array.from({ length: rest }, () => generateOnce(c, context)).join(""),
+        change: `${label} got ${JSON.stringify(wrong)}`,
+      };
+    });
+  }
+  const literal =
+    c.type === "or" && !hasChildren(c)
+      ? (pick(
+          random,
+          c.value.split(",").map((s) => s.trim())
+        ) ?? "")
+      : ["contains", "starts_with", "ends_with", "exact", "literal"].includes(c.type)
+        ? c.value
+        : "";
+  if (literal) {
+    options.push(() => {
+      const mutated = mutateText(literal, context);
+      if (mutated === null) return null;
+      return {
+        text: mutated,
+        change: `${JSON.stringify(literal)} became ${JSON.stringify(mutated)}`,
+      };
+    });
+  }
+  if (min > 0) {
+    options.push(() => ({
+      text: Array.from({ length: min - 1 }, () => generateOnce(c, context)).join(""),
+      change:
+        min === 1
+          ? `${label} left out`
+          : `${label} appears ${min - 1} ${min - 1 === 1 ? "time" : "times"} instead of ${min}`,
+    }));
+  }
+
+  const option = pick(random, options);
+  return option ? option() : null;
+}
+
+/**
+ * Generates text for each criterion in turn
+ */
+function generateSequence(criteria: RegexCriterion[], context: GenerateContext): string {
+  return criteria
+    .map((c) => {
+      const range = repeatRange(c);
+      const mutation = context.mutation;
+      if (mutation?.criterionId === c.id && mutation.change === undefined) {
+        const mutated = generateMutated(c, range, context);
+        if (mutated) {
+          mutation.change = mutated.change;
+          return mutated.text;
+        }
+      }
+      const count = randomInt(context.random, range[0], range[1]);
+      return Array.from({ length: count }, () => generateOnce(c, context)).join("");
+    })
+    .join("");
+}
+
+/**
+ * Lists every criterion in the tree that matches text, so can be mutated
+ */
+function mutableCriteria(criteria: RegexCriterion[]): RegexCriterion[] {
+  return criteria.flatMap((c) => [
+    ...(ZERO_WIDTH_TYPES.includes(c.type) ? [] : [c]),
+    ...mutableCriteria(c.children ?? []),
+  ]);
+}
+
+/**
+ * Generates example strings for a pattern: some it matches and some that nearly match
+ * Matches are built by walking the criteria and picking random repeat counts, alternatives
+ * and characters. Near misses break one criterion (a character outside its class, a typo in
+ * its text, or one repetition too few). Every string is tested against the pattern, so
+ * matches always match and near misses never do; fewer than `count` may be found.
+ *
+ * @param criteria - Criteria to generate for
+ * @param flags - Regex flags
+ * @param options - Number of each kind of sample and the random seed
+ * @returns Unique, non-empty matches and near misses
+ *
+ * @example
+ * generateSamples([{ id: "1", type: "digit", value: "", quantifier: "exactly", min: 3 }],
+ *   DEFAULT_FLAGS, { count: 2, seed: 1 })
+ * // { matches: ["059", "267"], nearMisses: [{ text: "44", ... }, { text: "v40", ... }] }
+ */
+export function generateSamples(
+  criteria: RegexCriterion[],
+  flags: RegexFlags,
+  { count, seed }: SampleOptions
+): GeneratedSamples {
+  const samples: GeneratedSamples = { matches: [], nearMisses: [] };
+  const regex = buildRegex(criteria, flags);
+  if (!regex || regex === "//" || testRegexSafe(regex, "").error) return samples;
+
+  const flagString = regex.slice(regex.lastIndexOf("/") + 1);
+  const random = createRandom(seed);
+  const shared = {
+    random,
+    flags,
+    classFlags: flagString.replace(/[^isuv]/g, ""),
+    groupNumbers: getGroupNumbers(criteria),
+    classCache: new Map(),
+  };
+  const matches = (text: string) => testRegexSafe(regex, text).matches;
+
+  for (let i = 0; i < count * ATTEMPTS_PER_SAMPLE && samples.matches.length < count; i++) {
+    const text = generateSequence(criteria, { ...shared, captures: new Map() });
+    if (text && !samples.matches.includes(text) && matches(text)) samples.matches.push(text);
+  }
+
+  const targets = mutableCriteria(criteria);
+  for (let i = 0; i < count * ATTEMPTS_PER_SAMPLE && samples.nearMisses.length < count; i++) {
+    const target = pick(random, targets);
+    if (!target) break;
+    const context: GenerateContext = {
+      ...shared,
+      captures: new Map(),
+      mutation: { criterionId: target.id },
+    };
+    const text = generateSequence(criteria, context);
+    const change = context.mutation?.change;
+    if (
+      text &&
+      change &&
+      !samples.nearMisses.some((m) => m.text === text) &&
+      !samples.matches.includes(text) &&
+      !matches(text)
+    ) {
+      samples.nearMisses.push({ text, criterionId: target.id, change });
+    }
+  }
+  return samples;
+}
@@ -0,0 +1,80 @@
+import type { RegexTestCase } from "@/types/regex";
+import type { RegexRunner } from "@/lib/regex-runner";
+import type { RegexTestResult } from "@/lib/regex-utils";
+
+/**
+ * Outcome of one test case
+ */
+export interface TestCaseResult {
+  caseId: string;
+  passed: boolean;
+  /** Why the case failed, or null when it passed */
+  message: string | null;
+}
+
+/**
+ * Pass and fail counts for a whole suite
+ */
+export interface TestSuiteSummary {
+  passed: number;
+  failed: number;
+}
+
+/**
+ * Checks a test result against what the test case expects
+ *
+ * @param testCase - The saved test case
+ * @param result - Result of testing the pattern against testCase.input
+ * @returns Whether the case passed, and why not if it failed
+ */
+export function checkTestCase(testCase: RegexTestCase, result: RegexTestResult): TestCaseResult {
+  const pass = () => ({ caseId: testCase.id, passed: true, message: null });
+  const fail = (message: string) => ({ caseId: testCase.id, passed: false, message });
+
+  if (result.error) return fail(result.error);
+  if (!testCase.shouldMatch) {
+    return result.matches ? fail(`Matched ${JSON.stringify(result.spans[0].text)}`) : pass();
+  }
+  if (!result.matches) return fail("No match");
+
+  const groups = result.spans[0].groups;
+  for (const [key, expected] of Object.entries(testCase.captures ?? {})) {
+    const group = groups.find((g) => String(g.number) === key || g.name === key);
+    if (!group) return fail(`There is no group ${key}`);
+    const actual = group.text ?? "";
+    if (actual !== expected) {
+      return fail(
+        `Group ${key} captured ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`
+      );
+    }
+  }
+  return pass();
+}
+
+/**
+ * Tests a pattern against every case in a suite, in the worker
+ *
+ * @param runner - Runner from useRegexRunner()
+ * @param pattern - Pattern in /source/flags form
+ * @param tests - The suite to run
+ * @returns One result per case, in the same order
+ */
+export async function runTestSuite(
+  runner: RegexRunner,
+  pattern: string,
+  tests: RegexTestCase[]
+): Promise<TestCaseResult[]> {
+  const results = await runner.runAll(
+    pattern,
+    tests.map((t) => t.input)
+  );
+  return tests.map((t, i) => checkTestCase(t, results[i]));
+}
+
+/**
+ * Counts passing and failing cases
+ */
+export function summarizeTestSuite(results: TestCaseResult[]): TestSuiteSummary {
+  const passed = results.filter((r) => r.passed).length;
+  return { passed, failed: results.length - passed };
+}
@@ -1,4 +1,20 @@
-import { RegexCriterion, RegexFlags } from "@/types/regex";
+import {
+  CaptureGroupInfo,
+  CriterionError,
+  RegexCriterion,
+  RegexFlags,
+  RegexNode,
+} from "@/types/regex";
+import { parsePattern } from "@/lib/regex-ast";
+import {
+  ANCHOR_TYPES,
+  CONTAINER_TYPES,
+  COUNTED_QUANTIFIERS,
+  LINE_ANCHOR_TYPES,
+  LOOKAROUND_PREFIXES,
+  RANGE_QUANTIFIERS,
+  UNQUANTIFIED_TYPES,
+} from "@/lib/constants";
 
 /**
  * Escapes special regex characters to treat them as literals
@@ -19,20 +35,36 @@ export function escapeRegex(str: string): string {
  */
 function needsGrouping(type: string, value: string): boolean {
   // Single-character patterns that don't need grouping
-  const singleCharTypes = ["digit", "word_char", "whitespace", "any_char"];
+  const singleCharTypes = [
+    "digit",
+    "word_char",
+    "whitespace",
+    "any_char",
+    "backreference",
+    "unicode_property",
+    "not_unicode_property",
+  ];
   if (singleCharTypes.includes(type)) return false;
 
+  // Anchors are zero-width and never quantified
+  if (ANCHOR_TYPES.includes(type)) return false;
+
   // Character classes already have delimiters
   const classTypes = ["letter_upper", "letter_lower", "custom_class", "not"];
   if (classTypes.includes(type)) return false;
 
-  // Already grouped patterns
-  if (type === "group" || type === "or") return false;
+  // Already grouped patterns (lookarounds are also zero-width, so never quantified)
+  if (type === "group" || type === "named_group" || type === "or" || type in LOOKAROUND_PREFIXES) {
+    return false;
+  }
 
   // starts_with at the beginning doesn't need grouping (it's first)
   // exact also doesn't need grouping as it's a complete pattern
   if (type === "starts_with" || type === "exact") return false;
 
+  // Raw fragments and sequences only need grouping if a top-level | would leak into neighbours
+  if (type === "raw" || type === "sequence") return hasTopLevelAlternation(value);
+
   // Multi-character patterns need grouping (including ends_with)
   if (type === "contains" || type === "literal" || type === "ends_with") {
     return value.length > 1;
@@ -41,6 +73,39 @@ function needsGrouping(type: string, value: string): boolean {
   return false;
 }
 
+/**
+ * Checks if a raw pattern fragment contains `|` outside of any group
+ * Invalid fragments are treated as not alternating; the error surfaces when testing
+ *
+ * @param fragment - Raw regex source
+ * @returns true if the fragment is an alternation at its top level
+ */
+function hasTopLevelAlternation(fragment: string): boolean {
+  try {
+    return parsePattern(fragment).kind === "alternation";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks if a raw pattern fragment is a single unquantified atom that a quantifier can follow
+ * directly, e.g. `\D`, `[xyz]` or `(a|b)`
+ *
+ * @param fragment - Raw regex source
+ * @returns true if no grouping is needed before quantifying the fragment
+ */
+function isSingleAtom(fragment: string): boolean {
+  try {
+    const root = parsePattern(fragment);
+    if (root.kind !== "sequence" || root.items.length !== 1) return false;
+    const [atom] = root.items;
+    return atom.kind !== "quantifier" && atom.kind !== "assertion";
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Wraps a pattern part in a non-capturing group if needed
  * Used to ensure proper boundaries between concatenated criteria
@@ -54,17 +119,381 @@ function wrapInGroup(part: string, shouldGroup: boolean): string {
 }
 
 /**
- * Builds a regex pattern from criteria and flags
- * Transforms user-selected criteria into a valid regex string
- * Adds proper grouping to ensure patterns combine correctly
+ * Checks a criterion's counted quantifier for missing or inconsistent counts
  *
- * @param criteria - Array of regex criteria to combine
- * @param flags - Regex flags (global, caseInsensitive, etc)
- * @returns Regex string in format /pattern/flags or empty string
+ * @param c - Criterion to check
+ * @returns Error message, or null if the quantifier is valid (or not counted)
+ *
+ * @example
+ * getQuantifierError({ ..., quantifier: "between", min: 5, max: 2 })
+ * // "Minimum (5) cannot be greater than maximum (2)"
  */
-export function buildRegex(criteria: RegexCriterion[], flags: RegexFlags): string {
-  if (criteria.length === 0) return "";
+export function getQuantifierError(c: RegexCriterion): string | null {
+  if (UNQUANTIFIED_TYPES.includes(c.type) || !COUNTED_QUANTIFIERS.includes(c.quantifier)) {
+    return null;
+  }
+  const isCount = (n: number | undefined): n is number =>
+    typeof n === "number" && Number.isInteger(n) && n >= 0;
+  if (!isCount(c.min)) return "Enter a whole number of repetitions";
+  if (!RANGE_QUANTIFIERS.includes(c.quantifier)) return null;
+  if (!isCount(c.max)) return "Enter a whole number for the maximum";
+  if (c.min > c.max) return `Minimum (${c.min}) cannot be greater than maximum (${c.max})`;
+  return null;
+}
+
+/**
+ * Collects quantifier errors for every criterion in the tree
+ * buildRegex() leaves invalid quantifiers out, so the UI should surface these per criterion
+ *
+ * @param criteria - Criteria tree to validate
+ * @returns Errors keyed by criterion id, in tree order
+ */
+export function validateQuantifiers(criteria: RegexCriterion[]): CriterionError[] {
+  return criteria.flatMap((c) => {
+    const error = getQuantifierError(c);
+    const own = error ? [{ criterionId: c.id, message: error }] : [];
+    return [...own, ...validateQuantifiers(c.children ?? [])];
+  });
+}
+
+/**
+ * Collects warnings for line anchors used without the multiline flag
+ * Without m, ^ and $ only match at the ends of the whole input, which is rarely what a
+ * "start of line" criterion intends. These are warnings: the pattern is still valid.
+ *
+ * @param criteria - Criteria tree to check
+ * @param flags - Flags the pattern will be built with
+ * @returns Warnings keyed by criterion id, in tree order
+ */
+export function getAnchorWarnings(criteria: RegexCriterion[], flags: RegexFlags): CriterionError[] {
+  if (flags.multiline) return [];
+  return criteria.flatMap((c) => {
+    const own = LINE_ANCHOR_TYPES.includes(c.type)
+      ? [
+          {
+            criterionId: c.id,
+            message: `Without the Multiline (m) flag this only matches at the ${
+              c.type === "line_start" ? "start" : "end"
+            } of the whole input`,
+          },
+        ]
+      : [];
+    return [...own, ...getAnchorWarnings(c.children ?? [], flags)];
+  });
+}
+
+/**
+ * Returns the quantifier syntax to append after a criterion's pattern
+ * Invalid counted quantifiers produce no syntax rather than a broken pattern like `{5,2}`
+ *
+ * @param c - Criterion whose quantifier to render
+ * @returns Quantifier suffix such as "+", "{2,4}?" or "" for exactly one
+ */
+function quantifierSuffix(c: RegexCriterion): string {
+  if (UNQUANTIFIED_TYPES.includes(c.type) || getQuantifierError(c)) return "";
+  switch (c.quantifier) {
+    case "zero_or_more":
+      return "*";
+    case "one_or_more":
+      return "+";
+    case "optional":
+      return "?";
+    case "exactly":
+      return `{${c.min}}`;
+    case "at_least":
+      return `{${c.min},}`;
+    case "between":
+      return `{${c.min},${c.max}}`;
+    case "lazy":
+      return "*?";
+    case "one_or_more_lazy":
+      return "+?";
+    case "optional_lazy":
+      return "??";
+    case "at_least_lazy":
+      return `{${c.min},}?`;
+    case "between_lazy":
+      return `{${c.min},${c.max}}?`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Checks if a criterion holds child criteria that replace its value
+ * Legacy "group" and "or" criteria without children keep using their text value
+ *
+ * @param c - Criterion to check
+ * @returns true if the criterion's pattern is built from its children
+ */
+export function hasChildren(
+  c: RegexCriterion
+): c is RegexCriterion & { children: RegexCriterion[] } {
+  return CONTAINER_TYPES.includes(c.type) && Array.isArray(c.children) && c.children.length > 0;
+}
+
+/**
+ * Valid capture group names: a JavaScript identifier such as "year", "_id" or "año"
+ */
+const GROUP_NAME_PATTERN = /^[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*$/u;
 
+/**
+ * Lists the capturing groups inside a raw pattern fragment, in the order they open
+ * Invalid fragments contribute no groups; the error surfaces when testing
+ *
+ * @param fragment - Raw regex source
+ * @param flags - Flag string the fragment is parsed with
+ * @returns One entry per capturing group, with its name for named groups
+ */
+function captureGroupsInSource(fragment: string, flags = ""): Array<{ name?: string }> {
+  const groups: Array<{ name?: string }> = [];
+  const visit = (node: RegexNode): void => {
+    switch (node.kind) {
+      case "alternation":
+        node.branches.forEach(visit);
+        break;
+      case "sequence":
+        node.items.forEach(visit);
+        break;
+      case "quantifier":
+        visit(node.body);
+        break;
+      case "group":
+        if (node.group === "capture" || node.group === "named") groups.push({ name: node.name });
+        visit(node.body);
+        break;
+    }
+  };
+  try {
+    visit(parsePattern(fragment, flags));
+  } catch {
+    return [];
+  }
+  return groups;
+}
+
+/**
+ * Walks the criteria tree in pattern order, tracking the capturing groups opened so far
+ * The visitor sees each criterion together with the groups that open before it
+ *
+ * @param criteria - Criteria to walk
+ * @param visit - Called for every criterion before its own group (if any) is counted
+ * @param groups - Groups opened so far; shared across the recursion
+ * @returns Every capturing group in the tree
+ */
+function walkCaptureGroups(
+  criteria: RegexCriterion[],
+  visit: (c: RegexCriterion, before: CaptureGroupInfo[]) => void,
+  groups: CaptureGroupInfo[] = []
+): CaptureGroupInfo[] {
+  for (const c of criteria) {
+    visit(c, [...groups]);
+
+    if (c.type === "group" || c.type === "named_group") {
+      // Invalid or repeated names are emitted as plain numbered groups by buildRegex()
+      const isNamed =
+        c.type === "named_group" &&
+        GROUP_NAME_PATTERN.test(c.value) &&
+        !groups.some((g) => g.name === c.value);
+      groups.push({
+        number: groups.length + 1,
+        name: isNamed ? c.value : undefined,
+        criterionId: c.id,
+      });
+    }
+
+    if (hasChildren(c)) {
+      walkCaptureGroups(c.children, visit, groups);
+    } else if (c.type === "group" || c.type === "raw") {
+      for (const { name } of captureGroupsInSource(c.value)) {
+        groups.push({ number: groups.length + 1, name, criterionId: c.id });
+      }
+    }
+  }
+  return groups;
+}
+
+/**
+ * Lists every capturing group the criteria produce, numbered as the regex engine numbers them
+ *
+ * @param criteria - Criteria tree
+ * @returns Capturing groups in order of their opening parenthesis
+ *
+ * @example
+ * listCaptureGroups([{ type: "named_group", value: "year", ... }, { type: "group", ... }])
+ * // [{ number: 1, name: "year", ... }, { number: 2, ... }]
+ */
+export function listCaptureGroups(criteria: RegexCriterion[]): CaptureGroupInfo[] {
+  return walkCaptureGroups(criteria, () => {});
+}
+
+/**
+ * Maps each criterion that opens a capturing group to the number of its first group
+ *
+ * @param criteria - Criteria tree
+ * @returns Group numbers keyed by criterion id
+ */
+export function getGroupNumbers(criteria: RegexCriterion[]): Map<string, number> {
+  const numbers = new Map<string, number>();
+  for (const group of listCaptureGroups(criteria)) {
+    if (!numbers.has(group.criterionId)) numbers.set(group.criterionId, group.number);
+  }
+  return numbers;
+}
+
+/**
+ * Lists the groups each backreference criterion can refer to (those opened before it)
+ *
+ * @param criteria - Criteria tree
+ * @returns Available groups keyed by backreference criterion id
+ */
+export function getBackreferenceOptions(
+  criteria: RegexCriterion[]
+): Record<string, CaptureGroupInfo[]> {
+  const options: Record<string, CaptureGroupInfo[]> = {};
+  walkCaptureGroups(criteria, (c, before) => {
+    if (c.type === "backreference") options[c.id] = before;
+  });
+  return options;
+}
+
+/**
+ * Collects group name and backreference errors for every criterion in the tree
+ * Named groups need a valid, unique name and backreferences must point at an earlier group.
+ * buildRegex() emits offending named groups as plain groups and leaves offending
+ * backreferences out, so the UI should surface these per criterion.
+ *
+ * @param criteria - Criteria tree to validate
+ * @returns Errors keyed by criterion id, in tree order
+ */
+export function validateGroupReferences(criteria: RegexCriterion[]): CriterionError[] {
+  const errors: CriterionError[] = [];
+  walkCaptureGroups(criteria, (c, before) => {
+    if (c.type === "named_group") {
+      if (!c.value) {
+        errors.push({ criterionId: c.id, message: "Give the group a name" });
+      } else if (!GROUP_NAME_PATTERN.test(c.value)) {
+        errors.push({
+          criterionId: c.id,
+          message:
+            "Group names must start with a letter, _ or $ and contain only letters, digits, _ or $",
+        });
+      } else if (before.some((g) => g.name === c.value)) {
+        errors.push({ criterionId: c.id, message: `Group name "${c.value}" is already used` });
+      }
+    } else if (c.type === "backreference") {
+      const ref = c.value;
+      if (!ref) {
+        errors.push({ criterionId: c.id, message: "Choose an earlier group to match again" });
+      } else if (
+        /^\d+$/.test(ref)
+          ? Number(ref) < 1 || Number(ref) > before.length
+          : !before.some((g) => g.name === ref)
+      ) {
+        errors.push({ criterionId: c.id, message: `No earlier group "${ref}" to refer back to` });
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Settings shared by every level of a buildRegex() call
+ */
+interface BuildContext {
+  /**
+   * Criteria with group reference errors: their named groups are emitted unnamed and their
+   * backreferences are left out, so the pattern stays valid
+   */
+  invalidIds: Set<string>;
+  /** Whether the m flag is on, which turns ^ and $ into line anchors */
+  multiline: boolean;
+  /**
+   * Where each criterion's source was emitted. Offsets are relative to the string returned by
+   * the build function that added them; callers shift them as they embed that string.
+   */
+  spans: CriterionSpan[];
+}
+
+/**
+ * Span of one criterion's source, while a build is in progress
+ */
+interface CriterionSpan extends SourceSpan {
+  id: string;
+}
+
+/**
+ * Moves the spans recorded since `from` right by `by`, after their source was embedded
+ *
+ * @param context - Build whose spans to move
+ * @param from - Index of the first span recorded for the embedded source
+ * @param by - Number of characters placed before the embedded source
+ */
+function shiftSpans(context: BuildContext, from: number, by: number): void {
+  for (let i = from; i < context.spans.length; i++) {
+    context.spans[i].start += by;
+    context.spans[i].end += by;
+  }
+}
+
+/**
+ * Builds the alternatives of an "or" criterion, joined by `|` but not yet grouped
+ * Each child criterion is one branch; use a "sequence" child for multi-criterion branches
+ *
+ * @param c - The "or" criterion
+ * @param context - Settings shared by the whole build
+ * @returns Alternatives source, e.g. "cat|dog"
+ */
+function buildAlternatives(c: RegexCriterion, context: BuildContext): string {
+  if (hasChildren(c)) {
+    let source = "";
+    c.children.forEach((child, i) => {
+      if (i > 0) source += "|";
+      const from = context.spans.length;
+      const branch = buildSequence([child], context);
+      shiftSpans(context, from, source.length);
+      source += branch;
+    });
+    return source;
+  }
+  return c.value
+    .split(",")
+    .map((s) => escapeRegex(s.trim()))
+    .join("|");
+}
+
+/**
+ * Builds the contents of a container from its children
+ * A lone unquantified "or" child is inlined so `(a|b)` is not emitted as `((?:a|b))`
+ *
+ * @param children - Child criteria of a group or sequence
+ * @param context - Settings shared by the whole build
+ * @returns Pattern source for the children
+ */
+function buildContents(children: RegexCriterion[], context: BuildContext): string {
+  const [only] = children;
+  if (children.length === 1 && only.type === "or" && only.quantifier === "one") {
+    const source = buildAlternatives(only, context);
+    context.spans.push({ id: only.id, start: 0, end: source.length });
+    return source;
+  }
+  return buildSequence(children, context);
+}
+
+/**
+ * Matches pattern source ending in an unescaped numeric backreference such as `\1`
+ */
+const ENDS_WITH_NUMERIC_BACKREFERENCE = /(?:^|[^\\])(?:\\\\)*\\[1-9]\d*$/;
+
+/**
+ * Builds the pattern source for a list of criteria, recursing into child criteria
+ * Adds proper grouping to ensure patterns combine correctly
+ *
+ * @param criteria - Criteria to concatenate
+ * @param context - Settings shared by the whole build
+ * @returns Pattern source without slashes or flags
+ */
+function buildSequence(criteria: RegexCriterion[], context: BuildContext): string {
   let pattern = "";
   const hasMultipleCriteria = criteria.length > 1;
 
@@ -74,6 +503,9 @@ export function buildRegex(criteria: RegexCriterion[], flags: RegexFlags): strin
     let part: string;
     // Store anchor separately to prevent it from being wrapped in grouping parentheses
     let anchor = "";
+    // Spans recorded from here on belong to children, placed `nested` characters into part
+    const from = context.spans.length;
+    let nested = 0;
 
     // Transform criterion type to regex pattern
     switch (c.type) {
@@ -112,22 +544,73 @@ export function buildRegex(criteria: RegexCriterion[], flags: RegexFlags): strin
       case "custom_class":
         part = `[${c.value}]`;
         break;
+      case "unicode_property":
+      case "not_unicode_property":
+        // \p{} is a syntax error; leave the criterion out until a property is chosen
+        if (!c.value) continue;
+        part = `\\${c.type === "unicode_property" ? "p" : "P"}{${c.value}}`;
+        break;
+      case "word_boundary":
+        part = "\\b";
+        break;
+      case "non_word_boundary":
+        part = "\\B";
+        break;
+      case "line_start":
+        part = "^";
+        break;
+      case "line_end":
+        part = "$";
+        break;
+      case "input_start":
+        // With m, ^ matches after every newline; "no character before" pins the true start
+        part = context.multiline ? "(?<![\\s\\S])" : "^";
+        break;
+      case "input_end":
+        part = context.multiline ? "(?![\\s\\S])" : "$";
+        break;
       case "group":
-        part = `(${c.value})`;
+        part = hasChildren(c) ? `(${buildContents(c.children, context)})` : `(${c.value})`;
+        nested = 1;
+        break;
+      case "named_group": {
+        const body = buildContents(c.children ?? [], context);
+        const open = context.invalidIds.has(c.id) ? "(" : `(?<${c.value}>`;
+        part = `${open}${body})`;
+        nested = open.length;
+        break;
+      }
+      case "backreference":
+        if (context.invalidIds.has(c.id)) continue;
+        part = /^\d+$/.test(c.value) ? `\\${c.value}` : `\\k<${c.value}>`;
+        break;
+      case "sequence":
+        part = buildContents(c.children ?? [], context);
         break;
       case "or":
-        part = c.value
-          .split(",")
-          .map((s) => escapeRegex(s.trim()))
-          .join("|");
-        part = `(?:${part})`;
+        part = `(?:${buildAlternatives(c, context)})`;
+        nested = 3;
         break;
       case "not":
         part = `[^${c.value}]`;
         break;
+      case "lookahead":
+      case "negative_lookahead":
+      case "lookbehind":
+      case "negative_lookbehind": {
+        const body = hasChildren(c) ? buildContents(c.children, context) : escapeRegex(c.value);
+        const open = `(${LOOKAROUND_PREFIXES[c.type]}`;
+        part = `${open}${body})`;
+        nested = open.length;
+        break;
+      }
       case "literal":
         part = escapeRegex(c.value);
         break;
+      case "raw":
+        // Imported constructs the criterion model cannot represent are emitted verbatim
+        part = c.value;
+        break;
       default:
         part = escapeRegex(c.value);
     }
@@ -136,64 +619,316 @@ export function buildRegex(criteria: RegexCriterion[], flags: RegexFlags): strin
     // Group for two independent reasons:
     // 1. Concatenation: multiple criteria exist, this is not the first, and the type needs grouping
     // 2. Quantifier: a non-trivial quantifier is applied to a multi-character pattern
+    // Raw fragments and sequences are judged on their emitted source; a top-level | in them
+    // leaks into neighbours on either side, so position does not matter
+    const isVerbatim = c.type === "raw" || c.type === "sequence";
+    const groupingValue = isVerbatim ? part : c.value;
     const shouldGroupForConcatenation =
-      hasMultipleCriteria && isNotFirst && needsGrouping(c.type, c.value);
-    const hasNontrivialQuantifier =
-      c.quantifier !== "one" && !["starts_with", "ends_with", "exact"].includes(c.type);
-    const shouldGroupForQuantifier = hasNontrivialQuantifier && needsGrouping(c.type, c.value);
+      hasMultipleCriteria && (isNotFirst || isVerbatim) && needsGrouping(c.type, groupingValue);
+    const quantifier = quantifierSuffix(c);
+    const hasNontrivialQuantifier = quantifier !== "";
+    const shouldGroupForQuantifier =
+      hasNontrivialQuantifier &&
+      (isVerbatim ? !isSingleAtom(part) : needsGrouping(c.type, groupingValue));
     const shouldGroup = shouldGroupForConcatenation || shouldGroupForQuantifier;
 
     // Wrap in group if needed (before quantifiers are applied)
     if (shouldGroup) {
       part = wrapInGroup(part, true);
+      nested += 3;
     }
 
-    // Apply quantifier (skip for anchored patterns)
-    if (!["starts_with", "ends_with", "exact"].includes(c.type)) {
-      switch (c.quantifier) {
-        case "zero_or_more":
-          part += "*";
-          break;
-        case "one_or_more":
-          part += "+";
-          break;
-        case "optional":
-          part += "?";
-          break;
-        case "lazy":
-          part += "*?";
-          break;
-      }
-    }
+    // Apply quantifier (empty for anchored patterns and invalid counts)
+    part += quantifier;
+
+    // A digit right after a numeric backreference would extend its number (\1 then 0 is \10)
+    if (/^\d/.test(part) && ENDS_WITH_NUMERIC_BACKREFERENCE.test(pattern)) pattern += "(?:)";
 
     // Add the part and any anchor
+    const start = pattern.length;
+    shiftSpans(context, from, start + nested);
     pattern += part + anchor;
+    context.spans.push({ id: c.id, start, end: pattern.length });
   }
 
-  // Construct flag string
+  return pattern;
+}
+
+/**
+ * Offsets of one criterion's source within a built pattern, end exclusive
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of building criteria into a pattern and compiling it
+ */
+export interface BuiltRegex {
+  /** Pattern source without slashes or flags */
+  source: string;
+  /** Flags in the canonical order RegExp.prototype.flags uses, e.g. "gi" */
+  flags: string;
+  /** The pattern as /source/flags, the same string buildRegex() returns */
+  regex: string;
+  /** The compiled pattern, or null when there are no criteria or it doesn't compile */
+  compiled: RegExp | null;
+  /**
+   * Where each criterion's source sits in `source`, keyed by criterion id
+   * Covers any grouping and quantifier added for it; criteria left out of the pattern have none
+   */
+  spans: Record<string, SourceSpan>;
+  /** Compile errors attributed to the criteria whose values caused them */
+  errors: CriterionError[];
+  /** Compile error for the whole pattern, set even when no criterion could be blamed */
+  error: string | null;
+}
+
+/**
+ * Criterion types whose value is emitted unescaped, so a bad value breaks the pattern
+ */
+const VERBATIM_VALUE_TYPES: readonly string[] = [
+  "custom_class",
+  "not",
+  "raw",
+  "group",
+  "unicode_property",
+  "not_unicode_property",
+];
+
+/**
+ * Builds the pattern source and flag string, recording where each criterion was emitted
+ */
+function buildSource(
+  criteria: RegexCriterion[],
+  flags: RegexFlags
+): { source: string; flags: string; spans: CriterionSpan[] } {
+  const context: BuildContext = {
+    invalidIds: new Set(validateGroupReferences(criteria).map((e) => e.criterionId)),
+    multiline: flags.multiline,
+    spans: [],
+  };
+  const source = buildSequence(criteria, context);
+
+  // Construct flag string in the canonical order RegExp.prototype.flags uses
   let flagStr = "";
+  if (flags.hasIndices) flagStr += "d";
   if (flags.global) flagStr += "g";
   if (flags.caseInsensitive) flagStr += "i";
   if (flags.multiline) flagStr += "m";
   if (flags.dotAll) flagStr += "s";
+  // u and v together are a SyntaxError; v is the superset, so it wins
+  // \p{...} criteria only parse in Unicode mode, so they switch u on unless v already is
+  const unicode = flags.unicode || requiresUnicode(criteria);
+  if (unicode && !flags.unicodeSets) flagStr += "u";
+  if (flags.unicodeSets) flagStr += "v";
+  if (flags.sticky) flagStr += "y";
+
+  return { source, flags: flagStr, spans: context.spans };
+}
+
+/**
+ * Builds a regex pattern from criteria and flags
+ * Transforms user-selected criteria (including nested child criteria) into a valid regex string
+ *
+ * @param criteria - Array of regex criteria to combine
+ * @param flags - Regex flags (global, caseInsensitive, etc)
+ * @returns Regex string in format /pattern/flags or empty string
+ */
+export function buildRegex(criteria: RegexCriterion[], flags: RegexFlags): string {
+  if (criteria.length === 0) return "";
+  const built = buildSource(criteria, flags);
+  return `/${built.source}/${built.flags}`;
+}
+
+/**
+ * Returns the reason from a RegExp SyntaxError, without the repeated pattern
+ * "Invalid regular expression: /[z-a]/: Range out of order..." becomes "Range out of order..."
+ */
+function syntaxErrorReason(error: unknown): string {
+  if (!(error instanceof Error)) return "Unknown error";
+  return error.message.replace(/^Invalid regular expression: \/[\s\S]*\/[a-z]*: /, "");
+}
+
+/**
+ * Blames compile errors on criteria whose unescaped value doesn't compile on its own
+ * Only the deepest such criteria are blamed, so a bad class inside a group marks the class.
+ */
+function attributeCompileErrors(
+  criteria: RegexCriterion[],
+  source: string,
+  flags: string,
+  spans: Record<string, SourceSpan>
+): CriterionError[] {
+  return criteria.flatMap((c) => {
+    const nested = attributeCompileErrors(c.children ?? [], source, flags, spans);
+    const span = spans[c.id];
+    if (nested.length > 0 || !span || !VERBATIM_VALUE_TYPES.includes(c.type) || hasChildren(c)) {
+      return nested;
+    }
+    try {
+      new RegExp(source.slice(span.start, span.end), flags);
+      return [];
+    } catch (error) {
+      return [{ criterionId: c.id, message: syntaxErrorReason(error) }];
+    }
+  });
+}
+
+/**
+ * Builds criteria into a pattern and compiles it, keeping track of which criterion made what
+ * Values of classes, raw fragments and legacy groups are inserted as typed, so the pattern
+ * can fail to compile; such errors are attributed to the criteria responsible.
+ *
+ * @param criteria - Criteria tree to build
+ * @param flags - Regex flags
+ * @returns Source, flags, the compiled RegExp when valid, criterion spans and errors
+ *
+ * @example
+ * compileCriteria([{ id: "a", type: "custom_class", value: "z-a", quantifier: "one" }], flags)
+ * // { source: "[z-a]", compiled: null, spans: { a: { start: 0, end: 5 } },
+ * //   errors: [{ criterionId: "a", message: "Range out of order in character class" }], ... }
+ */
+export function compileCriteria(criteria: RegexCriterion[], flags: RegexFlags): BuiltRegex {
+  const built = buildSource(criteria, flags);
+  const spans = Object.fromEntries(built.spans.map(({ id, start, end }) => [id, { start, end }]));
+  const result = { source: built.source, flags: built.flags, spans };
+  if (criteria.length === 0) {
+    return { ...result, regex: "", compiled: null, errors: [], error: null };
+  }
+  const regex = `/${built.source}/${built.flags}`;
+  try {
+    const compiled = new RegExp(built.source, built.flags);
+    return { ...result, regex, compiled, errors: [], error: null };
+  } catch (error) {
+    return {
+      ...result,
+      regex,
+      compiled: null,
+      errors: attributeCompileErrors(criteria, built.source, built.flags, spans),
+      error: syntaxErrorReason(error),
+    };
+  }
+}
 
-  return flagStr ? `/${pattern}/${flagStr}` : `/${pattern}/`;
+/**
+ * Checks if any criterion in the tree only works in Unicode mode (u or v flag)
+ *
+ * @param criteria - Criteria tree
+ * @returns true if the tree holds a Unicode property criterion
+ */
+export function requiresUnicode(criteria: RegexCriterion[]): boolean {
+  return criteria.some(
+    (c) =>
+      c.type === "unicode_property" ||
+      c.type === "not_unicode_property" ||
+      requiresUnicode(c.children ?? [])
+  );
+}
+
+/**
+ * Flags that cannot be combined; turning one on turns the other off
+ */
+const EXCLUSIVE_FLAGS: Partial<Record<keyof RegexFlags, keyof RegexFlags>> = {
+  unicode: "unicodeSets",
+  unicodeSets: "unicode",
+};
+
+/**
+ * Sets a single flag, switching off any flag it cannot be combined with (u and v)
+ *
+ * @param flags - Current flags
+ * @param key - Flag to change
+ * @param value - New value for the flag
+ * @returns Updated flags
+ *
+ * @example
+ * setFlag({ ...flags, unicode: true }, "unicodeSets", true) // unicode: false, unicodeSets: true
+ */
+export function setFlag(flags: RegexFlags, key: keyof RegexFlags, value: boolean): RegexFlags {
+  const exclusive = EXCLUSIVE_FLAGS[key];
+  return {
+    ...flags,
+    [key]: value,
+    ...(value && exclusive && { [exclusive]: false }),
+  };
+}
+
+/**
+ * What a capture group captured in one match, with offsets into the test string
+ * Text and offsets are undefined when the group did not take part in the match
+ */
+export interface GroupSpan {
+  /** Group number, counting from 1 */
+  number: number;
+  name?: string;
+  text?: string;
+  start?: number;
+  /** Offset just past the last character (equal to start for an empty capture) */
+  end?: number;
+}
+
+/**
+ * One match: its text, where it starts and ends in the test string, and every capture group
+ */
+export interface MatchSpan {
+  text: string;
+  start: number;
+  end: number;
+  /** One entry per capture group in the pattern, in group number order */
+  groups: GroupSpan[];
+}
+
+/**
+ * Result of testing a string against a built pattern
+ */
+export interface RegexTestResult {
+  matches: boolean;
+  matchedParts: string[];
+  /** What each named group captured, one entry per match; empty without named groups */
+  namedGroups: Array<Record<string, string | undefined>>;
+  /** Every match (or just the first without the g flag) with offsets and capture groups */
+  spans: MatchSpan[];
+  error?: string;
+  /** Set when the test was stopped for running longer than REGEX_TIMEOUT_MS */
+  timedOut?: boolean;
+}
+
+/**
+ * Collects every match with its capture groups, using exec()/matchAll() with the d flag for offsets
+ * With g every match is collected, otherwise only the first (from lastIndex 0 with y)
+ */
+function collectMatches(source: string, flags: string, testString: string): MatchSpan[] {
+  const re = new RegExp(source, flags.includes("d") ? flags : `${flags}d`);
+  const names = captureGroupsInSource(source, flags).map((g) => g.name);
+  const matches = re.global ? Array.from(testString.matchAll(re)) : [re.exec(testString)];
+  return matches
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map((m) => {
+      const indices = m.indices!;
+      const groups = Array.from({ length: m.length - 1 }, (_, i): GroupSpan => {
+        const pair = indices[i + 1];
+        const name = names[i];
+        return pair
+          ? { number: i + 1, name, text: m[i + 1], start: pair[0], end: pair[1] }
+          : { number: i + 1, name };
+      });
+      return { text: m[0], start: indices[0][0], end: indices[0][1], groups };
+    });
 }
 
 /**
  * Tests a string against a regex pattern with safety protections
- * Prevents ReDoS (Regular Expression Denial of Service) attacks by limiting input length
+ * Limits input length; run it through createRegexRunner() to also stop patterns that never finish
  *
  * @param pattern - Regex pattern string in format /pattern/flags
  * @param testString - String to test against
  * @returns Object with match results or error state
  */
-export function testRegexSafe(
-  pattern: string,
-  testString: string
-): { matches: boolean; matchedParts: string[]; error?: string } {
+export function testRegexSafe(pattern: string, testString: string): RegexTestResult {
   if (!pattern || pattern === "//") {
-    return { matches: false, matchedParts: [] };
+    return { matches: false, matchedParts: [], namedGroups: [], spans: [] };
   }
 
   // Limit test string length to prevent catastrophic backtracking
@@ -203,44 +938,43 @@ export function testRegexSafe(
     return {
       matches: false,
       matchedParts: [],
+      namedGroups: [],
+      spans: [],
       error: `Test string too long (max ${MAX_TEST_LENGTH} characters)`,
     };
   }
 
   try {
-    const patternMatch = pattern.match(/^\/(.+)\/([gimsuy]*)$/);
+    const patternMatch = pattern.match(/^\/(.+)\/([dgimsuvy]*)$/);
     if (!patternMatch) {
-      return { matches: false, matchedParts: [], error: "Invalid regex pattern format" };
+      return {
+        matches: false,
+        matchedParts: [],
+        namedGroups: [],
+        spans: [],
+        error: "Invalid regex pattern format",
+      };
     }
 
     try {
-      const re = new RegExp(patternMatch[1], patternMatch[2]);
-      const testMatches = re.test(testString);
-
-      // Get matches respecting user's flag selection
-      const matchResult = testString.match(new RegExp(patternMatch[1], patternMatch[2]));
-
-      // Handle different return types based on global flag
-      let matchedParts: string[] = [];
-      if (matchResult) {
-        // With global flag: returns array of all matches
-        // Without global flag: returns match object with captured groups
-        if (patternMatch[2].includes("g")) {
-          matchedParts = matchResult as string[];
-        } else {
-          // For non-global, return just the matched string (first element)
-          matchedParts = [matchResult[0]];
-        }
-      }
-
+      const spans = collectMatches(patternMatch[1], patternMatch[2], testString);
+      const hasNames = spans.some((m) => m.groups.some((g) => g.name));
       return {
-        matches: testMatches,
-        matchedParts,
+        matches: spans.length > 0,
+        matchedParts: spans.map((m) => m.text),
+        namedGroups: hasNames
+          ? spans.map((m) =>
+              Object.fromEntries(m.groups.filter((g) => g.name).map((g) => [g.name!, g.text]))
+            )
+          : [],
+        spans,
       };
     } catch (error) {
       return {
         matches: false,
         matchedParts: [],
+        namedGroups: [],
+        spans: [],
         error: error instanceof Error ? error.message : "Unknown error",
       };
     }
@@ -248,6 +982,8 @@ export function testRegexSafe(
     return {
       matches: false,
       matchedParts: [],
+      namedGroups: [],
+      spans: [],
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
@@ -0,0 +1,19 @@
+import { testRegexSafe } from "@/lib/regex-utils";
+import type { RegexWorkerRequest, RegexWorkerResponse } from "@/lib/regex-runner";
+
+/**
+ * Web Worker entry point for createRegexRunner()
+ * Runs each test with testRegexSafe(); the runner terminates this worker if a test takes too long
+ */
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<RegexWorkerRequest>) => void) | null;
+  postMessage(message: RegexWorkerResponse): void;
+};
+
+scope.onmessage = (event) => {
+  const { id, pattern, input } = event.data;
+  scope.postMessage({ type: "result", id, result: testRegexSafe(pattern, input) });
+};
+
+// Lets the runner start its timeout only once the worker can actually run tests
+scope.postMessage({ type: "ready" });
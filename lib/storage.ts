@@ -1,5 +1,5 @@
 import { SavedRegex } from "@/types/regex";
-import { SAVED_REGEX_STORAGE_KEY } from "@/lib/constants";
+import { DEFAULT_FLAGS, SAVED_REGEX_STORAGE_KEY } from "@/lib/constants";
 
 /**
  * Storage error types for different failure scenarios
@@ -20,6 +20,17 @@ export interface StorageError {
   originalError?: Error;
 }
 
+/**
+ * Upgrades a pattern saved by an older version to the current SavedRegex shape
+ * Flags added later (unicode, sticky, unicodeSets, hasIndices) default to off
+ *
+ * @param item - Pattern as read from storage
+ * @returns Pattern with every current field present
+ */
+export function migrateSavedRegex(item: SavedRegex): SavedRegex {
+  return { ...item, flags: { ...DEFAULT_FLAGS, ...item.flags } };
+}
+
 /**
  * Loads all saved regex patterns from localStorage
  * Handles errors gracefully and returns empty array on failure
@@ -42,17 +53,21 @@ export function loadSavedRegexes(): SavedRegex[] {
     }
 
     // Validate array items have required fields (name is optional for auto-save)
-    return parsed.filter(
-      (item): item is SavedRegex =>
-        item &&
-        typeof item === "object" &&
-        typeof item.id === "string" &&
-        (typeof item.name === "string" || item.name === undefined) &&
-        Array.isArray(item.criteria) &&
-        typeof item.flags === "object" &&
-        typeof item.regex === "string" &&
-        typeof item.createdAt === "number"
-    );
+    return parsed
+      .filter(
+        (item): item is SavedRegex =>
+          item &&
+          typeof item === "object" &&
+          typeof item.id === "string" &&
+          (typeof item.name === "string" || item.name === undefined) &&
+          Array.isArray(item.criteria) &&
+          typeof item.flags === "object" &&
+          typeof item.regex === "string" &&
+          typeof item.createdAt === "number" &&
+          (typeof item.replacement === "string" || item.replacement === undefined) &&
+          (Array.isArray(item.tests) || item.tests === undefined)
+      )
+      .map(migrateSavedRegex);
   } catch (error) {
     console.error("Failed to load saved regexes:", error);
     return [];
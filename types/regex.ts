@@ -7,10 +7,67 @@ export interface RegexCriterion {
   id: string;
   /** The type of pattern this criterion represents (e.g., "contains", "digit", "custom_class") */
   type: string;
-  /** The value to match (pattern, character class, etc.) - not needed for some types like "digit" */
+  /**
+   * The value to match (pattern, character class, etc.) - not needed for some types like "digit"
+   * For "named_group" this is the group name; for "backreference" a group name or number
+   */
   value: string;
   /** How many times the pattern should match (e.g., "one", "zero_or_more", "one_or_more") */
   quantifier: string;
+  /** Minimum (or exact) count for the "exactly", "at_least" and "between" quantifiers */
+  min?: number;
+  /** Maximum count for the "between" quantifiers */
+  max?: number;
+  /**
+   * Nested criteria for container types ("group", "named_group", "sequence", "or", lookarounds)
+   * For "or" each child is one alternative. Omitted by criteria saved before nesting existed.
+   */
+  children?: RegexCriterion[];
+}
+
+/**
+ * A problem found while building a pattern, attributed to the criterion that caused it
+ */
+export interface CriterionError {
+  /** Id of the offending criterion */
+  criterionId: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Checks run by the criteria linter; "syntax" marks compile errors pinned on a criterion
+ */
+export type LintRule =
+  | "quantifier"
+  | "group-reference"
+  | "line-anchor"
+  | "empty-value"
+  | "misplaced-anchor"
+  | "exact-with-others"
+  | "empty-alternative"
+  | "syntax";
+
+/**
+ * A linter finding for one criterion
+ * Errors stop the spell from being saved; warnings are shown but don't block
+ */
+export interface LintDiagnostic extends CriterionError {
+  /** Check that produced it, so the UI can show it next to the field it concerns */
+  rule: LintRule;
+  severity: "error" | "warning";
+}
+
+/**
+ * A capturing group in the built pattern, numbered the way the regex engine numbers it
+ */
+export interface CaptureGroupInfo {
+  /** 1-based group number (order of the opening parenthesis) */
+  number: number;
+  /** Group name for named groups with a valid, unique name */
+  name?: string;
+  /** Id of the criterion that emits the group (a raw fragment may emit several) */
+  criterionId: string;
 }
 
 /**
@@ -26,6 +83,51 @@ export interface RegexFlags {
   multiline: boolean;
   /** /s flag - Make . match newline characters (dot all) */
   dotAll: boolean;
+  /** /u flag - Match by code point and enable \p{...} escapes (cannot be combined with v) */
+  unicode: boolean;
+  /** /y flag - Only match starting exactly at lastIndex */
+  sticky: boolean;
+  /** /v flag - Unicode mode with set operations in classes (cannot be combined with u) */
+  unicodeSets: boolean;
+  /** /d flag - Record start/end indices for each capture group */
+  hasIndices: boolean;
+}
+
+/**
+ * A test case saved with a pattern, checked whenever the pattern changes
+ */
+export interface RegexTestCase {
+  /** Unique identifier for this test case */
+  id: string;
+  /** Text the pattern is tested against */
+  input: string;
+  /** Whether the pattern should find a match in the input */
+  shouldMatch: boolean;
+  /**
+   * Expected text of capture groups in the first match, keyed by group number or name
+   * Groups left out are not checked
+   */
+  captures?: Record<string, string>;
+}
+
+/**
+ * A ready-made pattern from the preset library
+ */
+export interface RegexPreset {
+  /** Unique identifier for this preset */
+  id: string;
+  name: string;
+  /** What the pattern matches */
+  description: string;
+  /** Inputs the pattern gets wrong or deliberately doesn't handle */
+  limitations: string[];
+  /** Extra words the picker searches, e.g. "guid" for UUIDs */
+  keywords: string[];
+  /** Criteria for the pattern body, without anchors so they can be appended */
+  criteria: RegexCriterion[];
+  flags: RegexFlags;
+  /** Cases the whole pattern (anchored to the full input) passes */
+  tests: RegexTestCase[];
 }
 
 /**
@@ -45,4 +147,147 @@ export interface SavedRegex {
   regex: string;
   /** Timestamp when the pattern was created (milliseconds since epoch) */
   createdAt: number;
+  /** Replacement template from replace mode, e.g. "$<year>-$1" */
+  replacement?: string;
+  /** Test cases the pattern should pass */
+  tests?: RegexTestCase[];
 }
+
+/**
+ * Regex dialects a pattern can be exported to
+ */
+export type RegexFlavor =
+  | "javascript"
+  | "python"
+  | "go"
+  | "java"
+  | "pcre"
+  | "dotnet"
+  | "ruby"
+  | "rust";
+
+/**
+ * Languages code snippets can be generated for
+ */
+export type SnippetLanguage =
+  | "javascript"
+  | "typescript"
+  | "python"
+  | "go"
+  | "java"
+  | "csharp"
+  | "php"
+  | "ruby"
+  | "rust";
+
+/**
+ * Kinds of parenthesised groups recognised by the pattern parser
+ */
+export type RegexGroupKind =
+  | "capture"
+  | "non_capture"
+  | "named"
+  | "lookahead"
+  | "negative_lookahead"
+  | "lookbehind"
+  | "negative_lookbehind";
+
+/**
+ * Fields shared by every node in a parsed pattern
+ * Offsets index into the pattern source (without slashes or flags)
+ */
+interface RegexNodeBase {
+  /** Offset of the first character of this node */
+  start: number;
+  /** Offset just past the last character of this node */
+  end: number;
+}
+
+/** Two or more branches separated by `|` */
+export interface RegexAlternationNode extends RegexNodeBase {
+  kind: "alternation";
+  /** One sequence node per branch */
+  branches: RegexSequenceNode[];
+}
+
+/** Terms matched one after another */
+export interface RegexSequenceNode extends RegexNodeBase {
+  kind: "sequence";
+  items: RegexNode[];
+}
+
+/** A parenthesised group, including lookarounds */
+export interface RegexGroupNode extends RegexNodeBase {
+  kind: "group";
+  group: RegexGroupKind;
+  /** Group name for `(?<name>...)` */
+  name?: string;
+  body: RegexAlternationNode | RegexSequenceNode;
+}
+
+/** A term followed by `*`, `+`, `?` or `{n,m}` */
+export interface RegexQuantifierNode extends RegexNodeBase {
+  kind: "quantifier";
+  body: RegexNode;
+  min: number;
+  /** Upper bound, or null when unbounded */
+  max: number | null;
+  /** True for the lazy form (trailing `?`) */
+  lazy: boolean;
+}
+
+/** A single literal character (plain or escaped) */
+export interface RegexLiteralNode extends RegexNodeBase {
+  kind: "literal";
+  /** The character this node matches */
+  char: string;
+}
+
+/** A shorthand class such as `\d`, `\W` or `\p{Letter}` */
+export interface RegexClassEscapeNode extends RegexNodeBase {
+  kind: "class_escape";
+  /** Escape source without the backslash (e.g. "d", "p{Letter}") */
+  escape: string;
+}
+
+/** A bracketed character class `[...]` or `[^...]` */
+export interface RegexCharClassNode extends RegexNodeBase {
+  kind: "char_class";
+  negated: boolean;
+  /** Class contents between the brackets (after `^` when negated) */
+  body: string;
+}
+
+/** The `.` wildcard */
+export interface RegexAnyNode extends RegexNodeBase {
+  kind: "any";
+}
+
+/** A zero-width anchor: `^`, `$`, `\b` or `\B` */
+export interface RegexAssertionNode extends RegexNodeBase {
+  kind: "assertion";
+  assertion: "start" | "end" | "word_boundary" | "non_word_boundary";
+}
+
+/** A backreference `\N` or `\k<name>` */
+export interface RegexBackreferenceNode extends RegexNodeBase {
+  kind: "backreference";
+  /** Group number (as a string) or group name */
+  ref: string;
+}
+
+/**
+ * A node in the syntax tree produced by parsePattern()
+ * Used to import existing regexes and to analyse generated ones
+ */
+export type RegexNode =
+  | RegexAlternationNode
+  | RegexSequenceNode
+  | RegexGroupNode
+  | RegexQuantifierNode
+  | RegexLiteralNode
+  | RegexClassEscapeNode
+  | RegexCharClassNode
+  | RegexAnyNode
+  | RegexAssertionNode
+  | RegexBackreferenceNode;